@@ -1,33 +1,88 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { 
   Trophy, Key, RefreshCw, Archive, Sparkles, X, 
-  Play, RotateCcw, Zap, Hand
+  Play, RotateCcw, Zap, Hand, CalendarDays, Film, Upload, Download, Undo2, Redo2, Home, History, Keyboard, Settings, BarChart3, Medal, Puzzle, PencilRuler, Swords, Globe, ListOrdered, UserRound, WifiOff
 } from 'lucide-react';
 import confetti from 'canvas-confetti';
 
 // Project imports
 import { 
-  Grid, Shape
+  Achievement, AchievementProgress, AppSettings, BoardConfig, DealerConfig, GameAction, GameConfig, GameEvent, GameMode, GameState, GameStats, Hint, InputAction, KeyBindings, 
+  LineAxis, PieceSource, PowerUp, PuzzleLevel, PuzzleOutcome, Replay, Shape, SubmitResult, Theme
 } from './types';
 import { 
-  GRID_SIZE, COST_ROTATE, 
-  createEmptyGrid, generateRandomShape 
+  COST_ROTATE, COST_UNDO
 } from './constants';
+import { DEFAULT_BOARD, canPlacePiece, checkGameOver, normalizeBoardConfig } from './services/board';
 import { 
-  canPlacePiece, placePiece, checkLines, checkGameOver, rotateMatrix, calculateScore 
-} from './services/gameLogic';
-import { getAIHint } from './services/geminiService';
+  canRedo, canUndo, createInitialState, gameReducer, getPiece, getPieceCells 
+} from './services/gameEngine';
+import { getHint, getHintCells, isGeminiConfigured, isSameHintPosition, validateHintMove } from './services/hintService';
+import { getBestScore, saveBestScore } from './services/highScores';
+import { getDailySeed, randomSeed } from './services/random';
+import { createReplay, getReplayFileName, parseReplay, serializeReplay } from './services/replay';
+import { LoadResult, SavedSession, clearSession, loadSession, saveSession } from './services/savedGame';
+import { loadKeyBindings, saveKeyBindings } from './services/inputBindings';
+import { loadSettings, saveSettings } from './services/settings';
+import { getColorGlyph, getColorName, getDisplayColor, getDisplayShape } from './services/palette';
+import { BUILT_IN_THEMES, CUSTOM_THEME_ID, applyTheme, getTheme, loadCustomTheme, saveCustomTheme } from './services/themes';
+import { describeTurn } from './services/announcements';
+import { canUsePowerUp, getPowerUpCells, getPowerUpInfo } from './services/powerUps';
+import { accumulateStats, createGameStats, finishGameStats, recordHintRequest, recountStats } from './services/gameStats';
+import { saveGameRecord } from './services/statsStore';
+import {
+  LEVEL_CODE_PARAM, createBlankLevel, createPuzzleStart, decodeLevelCode, evaluatePuzzle, getGoalCells, getLevel, getStarterPack,
+  loadLevelDraft, loadPuzzleProgress, savePuzzleResult
+} from './services/puzzles';
+import { AchievementTurn, evaluateAchievements, loadAchievements, saveAchievements } from './services/achievements';
+import { DealerPreferences, getModeDealer, loadDealerPreferences, saveDealerPreferences } from './services/pieceDealer';
+import { getModeInfo, getVariant, hasClock } from './services/modes';
+import { SEED_LIFETIME_MS, getLeaderboardBackend, isRankedMode } from './services/leaderboard';
+import { ProfileStore, getActiveProfile, loadProfiles, saveProfiles } from './services/profiles';
+import { applyAudioSettings, playSound, setBoardFill, startMusic, stopMusic, unlockAudio } from './services/audio';
+import { useInputActions } from './hooks/useInputActions';
+import { useParticles } from './hooks/useParticles';
+import { useGameClock } from './hooks/useGameClock';
+import { usePrefersReducedMotion } from './hooks/usePrefersReducedMotion';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { useServiceWorker } from './hooks/useServiceWorker';
 
 // Components
-import { GridCell } from './components/GridCell';
+import { AchievementsPanel } from './components/AchievementsPanel';
+import { AchievementToast } from './components/AchievementToast';
+import { Board, BoardCursor } from './components/Board';
+import { BoardSettings } from './components/BoardSettings';
+import { DealerSettings } from './components/DealerSettings';
+import { ModeHud } from './components/ModeHud';
+import { ModeSelect } from './components/ModeSelect';
+import { VersusMatch } from './components/VersusMatch';
+import { OnlineMatch } from './components/OnlineMatch';
+import { ControlsPanel } from './components/ControlsPanel';
+import { LevelEditor } from './components/LevelEditor';
+import { LevelSelect } from './components/LevelSelect';
+import { LeaderboardPanel } from './components/LeaderboardPanel';
+import { Announcement, LiveRegion } from './components/LiveRegion';
 import { PieceView } from './components/PieceView';
+import { PowerUpBar } from './components/PowerUpBar';
+import { ProfilesPanel } from './components/ProfilesPanel';
+import { PuzzleHud } from './components/PuzzleHud';
+import { PuzzleResult } from './components/PuzzleResult';
+import { ReplayViewer } from './components/ReplayViewer';
+import { SettingsPanel } from './components/SettingsPanel';
+import { StatsDashboard } from './components/StatsDashboard';
+import { ThemeEditor } from './components/ThemeEditor';
+import { ThemePicker } from './components/ThemePicker';
+import { UpdatePrompt } from './components/UpdatePrompt';
 
-type GamePhase = 'start' | 'playing' | 'gameover';
+type GamePhase = 'start' | 'playing' | 'gameover' | 'replay' | 'versus' | 'online';
+
+// What the leaderboard made of the last finished game
+type ScoreStatus = SubmitResult | { status: 'pending' } | { status: 'error'; reason: string };
 
 interface DragState {
   active: boolean;
   piece: Shape;
-  sourceIndex: number | 'hold'; // Index in availablePieces or 'hold'
+  sourceIndex: PieceSource;
   startX: number;
   startY: number;
   currentX: number;
@@ -35,59 +90,491 @@ interface DragState {
   touchOffset: { x: number, y: number }; // Offset from top-left of the piece element
 }
 
+// Keyboard/gamepad placement cursor: which piece, and where its top-left sits
+interface CursorState {
+  source: PieceSource;
+  x: number;
+  y: number;
+}
+
+// Power-up waiting for a target; the first tap aims, a second tap on the same cell fires
+interface ArmedPowerUp {
+  powerUp: PowerUp;
+  axis: LineAxis;
+  target: { x: number, y: number } | null;
+}
+
+const BOARD_PREFERENCE_KEY = 'qblock_board';
+
+const readBoardPreference = (): BoardConfig => {
+  try {
+    const stored = localStorage.getItem(BOARD_PREFERENCE_KEY);
+    return stored ? normalizeBoardConfig(JSON.parse(stored)) : DEFAULT_BOARD;
+  } catch {
+    return DEFAULT_BOARD;
+  }
+};
+
 const App: React.FC = () => {
   // --- State ---
   const [phase, setPhase] = useState<GamePhase>('start');
-  const [grid, setGrid] = useState<Grid>(createEmptyGrid());
-  const [availablePieces, setAvailablePieces] = useState<Shape[]>([]);
-  const [holdPiece, setHoldPiece] = useState<Shape | null>(null);
+  const [mode, setMode] = useState<GameMode>('classic');
+  const [menuMode, setMenuMode] = useState<GameMode>('classic'); // What START GAME launches
+  const [boardPreference, setBoardPreference] = useState<BoardConfig>(readBoardPreference);
+  const [dealerPreferences, setDealerPreferences] = useState<DealerPreferences>(loadDealerPreferences);
+  const [game, setGame] = useState<GameState>(() => createInitialState(getBestScore('classic')));
   const [selectedPieceIndex, setSelectedPieceIndex] = useState<number | null>(null); // Kept for tap-to-select logic
+  const { grid, availablePieces, holdPiece, score, highScore, keys, combo } = game;
+
+  // Engine state mirror so handlers never read a stale render
+  const gameRef = useRef(game);
+  const modeRef = useRef(mode);
+  const clockUnsavedRef = useRef(false); // Ticks since the last save
+
+  // Replay recording: config of the running game plus every accepted action
+  const configRef = useRef<GameConfig>({ mode, seed: game.seed, board: game.board });
+  const actionLogRef = useRef<GameAction[]>([]);
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const replayReturnRef = useRef<GamePhase>('start');
+
+  // Stats for the running game, stored to the history on game over
+  const statsRef = useRef<GameStats>(createGameStats(game, mode));
+  const [showStats, setShowStats] = useState(false);
+
+  // Achievements: progress lives in a ref so dispatch always extends the latest
+  const achievementsRef = useRef<AchievementProgress>(loadAchievements());
+  const [toasts, setToasts] = useState<Achievement[]>([]);
+  const [showAchievements, setShowAchievements] = useState(false);
+
+  // Player profiles and the replay-verified leaderboard
+  const [profiles, setProfiles] = useState<ProfileStore>(loadProfiles);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
+  const [scoreStatus, setScoreStatus] = useState<ScoreStatus | null>(null);
+  const submissionRef = useRef(0); // Drops answers that arrive after the next game started
+  const rankedSeedRef = useRef<{ seed: number; issuedAt: number } | null>(null); // Fetched ahead, so a game starts at once
+
+  // Puzzle mode: the level being played and, once decided, how it went
+  const [puzzleLevel, setPuzzleLevel] = useState<PuzzleLevel | null>(null);
+  const puzzleLevelRef = useRef(puzzleLevel);
+  const [puzzleOutcome, setPuzzleOutcome] = useState<PuzzleOutcome | null>(null);
+  const [puzzleProgress, setPuzzleProgress] = useState(loadPuzzleProgress);
+  const [showLevels, setShowLevels] = useState(false);
+  const [showEditor, setShowEditor] = useState(false);
+  const [isTestingLevel, setIsTestingLevel] = useState(false); // Playing the editor's draft
+  const [sharedLevelError, setSharedLevelError] = useState<string | null>(null);
+
+  // Auto-saved session offered as "Continue" on the start screen
+  const [savedSession, setSavedSession] = useState<LoadResult>(loadSession);
   
-  const [score, setScore] = useState(0);
-  const [highScore, setHighScore] = useState(0);
-  const [keys, setKeys] = useState(0);
-  const [combo, setCombo] = useState(1);
-  
-  const [aiHint, setAiHint] = useState<string | null>(null);
+  const [aiHint, setAiHint] = useState<Hint | null>(null);
   const [isLoadingHint, setIsLoadingHint] = useState(false);
 
+  // Offline play: the service worker caches the build, network features step aside
+  const online = useOnlineStatus();
+  const { updateReady, applyUpdate, dismissUpdate } = useServiceWorker();
+  const geminiOffline = !online && isGeminiConfigured();
+
   // Drag & Drop State
   const [dragState, setDragState] = useState<DragState | null>(null);
   const [dropPreview, setDropPreview] = useState<{ x: number, y: number } | null>(null);
   const [isHoveringHold, setIsHoveringHold] = useState(false);
 
+  // Keyboard & Gamepad
+  const [cursor, setCursor] = useState<CursorState | null>(null);
+  const [keyBindings, setKeyBindings] = useState<KeyBindings>(loadKeyBindings);
+  const [showControls, setShowControls] = useState(false);
+
+  // Power-up targeting
+  const [armed, setArmed] = useState<ArmedPowerUp | null>(null);
+
+  // Accessibility
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null);
+
+  // Themes
+  const [customTheme, setCustomTheme] = useState<Theme>(loadCustomTheme);
+  const [showThemeEditor, setShowThemeEditor] = useState(false);
+  const theme = getTheme(settings.themeId, customTheme);
+
   // Refs for coordinate calculations
   const gridRef = useRef<HTMLDivElement>(null);
   const holdRef = useRef<HTMLButtonElement>(null);
 
-  // --- Initialization ---
-  useEffect(() => {
-    const stored = localStorage.getItem('qblock_highscore');
-    if (stored) setHighScore(parseInt(stored));
-  }, []);
+  // Board effects
+  const prefersReducedMotion = usePrefersReducedMotion();
+  const reduceMotion = settings.reduceMotion || prefersReducedMotion;
+  const particles = useParticles(gridRef, !reduceMotion);
+  const hoverCellRef = useRef<string | null>(null); // Last drag target, so hover sounds play once per cell
+
+  // --- Engine ---
+  const dispatch = (action: GameAction): boolean => {
+    const prev = gameRef.current;
+    const { state: next, events } = gameReducer(prev, action);
+    if (next === prev) return false;
+
+    gameRef.current = next;
+    setGame(next);
+    if (!isSameHintPosition(prev, next)) setAiHint(null); // A changed position makes the hint stale
+    if (action.type === 'newGame') {
+      configRef.current = {
+        mode: modeRef.current, seed: next.seed, board: next.board,
+        dealer: puzzleLevelRef.current ? undefined : next.dealer, levelId: puzzleLevelRef.current?.id,
+      };
+      actionLogRef.current = [];
+      statsRef.current = createGameStats(next, modeRef.current);
+      submissionRef.current++;
+      setScoreStatus(null);
+    } else {
+      actionLogRef.current.push(action);
+      statsRef.current = accumulateStats(statsRef.current, action, prev, next, events);
+      // Moves taken back still sit in the log; a finished game only counts the ones that stayed
+      if (events.some(e => e.type === 'gameOver') && actionLogRef.current.some(a => a.type === 'undo')) {
+        statsRef.current = recountStats(statsRef.current, configRef.current, actionLogRef.current);
+      }
+      trackAchievements({ action, prev, next, events, stats: statsRef.current });
+    }
+    if (next.highScore > prev.highScore) {
+      saveBestScore(modeRef.current, next.highScore, next.board, next.dealer);
+    }
+    // The clock ticks every second; its time is saved with the next move, or when the page hides
+    if (action.type === 'tick' && !next.isGameOver) {
+      clockUnsavedRef.current = true;
+    } else {
+      persistSession(next);
+    }
+    if (action.type === 'rotate' || action.type === 'hold') playSound(action.type);
+    announce(describeTurn(action, prev, next, events));
+    events.forEach(handleGameEvent);
+    trackPuzzle(next);
+    return true;
+  };
+
+  // Goals are judged outside the engine, which only knows the rules of play
+  const trackPuzzle = (state: GameState) => {
+    const level = puzzleLevelRef.current;
+    if (!level) return;
+    const outcome = evaluatePuzzle(level, state);
+    setPuzzleOutcome(outcome);
+    if (outcome.status === 'playing') return;
+    clearSession(); // A decided puzzle has nothing left to continue
+    setPhase('gameover');
+    if (outcome.status === 'won') {
+      setPuzzleProgress(savePuzzleResult(level.id, outcome.stars, state.score));
+      if (!reduceMotion) confetti({ particleCount: 40 * outcome.stars, spread: 90, origin: { y: 0.4 }, disableForReducedMotion: true });
+      announce(`Puzzle solved with ${outcome.stars} of 3 stars.`);
+    } else {
+      announce('Puzzle failed. Undo or retry.');
+    }
+  };
+
+  const trackAchievements = (turn: AchievementTurn) => {
+    const { progress, unlocked } = evaluateAchievements(achievementsRef.current, turn);
+    achievementsRef.current = progress;
+    saveAchievements(progress);
+    if (unlocked.length > 0) {
+      setToasts(queue => [...queue, ...unlocked]);
+      announce(unlocked.map(a => `Achievement unlocked: ${a.title}.`).join(' '));
+    }
+  };
 
-  const startGame = () => {
-    setGrid(createEmptyGrid());
-    setScore(0);
-    setKeys(3); // Start with 3 bonus keys
-    setCombo(1);
-    setHoldPiece(null);
+  const announce = (text: string) => {
+    if (text) setAnnouncement(a => ({ id: (a?.id ?? 0) + 1, text }));
+  };
+
+  const handleGameEvent = (event: GameEvent) => {
+    switch (event.type) {
+      case 'piecePlaced':
+        playSound('drop');
+        particles.sparks(event.cells, getDisplayColor(event.color, settings.highContrast, theme.pieces));
+        break;
+      case 'linesCleared':
+        triggerHaptic('heavy');
+        // The combo on the state already counts this clear
+        playSound('lineClear', gameRef.current.combo - 1);
+        particles.shatter(event.cells, getDisplayColor(event.color, settings.highContrast, theme.pieces), event.count + event.regions, gameRef.current.combo - 1);
+        break;
+      case 'keysEarned':
+        playSound('keyEarned');
+        break;
+      case 'garbageRisen':
+        playSound('garbage');
+        triggerHaptic('medium');
+        break;
+      case 'trayReshuffled':
+        triggerHaptic('medium');
+        break;
+      case 'gameOver':
+        playSound('gameOver');
+        setPhase('gameover');
+        saveGameRecord(finishGameStats(statsRef.current, gameRef.current)).catch(() => {
+          // No IndexedDB (private mode, old browser); the game itself is unaffected
+        });
+        submitScore();
+        break;
+    }
+  };
+
+  // Classic is only ranked on a seed the leaderboard issued; offline, games go unranked
+  const fetchRankedSeed = () => {
+    rankedSeedRef.current = null;
+    getLeaderboardBackend().issueSeed()
+      .then(seed => { rankedSeedRef.current = { seed, issuedAt: Date.now() }; })
+      .catch(() => {});
+  };
+
+  useEffect(fetchRankedSeed, []);
+
+  // Daily Challenge: everyone gets the sequence seeded by today's date, on the default board
+  const takeSeed = (nextMode: GameMode): number => {
+    if (nextMode === 'daily') return getDailySeed();
+    if (nextMode !== 'classic') return randomSeed();
+    const ranked = rankedSeedRef.current;
+    fetchRankedSeed();
+    // Leave most of the seed's lifetime for the game itself
+    return ranked && Date.now() - ranked.issuedAt < SEED_LIFETIME_MS / 2 ? ranked.seed : randomSeed();
+  };
+
+  const startGame = (nextMode: GameMode = modeRef.current) => {
+    if (nextMode === 'puzzle') {
+      if (puzzleLevelRef.current) startPuzzle(puzzleLevelRef.current);
+      return;
+    }
+    selectLevel(null);
+    modeRef.current = nextMode;
+    setMode(nextMode);
     setAiHint(null);
-    spawnPieces();
+    setArmed(null);
+    setSelectedPieceIndex(null);
     setPhase('playing');
+    const board = nextMode === 'daily' ? DEFAULT_BOARD : boardPreference;
+    const dealer = getModeDealer(nextMode, dealerPreferences);
+    dispatch({
+      type: 'newGame',
+      seed: takeSeed(nextMode),
+      highScore: getBestScore(nextMode, board, dealer),
+      board,
+      dealer,
+      variant: getVariant(nextMode),
+    });
+  };
+
+  // The backend re-plays the move log before it takes the score
+  const submitScore = () => {
+    if (puzzleLevelRef.current || !isRankedMode(modeRef.current)) return;
+    const profile = getActiveProfile(profiles);
+    const ticket = ++submissionRef.current;
+    const settle = (status: ScoreStatus) => {
+      if (submissionRef.current === ticket) setScoreStatus(status);
+    };
+    setScoreStatus({ status: 'pending' });
+    getLeaderboardBackend()
+      .submit({ profileId: profile.id, name: profile.name, replay: serializeReplay(getCurrentReplay()) })
+      .then(settle)
+      .catch(err => settle({ status: 'error', reason: err instanceof Error ? err.message : 'No answer' }));
   };
 
-  const spawnPieces = () => {
-    const newPieces = [generateRandomShape(), generateRandomShape(), generateRandomShape()];
-    setAvailablePieces(newPieces);
+  const handleProfiles = (next: ProfileStore) => {
+    setProfiles(next);
+    saveProfiles(next);
+  };
+
+  const selectLevel = (level: PuzzleLevel | null) => {
+    puzzleLevelRef.current = level;
+    setPuzzleLevel(level);
+    setPuzzleOutcome(null);
+  };
+
+  const startPuzzle = (level: PuzzleLevel) => {
+    selectLevel(level);
+    setShowLevels(false);
+    modeRef.current = 'puzzle';
+    setMode('puzzle');
+    setAiHint(null);
+    setArmed(null);
     setSelectedPieceIndex(null);
-    
-    // Check game over immediately after spawn
-    setTimeout(() => {
-      if (checkGameOver(grid, newPieces, holdPiece)) {
-        setPhase('gameover');
-      }
-    }, 100);
+    setPhase('playing');
+    dispatch(createPuzzleStart(level));
+  };
+
+  const testLevel = (level: PuzzleLevel) => {
+    setShowEditor(false);
+    setIsTestingLevel(true);
+    startPuzzle(level);
+  };
+
+  const openEditor = () => {
+    setIsTestingLevel(false);
+    goToMenu();
+    setShowEditor(true);
+  };
+
+  const showLevelSelect = () => {
+    setPuzzleProgress(loadPuzzleProgress());
+    goToMenu();
+    setShowLevels(true);
+  };
+
+  // --- Save & Resume ---
+  const persistSession = (state: GameState) => {
+    clockUnsavedRef.current = false;
+    if (state.isGameOver) {
+      clearSession();
+    } else {
+      saveSession({ mode: modeRef.current, levelId: puzzleLevelRef.current?.id, state, actions: actionLogRef.current, stats: statsRef.current });
+    }
+  };
+
+  const resumeGame = (session: SavedSession) => {
+    const state = { ...session.state, highScore: Math.max(session.state.highScore, getBestScore(session.mode, session.state.board, session.state.dealer)) };
+    modeRef.current = session.mode;
+    setMode(session.mode);
+    selectLevel(session.levelId ? getLevel(session.levelId) : null); // loadSession checked the level exists
+    gameRef.current = state;
+    setGame(state);
+    configRef.current = {
+      mode: session.mode, seed: state.seed, board: state.board,
+      dealer: session.levelId ? undefined : state.dealer, levelId: session.levelId,
+    };
+    actionLogRef.current = [...session.actions];
+    statsRef.current = session.stats ?? createGameStats(state, session.mode);
+    setAiHint(null);
+    setArmed(null);
+    setSelectedPieceIndex(null);
+    setPhase('playing');
+  };
+
+  const goToMenu = () => {
+    setSavedSession(loadSession());
+    setPhase('start');
+  };
+
+  // One toast at a time, each shown for a few seconds
+  useEffect(() => {
+    if (toasts.length === 0) return;
+    const timer = setTimeout(() => setToasts(queue => queue.slice(1)), 3500);
+    return () => clearTimeout(timer);
+  }, [toasts]);
+
+  // Shared level links (?level=<code>) open straight into the puzzle
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const code = params.get(LEVEL_CODE_PARAM);
+    if (!code) return;
+    params.delete(LEVEL_CODE_PARAM);
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+    try {
+      startPuzzle(decodeLevelCode(code));
+    } catch (err) {
+      setSharedLevelError(err instanceof Error ? err.message : 'Could not read shared level');
+    }
+  }, []);
+
+  // A corrupt or outdated save is reported once and dropped
+  useEffect(() => {
+    if (savedSession.status === 'invalid') clearSession();
+  }, [savedSession]);
+
+  const handleSettings = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  const handleCustomTheme = (next: Theme) => {
+    setCustomTheme(next);
+    saveCustomTheme(next);
+  };
+
+  const openThemeEditor = () => {
+    handleSettings({ ...settings, themeId: CUSTOM_THEME_ID });
+    setShowThemeEditor(true);
+  };
+
+  useEffect(() => {
+    applyTheme(theme);
+  }, [theme]);
+
+  // Leaving mid-clock must not hand the player back the seconds since their last move
+  useEffect(() => {
+    const flushClock = () => {
+      if (clockUnsavedRef.current) persistSession(gameRef.current);
+    };
+    window.addEventListener('pagehide', flushClock);
+    document.addEventListener('visibilitychange', flushClock);
+    return () => {
+      window.removeEventListener('pagehide', flushClock);
+      document.removeEventListener('visibilitychange', flushClock);
+    };
+  }, []);
+
+  // --- Audio ---
+  // Browsers keep audio locked until the player interacts
+  useEffect(() => {
+    window.addEventListener('pointerdown', unlockAudio);
+    window.addEventListener('keydown', unlockAudio);
+    return () => {
+      window.removeEventListener('pointerdown', unlockAudio);
+      window.removeEventListener('keydown', unlockAudio);
+    };
+  }, []);
+
+  useEffect(() => {
+    applyAudioSettings(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    if (phase === 'playing' || phase === 'versus' || phase === 'online') startMusic();
+    else stopMusic();
+  }, [phase]);
+
+  useEffect(() => {
+    setBoardFill(grid.flat().filter(c => c !== null).length / (grid.length * grid.length));
+  }, [grid]);
+
+  const handleBoardPreference = (board: BoardConfig) => {
+    setBoardPreference(board);
+    localStorage.setItem(BOARD_PREFERENCE_KEY, JSON.stringify(board));
+  };
+
+  const handleDealerPreference = (forMode: GameMode, dealer: DealerConfig) => {
+    const next = { ...dealerPreferences, [forMode]: dealer };
+    setDealerPreferences(next);
+    saveDealerPreferences(next);
+  };
+
+  // --- Replays ---
+  const getCurrentReplay = () => createReplay(configRef.current, actionLogRef.current, gameRef.current.score);
+
+  const exportReplay = (toExport: Replay) => {
+    const blob = new Blob([serializeReplay(toExport)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getReplayFileName(toExport);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const watchReplay = (toWatch: Replay) => {
+    setReplayError(null);
+    setReplay(toWatch);
+    replayReturnRef.current = phase;
+    setPhase('replay');
+  };
+
+  const handleImportReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+    try {
+      watchReplay(parseReplay(await file.text()));
+    } catch (err) {
+      setReplayError(err instanceof Error ? err.message : 'Could not read replay');
+    }
   };
 
   // --- Haptics Helper ---
@@ -104,7 +591,7 @@ const App: React.FC = () => {
 
   // --- Drag & Drop Logic ---
 
-  const handleDragStart = (e: React.PointerEvent, piece: Shape, sourceIndex: number | 'hold') => {
+  const handleDragStart = (e: React.PointerEvent, piece: Shape, sourceIndex: PieceSource) => {
     if (phase !== 'playing') return;
     
     // Allow selecting without dragging if just a tap, but start drag tracking
@@ -121,6 +608,10 @@ const App: React.FC = () => {
       y: e.clientY - rect.top
     };
 
+    setCursor(null); // Pointer takes over from the keyboard cursor
+    setArmed(null);
+    playSound('pickup');
+    hoverCellRef.current = null;
     setDragState({
       active: true,
       piece: JSON.parse(JSON.stringify(piece)), // Deep copy to avoid mutating source during render
@@ -153,6 +644,8 @@ const App: React.FC = () => {
         currentY: e.clientY
       }) : null);
 
+      let overBoard = false; // Still over the board, just not somewhere the piece fits
+
       // 1. Check Grid Intersection
       if (gridRef.current) {
         const gridRect = gridRef.current.getBoundingClientRect();
@@ -163,7 +656,8 @@ const App: React.FC = () => {
           e.clientY >= gridRect.top && 
           e.clientY <= gridRect.bottom
         ) {
-          const cellSize = gridRect.width / GRID_SIZE;
+          const boardSize = grid.length;
+          const cellSize = gridRect.width / boardSize;
           // Calculate cell coordinates based on pointer position relative to drag offset
           // We want the piece's "center" or "finger position" to determine the drop
           // Let's use the finger position (e.clientX, e.clientY)
@@ -197,12 +691,15 @@ const App: React.FC = () => {
           const gx = Math.floor((targetX - gridRect.left) / cellSize);
           const gy = Math.floor((targetY - gridRect.top) / cellSize);
           
-          if (gx >= -2 && gx < GRID_SIZE && gy >= -2 && gy < GRID_SIZE) {
+          if (gx >= -2 && gx < boardSize && gy >= -2 && gy < boardSize) {
              // Clamping/Checking validity happens in canPlacePiece
              // We pass gx, gy as the top-left origin of the shape
              // We need to find the "best" fit if it's slightly off? No, strict grid.
              
-             if (canPlacePiece(grid, dragState.piece, gx, gy)) {
+             const fits = canPlacePiece(grid, dragState.piece, gx, gy);
+             trackHoverCell(`${gx},${gy}`, fits);
+             overBoard = true;
+             if (fits) {
                 setDropPreview({ x: gx, y: gy });
                 setIsHoveringHold(false);
                 return;
@@ -222,26 +719,28 @@ const App: React.FC = () => {
         ) {
           setIsHoveringHold(true);
           setDropPreview(null);
+          trackHoverCell(null, false);
           return;
         }
       }
 
       setDropPreview(null);
       setIsHoveringHold(false);
+      if (!overBoard) trackHoverCell(null, false);
     };
 
     const handlePointerUp = (e: PointerEvent) => {
       if (!dragState?.active) return;
       
-      const { piece, sourceIndex } = dragState;
+      const { sourceIndex } = dragState;
       
       // Attempt Drop on Grid
       if (dropPreview) {
-        handlePlacePiece(piece, dropPreview.x, dropPreview.y, sourceIndex);
+        handlePlacePiece(dropPreview.x, dropPreview.y, sourceIndex);
       } 
       // Attempt Drop on Hold
       else if (isHoveringHold) {
-        handleHoldDrop(piece, sourceIndex);
+        handleHoldDrop(sourceIndex);
       }
       
       // Reset
@@ -259,96 +758,26 @@ const App: React.FC = () => {
     };
   }, [dragState, grid, dropPreview, isHoveringHold]); // Dependencies critical
 
-  // --- Logic Handlers ---
+  const trackHoverCell = (cell: string | null, fits: boolean) => {
+    if (cell === hoverCellRef.current) return;
+    hoverCellRef.current = cell;
+    if (cell) playSound(fits ? 'hoverValid' : 'hoverInvalid');
+  };
 
-  const handlePlacePiece = (piece: Shape, x: number, y: number, sourceIndex: number | 'hold') => {
-    // 1. Place Piece
-    const nextGrid = placePiece(grid, piece, x, y);
-    triggerHaptic('success');
-    
-    // 2. Score Placement
-    const blockCount = piece.matrix.flat().reduce((acc, v) => acc + v, 0);
-    let turnPoints = blockCount * 10;
-    
-    // 3. Check Lines
-    const { newGrid: clearedGrid, linesCleared } = checkLines(nextGrid);
-    
-    // 4. Handle Combo & Bonuses
-    if (linesCleared > 0) {
-      triggerHaptic('heavy');
-      const lineScore = calculateScore(linesCleared, combo);
-      turnPoints += lineScore;
-      
-      const earnedKeys = linesCleared; 
-      setKeys(k => k + earnedKeys);
-      setCombo(c => c + 1);
-
-      confetti({
-        particleCount: linesCleared * 30,
-        spread: 80,
-        origin: { y: 0.5 },
-        colors: [piece.color, '#ffffff']
-      });
-    } else {
-      setCombo(1);
-    }
+  // --- Logic Handlers ---
 
-    setScore(s => {
-      const newScore = s + turnPoints;
-      if (newScore > highScore) {
-        setHighScore(newScore);
-        localStorage.setItem('qblock_highscore', newScore.toString());
-      }
-      return newScore;
-    });
-    
-    setGrid(clearedGrid);
-
-    // 5. Remove from Source
-    if (sourceIndex === 'hold') {
-      setHoldPiece(null);
-    } else if (typeof sourceIndex === 'number') {
-      const newAvailable = [...availablePieces];
-      newAvailable[sourceIndex] = null as any; // Temporary mark
-      const remaining = newAvailable.filter(p => p !== null); // Remove nulls?
-      // Actually, we usually want to keep the gap until refill? 
-      // Standard blockudoku: list shrinks.
-      const filtered = availablePieces.filter((_, i) => i !== sourceIndex);
-      
-      if (filtered.length === 0) {
-        spawnPieces();
-      } else {
-        setAvailablePieces(filtered);
-        setSelectedPieceIndex(null);
-        
-        // Check Game Over
-        if (checkGameOver(clearedGrid, filtered, holdPiece)) {
-           setPhase('gameover');
-        }
-      }
+  const handlePlacePiece = (x: number, y: number, sourceIndex: PieceSource) => {
+    if (dispatch({ type: 'place', source: sourceIndex, x, y })) {
+      triggerHaptic('success');
+      setSelectedPieceIndex(null);
     }
   };
 
-  const handleHoldDrop = (piece: Shape, sourceIndex: number | 'hold') => {
+  const handleHoldDrop = (sourceIndex: PieceSource) => {
     if (sourceIndex === 'hold') return; // Already in hold
 
-    const currentHold = holdPiece;
-    setHoldPiece(piece);
-    triggerHaptic('medium');
-
-    if (currentHold) {
-       // Swap: Put old hold back into available slots
-       const newAvailable = [...availablePieces];
-       newAvailable[sourceIndex] = currentHold;
-       setAvailablePieces(newAvailable);
-    } else {
-       // Remove from available
-       const newAvailable = availablePieces.filter((_, i) => i !== sourceIndex);
-       if (newAvailable.length === 0) {
-         spawnPieces();
-       } else {
-         setAvailablePieces(newAvailable);
-       }
+    if (dispatch({ type: 'hold', source: sourceIndex })) {
+      triggerHaptic('medium');
     }
     setSelectedPieceIndex(null);
   };
@@ -356,62 +785,281 @@ const App: React.FC = () => {
   // Button-based Hold (Fallback/Tap interaction)
   const handleHoldButton = () => {
     if (selectedPieceIndex === null) return;
-    handleHoldDrop(availablePieces[selectedPieceIndex], selectedPieceIndex);
+    handleHoldDrop(selectedPieceIndex);
   };
 
   const handleRotate = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (selectedPieceIndex === null) return;
     
-    if (keys < COST_ROTATE) {
-      triggerHaptic('light'); // Error buzz?
-      return; 
-    }
-
-    triggerHaptic('medium');
-    const newPieces = [...availablePieces];
-    const piece = newPieces[selectedPieceIndex];
-    piece.matrix = rotateMatrix(piece.matrix);
-    setAvailablePieces(newPieces);
-    setKeys(prev => prev - COST_ROTATE);
+    // Engine rejects the rotation when keys < COST_ROTATE
+    triggerHaptic(dispatch({ type: 'rotate', source: selectedPieceIndex }) ? 'medium' : 'light');
   };
 
   const handleRotateHold = (e: React.MouseEvent) => {
       e.stopPropagation();
-      if (!holdPiece || keys < COST_ROTATE) return;
+      if (dispatch({ type: 'rotate', source: 'hold' })) {
+        triggerHaptic('medium');
+      }
+  };
+
+  const handleUndo = () => {
+    if (dispatch({ type: 'undo' })) {
+      triggerHaptic('medium');
+      setSelectedPieceIndex(null);
+      setPhase('playing'); // Undo can take back the move that ended the game
+    } else {
+      triggerHaptic('light');
+    }
+  };
 
+  const handleRedo = () => {
+    if (dispatch({ type: 'redo' })) {
       triggerHaptic('medium');
-      const newHold = { ...holdPiece };
-      newHold.matrix = rotateMatrix(newHold.matrix);
-      setHoldPiece(newHold);
-      setKeys(prev => prev - COST_ROTATE);
+      setSelectedPieceIndex(null);
+    }
+  };
+
+  // --- Power-ups ---
+
+  const handleSelectPowerUp = (powerUp: PowerUp) => {
+    if (armed?.powerUp === powerUp) {
+      setArmed(null);
+      return;
+    }
+    if (!getPowerUpInfo(powerUp).targeted) {
+      setArmed(null);
+      triggerHaptic(dispatch({ type: 'powerUp', powerUp, x: 0, y: 0 }) ? 'heavy' : 'light');
+      return;
+    }
+    setCursor(null);
+    setArmed({ powerUp, axis: 'row', target: null });
+    announce(`${getPowerUpInfo(powerUp).label} ready. Pick a cell, then use it.`);
+  };
+
+  const firePowerUp = (toFire: ArmedPowerUp) => {
+    if (!toFire.target) return;
+    const { powerUp, axis, target } = toFire;
+    if (dispatch({ type: 'powerUp', powerUp, x: target.x, y: target.y, axis: powerUp === 'lineEraser' ? axis : undefined })) {
+      triggerHaptic('heavy');
+      setArmed(null);
+    } else {
+      triggerHaptic('light');
+    }
+  };
+
+  const handleBoardCellClick = (x: number, y: number) => {
+    if (!armed || phase !== 'playing') return;
+    if (armed.target?.x === x && armed.target?.y === y) {
+      firePowerUp(armed);
+    } else {
+      setArmed({ ...armed, target: { x, y } });
+    }
+  };
+
+  // Keyboard/gamepad aiming; returns whether the input was consumed
+  const handlePowerUpInput = (action: InputAction, current: ArmedPowerUp): boolean => {
+    const size = gameRef.current.grid.length;
+    const center = Math.floor(size / 2);
+    const target = current.target ?? { x: center, y: center };
+    const aim = (x: number, y: number) => setArmed({
+      ...current,
+      target: { x: Math.max(0, Math.min(size - 1, x)), y: Math.max(0, Math.min(size - 1, y)) },
+    });
+
+    switch (action) {
+      case 'cursorUp': aim(target.x, target.y - (current.target ? 1 : 0)); return true;
+      case 'cursorDown': aim(target.x, target.y + (current.target ? 1 : 0)); return true;
+      case 'cursorLeft': aim(target.x - (current.target ? 1 : 0), target.y); return true;
+      case 'cursorRight': aim(target.x + (current.target ? 1 : 0), target.y); return true;
+      case 'rotate': setArmed({ ...current, axis: current.axis === 'row' ? 'column' : 'row' }); return true;
+      case 'cancel': setArmed(null); return true;
+      case 'confirm':
+        if (current.target) firePowerUp(current);
+        else aim(target.x, target.y);
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  // Plays the first suggested move; the rest of the sequence stays as the next ghost
+  const handleApplyHint = () => {
+    const hint = aiHint;
+    if (!hint || hint.moves.length === 0) return;
+
+    const [move, ...rest] = hint.moves;
+    if (validateHintMove(gameRef.current, move)) {
+      setAiHint(null);
+      triggerHaptic('light');
+      return;
+    }
+    for (let r = 0; r < move.rotations; r++) dispatch({ type: 'rotate', source: move.source });
+    handlePlacePiece(move.x, move.y, move.source);
+    if (rest.length > 0) setAiHint({ ...hint, moves: rest });
   };
 
   const handleAskAI = async () => {
     if (isLoadingHint) return;
     triggerHaptic('light');
     setIsLoadingHint(true);
-    const hint = await getAIHint(grid, availablePieces);
-    setAiHint(hint);
-    setIsLoadingHint(false);
+    statsRef.current = recordHintRequest(statsRef.current);
+    const asked = gameRef.current;
+    try {
+      // Gemini when configured, otherwise (or on failure) the offline solver
+      const hint = await getHint(asked, online);
+      // A move made (or a game started) while waiting makes the hint stale; a clock tick does not
+      if (isSameHintPosition(gameRef.current, asked)) setAiHint(hint);
+    } finally {
+      setIsLoadingHint(false);
+    }
+  };
+
+  // --- Keyboard & Gamepad ---
+
+  // Keeps the cursor's piece fully on the board; falls back to the first tray piece
+  const clampCursor = (c: CursorState, state: GameState): CursorState | null => {
+    const source = getPiece(state, c.source) ? c.source : 0;
+    const piece = getPiece(state, source);
+    if (!piece) return null;
+    const size = state.grid.length;
+    return {
+      source,
+      x: Math.max(0, Math.min(size - piece.matrix[0].length, c.x)),
+      y: Math.max(0, Math.min(size - piece.matrix.length, c.y)),
+    };
+  };
+
+  const focusCursor = (c: CursorState | null) => {
+    const piece = c && getPiece(gameRef.current, c.source);
+    if (c && piece) playSound(canPlacePiece(gameRef.current.grid, piece, c.x, c.y) ? 'hoverValid' : 'hoverInvalid');
+    setCursor(c);
+    setSelectedPieceIndex(c && typeof c.source === 'number' ? c.source : null);
+    announce(describeCursor(c, gameRef.current));
+  };
+
+  const describeCursor = (c: CursorState | null, state: GameState) => {
+    const piece = c && getPiece(state, c.source);
+    if (!c || !piece) return 'Cursor off.';
+    const name = c.source === 'hold' ? 'Hold piece' : `Piece ${c.source + 1}`;
+    const fits = canPlacePiece(state.grid, piece, c.x, c.y) ? 'fits' : 'blocked';
+    return `${name}, ${getColorName(piece.color)}, at row ${c.y + 1}, column ${c.x + 1}, ${fits}.`;
+  };
+
+  const cycleSource = (c: CursorState, state: GameState, step: number): CursorState => {
+    const sources: PieceSource[] = state.availablePieces.map((_, i) => i);
+    if (state.holdPiece) sources.push('hold');
+    const index = sources.indexOf(c.source);
+    const next = sources[(index + step + sources.length) % sources.length];
+    return { ...c, source: next };
+  };
+
+  // Single entry point for every non-pointer device
+  const handleInputAction = (action: InputAction) => {
+    if (phase === 'start') {
+      if (action === 'confirm') startGame(menuMode);
+      return;
+    }
+    if (phase === 'gameover') {
+      if (action === 'confirm') startGame();
+      if (action === 'undo') handleUndo();
+      return;
+    }
+    if (phase !== 'playing' || dragState) return;
+    if (armed && handlePowerUpInput(action, armed)) return;
+
+    switch (action) {
+      case 'undo': handleUndo(); return;
+      case 'redo': handleRedo(); return;
+      case 'hint': handleAskAI(); return;
+      case 'cancel': focusCursor(null); return;
+    }
+
+    const state = gameRef.current;
+    const center = Math.floor(state.grid.length / 2) - 1;
+    const active = cursor ? clampCursor(cursor, state) : null;
+    const base = active ?? clampCursor({ source: selectedPieceIndex ?? 0, x: center, y: center }, state);
+    if (!base) return;
+
+    switch (action) {
+      case 'cursorUp': focusCursor(clampCursor({ ...base, y: base.y - (active ? 1 : 0) }, state)); break;
+      case 'cursorDown': focusCursor(clampCursor({ ...base, y: base.y + (active ? 1 : 0) }, state)); break;
+      case 'cursorLeft': focusCursor(clampCursor({ ...base, x: base.x - (active ? 1 : 0) }, state)); break;
+      case 'cursorRight': focusCursor(clampCursor({ ...base, x: base.x + (active ? 1 : 0) }, state)); break;
+      case 'nextPiece': focusCursor(clampCursor(active ? cycleSource(base, state, 1) : base, state)); break;
+      case 'prevPiece': focusCursor(clampCursor(active ? cycleSource(base, state, -1) : base, state)); break;
+      case 'selectHold':
+        focusCursor(state.holdPiece ? clampCursor({ ...base, source: 'hold' }, state) : base);
+        break;
+      case 'rotate':
+        triggerHaptic(dispatch({ type: 'rotate', source: base.source }) ? 'medium' : 'light');
+        focusCursor(clampCursor(base, gameRef.current));
+        break;
+      case 'hold':
+        handleHoldDrop(base.source);
+        focusCursor(clampCursor(base, gameRef.current));
+        break;
+      case 'confirm': {
+        // First press only reveals the cursor
+        if (!active) {
+          focusCursor(base);
+          break;
+        }
+        const piece = getPiece(state, base.source);
+        if (piece && canPlacePiece(state.grid, piece, base.x, base.y)) {
+          handlePlacePiece(base.x, base.y, base.source);
+          focusCursor(clampCursor({ ...base, source: 0 }, gameRef.current));
+        } else {
+          triggerHaptic('light');
+        }
+        break;
+      }
+    }
+  };
+
+  // Timed modes pause while a panel covers the board
+  useGameClock(
+    phase === 'playing' && hasClock(game.variant) && !game.isGameOver && !showControls && !showSettings && !showStats && !showAchievements && !showLeaderboard,
+    ms => dispatch({ type: 'tick', ms }),
+  );
+
+  useInputActions(keyBindings, handleInputAction, !showControls && !showSettings && !showStats && !showAchievements && !showLeaderboard && !showProfiles && !showLevels && !showEditor && !showThemeEditor && phase !== 'replay' && phase !== 'versus' && phase !== 'online');
+
+  const handleKeyBindings = (bindings: KeyBindings) => {
+    setKeyBindings(bindings);
+    saveKeyBindings(bindings);
   };
 
   // --- Rendering Helpers ---
 
+  const cursorPiece = cursor && phase === 'playing' && !dragState ? getPiece(game, cursor.source) : null;
+  const boardCursor: BoardCursor | null = cursor && cursorPiece ? {
+    x: cursor.x,
+    y: cursor.y,
+    width: cursorPiece.matrix[0].length,
+    height: cursorPiece.matrix.length,
+    valid: canPlacePiece(grid, cursorPiece, cursor.x, cursor.y),
+  } : null;
+
+  const targetCells = armed?.target && phase === 'playing'
+    ? getPowerUpCells(grid, armed.powerUp, armed.target.x, armed.target.y, armed.axis)
+    : [];
+  const targetValid = !!armed?.target && canUsePowerUp(game, armed.powerUp, armed.target.x, armed.target.y, armed.axis);
+  const isStuck = phase === 'playing' && !game.isGameOver && checkGameOver(grid, availablePieces, holdPiece);
+
   // Preview Cells Calculation
   const getPreviewCells = () => {
     // If dragging and valid drop
     if (dropPreview && dragState) {
-      const piece = dragState.piece;
-      const cells: {x: number, y: number}[] = [];
-      for (let y = 0; y < piece.matrix.length; y++) {
-          for (let x = 0; x < piece.matrix[y].length; x++) {
-              if (piece.matrix[y][x] === 1) {
-                  cells.push({ x: dropPreview.x + x, y: dropPreview.y + y });
-              }
-          }
-      }
-      return cells;
+      return getPieceCells(dragState.piece, dropPreview.x, dropPreview.y);
+    }
+    // Keyboard/gamepad cursor, same validity check as a drag
+    if (boardCursor) {
+      return boardCursor.valid && cursorPiece ? getPieceCells(cursorPiece, boardCursor.x, boardCursor.y) : [];
+    }
+    // Otherwise ghost the suggested hint placement
+    if (aiHint && aiHint.moves.length > 0 && !dragState) {
+      return getHintCells(game, aiHint.moves[0]);
     }
     return [];
   };
@@ -419,13 +1067,13 @@ const App: React.FC = () => {
   const previewCells = getPreviewCells();
 
   return (
-    <div className="fixed inset-0 bg-[#0f172a] flex flex-col items-center justify-between text-slate-100 overflow-hidden font-sans select-none touch-none">
+    <div className="fixed inset-0 theme-bg flex flex-col items-center justify-between text-slate-100 overflow-hidden font-sans select-none touch-none">
       
       {/* Background FX */}
       <div className="absolute inset-0 pointer-events-none z-0">
         <div className="absolute top-0 left-0 w-full h-full bg-[radial-gradient(circle_at_50%_50%,rgba(16,185,129,0.1),transparent_70%)] animate-pulse duration-[5000ms]" />
         <div className="absolute -top-[20%] -left-[10%] w-[50%] h-[50%] bg-purple-600/20 rounded-full blur-[100px]" />
-        <div className="absolute top-[40%] -right-[10%] w-[40%] h-[40%] bg-cyan-600/20 rounded-full blur-[100px]" />
+        <div className="absolute top-[40%] -right-[10%] w-[40%] h-[40%] accent-blob opacity-20 rounded-full blur-[100px]" />
       </div>
 
       {/* DRAG LAYER (Portal-like) */}
@@ -438,7 +1086,7 @@ const App: React.FC = () => {
                 transform: `translate(-${dragState.touchOffset.x}px, -${dragState.touchOffset.y + 80}px) scale(1.1)`, // Lifted by 80px
             }}
         >
-            <PieceView shape={dragState.piece} />
+            <PieceView shape={getDisplayShape(dragState.piece, settings.highContrast, theme.pieces)} />
             <div className="mt-2 text-center text-xs font-bold text-white/80 bg-black/50 rounded-full px-2 py-1 backdrop-blur-md">
                 Dragging
             </div>
@@ -447,52 +1095,248 @@ const App: React.FC = () => {
 
       {/* START SCREEN */}
       {phase === 'start' && (
-        <div className="absolute inset-0 z-50 flex flex-col items-center justify-center p-6 text-center animate-in fade-in zoom-in duration-500 bg-[#0f172a]">
+        <div className="absolute inset-0 z-50 flex flex-col items-center justify-center p-6 text-center animate-in fade-in zoom-in duration-500 theme-bg">
           <div className="mb-8 relative">
-            <div className="absolute inset-0 bg-cyan-500 blur-3xl opacity-20 rounded-full"></div>
-            <h1 className="relative text-5xl md:text-6xl font-display font-bold text-transparent bg-clip-text bg-gradient-to-br from-cyan-400 via-blue-500 to-purple-600 mb-2 glow-text">
+            <div className="absolute inset-0 accent-blob blur-3xl opacity-20 rounded-full"></div>
+            <h1 className="relative text-5xl md:text-6xl font-display font-bold accent-text mb-2 glow-text">
               NEON Q-BLOCK
             </h1>
             <h2 className="relative text-2xl font-display text-white/80 tracking-widest uppercase">Master</h2>
           </div>
 
           <div className="w-full max-w-sm glass-panel p-6 rounded-2xl mb-8 border border-white/10 shadow-2xl">
+            <button
+              onClick={() => setShowProfiles(true)}
+              className="w-full flex justify-between items-center mb-4 border-b border-white/10 pb-4 active:opacity-70"
+            >
+               <span className="text-slate-400 uppercase text-xs tracking-wider">Playing As</span>
+               <span className="font-bold text-cyan-300 flex items-center gap-2 truncate">
+                 <UserRound size={16} /> {getActiveProfile(profiles).name}
+               </span>
+            </button>
             <div className="flex justify-between items-center mb-4 border-b border-white/10 pb-4">
                <span className="text-slate-400 uppercase text-xs tracking-wider">Best Score</span>
                <span className="text-2xl font-bold text-yellow-400 font-display flex items-center gap-2">
-                 <Trophy size={20} /> {highScore}
+                 <Trophy size={20} /> {getBestScore(menuMode, boardPreference, getModeDealer(menuMode, dealerPreferences))}
+               </span>
+            </div>
+            <div className="mb-4 border-b border-white/10 pb-4">
+               <ModeSelect mode={menuMode} onChange={setMenuMode} />
+            </div>
+            <div className="mb-4 border-b border-white/10 pb-4">
+               <BoardSettings board={boardPreference} onChange={handleBoardPreference} />
+            </div>
+            <div className="mb-4 border-b border-white/10 pb-4">
+               <DealerSettings
+                 dealer={getModeDealer(menuMode, dealerPreferences)}
+                 onChange={dealer => handleDealerPreference(menuMode, dealer)}
+               />
+            </div>
+            <div className="mb-4 border-b border-white/10 pb-4 flex flex-col gap-2 items-start">
+               <span className="text-slate-400 uppercase text-xs tracking-wider">Theme</span>
+               <ThemePicker 
+                 themes={[...BUILT_IN_THEMES, customTheme]}
+                 selectedId={theme.id}
+                 onSelect={themeId => handleSettings({ ...settings, themeId })}
+                 onCustomize={openThemeEditor}
+               />
+            </div>
+            <div className="flex justify-between items-center mb-4 border-b border-white/10 pb-4">
+               <span className="text-slate-400 uppercase text-xs tracking-wider">Today's Daily Best</span>
+               <span className="text-lg font-bold text-purple-400 font-display flex items-center gap-2">
+                 <CalendarDays size={16} /> {getBestScore('daily')}
                </span>
             </div>
             <p className="text-slate-300 text-sm leading-relaxed">
               Drag shapes to the grid. Clear lines for keys. 
-              Double tap or use keys to flip.
+              Spend keys to flip pieces or on power-ups.
             </p>
           </div>
 
+          {savedSession.status === 'ok' && (
+            <button 
+              onClick={() => resumeGame(savedSession.session)}
+              className="mb-4 px-10 py-3 accent-gradient rounded-full font-bold text-lg active:scale-95 transition-all duration-200"
+            >
+              <span className="flex items-center gap-3">
+                <History size={20} /> CONTINUE ({savedSession.session.state.score})
+              </span>
+            </button>
+          )}
+          {savedSession.status === 'invalid' && (
+            <p className="mb-4 text-xs text-rose-400">Saved game could not be restored: {savedSession.reason}</p>
+          )}
+
           <button 
-            onClick={startGame}
+            onClick={() => startGame(menuMode)}
             className="group relative px-10 py-4 bg-white text-slate-900 rounded-full font-bold text-xl shadow-[0_0_40px_-10px_rgba(255,255,255,0.5)] active:scale-95 transition-all duration-200"
           >
             <span className="flex items-center gap-3">
               <Play className="fill-slate-900" /> START GAME
             </span>
           </button>
+
+          <button 
+            onClick={() => startGame('daily')}
+            className="mt-4 px-8 py-3 glass-panel rounded-full font-bold text-purple-300 border border-purple-500/30 active:scale-95 transition-all duration-200"
+          >
+            <span className="flex items-center gap-2">
+              <CalendarDays size={18} /> DAILY CHALLENGE
+            </span>
+          </button>
+
+          <button 
+            onClick={() => setShowLevels(true)}
+            className="mt-4 px-8 py-3 glass-panel rounded-full font-bold text-emerald-300 border border-emerald-500/30 active:scale-95 transition-all duration-200"
+          >
+            <span className="flex items-center gap-2">
+              <Puzzle size={18} /> PUZZLES
+            </span>
+          </button>
+
+          <button 
+            onClick={() => setPhase('versus')}
+            className="mt-4 px-8 py-3 glass-panel rounded-full font-bold text-rose-300 border border-rose-500/30 active:scale-95 transition-all duration-200"
+          >
+            <span className="flex items-center gap-2">
+              <Swords size={18} /> VERSUS
+            </span>
+          </button>
+
+          <button 
+            onClick={() => setPhase('online')}
+            disabled={!online}
+            className="mt-4 px-8 py-3 glass-panel rounded-full font-bold text-sky-300 border border-sky-500/30 active:scale-95 transition-all duration-200 disabled:opacity-40"
+          >
+            <span className="flex items-center gap-2">
+              {online ? <Globe size={18} /> : <WifiOff size={18} />} {online ? 'ONLINE' : 'OFFLINE'}
+            </span>
+          </button>
+
+          {/* Secondary menu */}
+          <div className="mt-4 flex flex-wrap justify-center gap-x-3 max-w-sm">
+            <button 
+              onClick={() => replayInputRef.current?.click()}
+              className="text-slate-400 active:text-white text-sm flex items-center gap-2 p-2"
+            >
+              <Upload size={16} /> Import Replay
+            </button>
+            <button 
+              onClick={() => setShowEditor(true)}
+              className="text-slate-400 active:text-white text-sm flex items-center gap-2 p-2"
+            >
+              <PencilRuler size={16} /> Level Editor
+            </button>
+            <button 
+              onClick={() => setShowControls(true)}
+              className="text-slate-400 active:text-white text-sm flex items-center gap-2 p-2"
+            >
+              <Keyboard size={16} /> Controls
+            </button>
+            <button 
+              onClick={() => setShowSettings(true)}
+              className="text-slate-400 active:text-white text-sm flex items-center gap-2 p-2"
+            >
+              <Settings size={16} /> Settings
+            </button>
+            <button 
+              onClick={() => setShowStats(true)}
+              className="text-slate-400 active:text-white text-sm flex items-center gap-2 p-2"
+            >
+              <BarChart3 size={16} /> Stats
+            </button>
+            <button 
+              onClick={() => setShowLeaderboard(true)}
+              className="text-slate-400 active:text-white text-sm flex items-center gap-2 p-2"
+            >
+              <ListOrdered size={16} /> Leaderboard
+            </button>
+            <button 
+              onClick={() => setShowAchievements(true)}
+              className="text-slate-400 active:text-white text-sm flex items-center gap-2 p-2"
+            >
+              <Medal size={16} /> Achievements
+            </button>
+          </div>
+          <input
+            ref={replayInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImportReplay}
+          />
+          {replayError && (
+            <p className="mt-2 text-xs text-rose-400">{replayError}</p>
+          )}
+          {sharedLevelError && (
+            <p className="mt-2 text-xs text-rose-400">Shared level could not be opened: {sharedLevelError}</p>
+          )}
         </div>
       )}
 
+      {phase === 'versus' && (
+        <VersusMatch
+          board={boardPreference}
+          bindings={keyBindings}
+          settings={settings}
+          theme={theme}
+          onExit={() => setPhase('start')}
+        />
+      )}
+
+      {phase === 'online' && (
+        <OnlineMatch
+          board={boardPreference}
+          bindings={keyBindings}
+          settings={settings}
+          theme={theme}
+          onExit={() => setPhase('start')}
+        />
+      )}
+
       {/* GAME UI */}
-      {phase !== 'start' && (
+      {phase !== 'start' && phase !== 'versus' && phase !== 'online' && (
         <>
           {/* Header */}
           <header className="w-full max-w-lg flex items-center justify-between z-10 p-4 pt-6">
             <div className="glass-panel px-5 py-2 rounded-xl flex flex-col items-start min-w-[120px]">
-               <span className="text-[10px] text-slate-400 font-display uppercase tracking-widest">Score</span>
-               <span className="text-2xl font-bold font-display text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-500 glow-text">
+               <span className="text-[10px] text-slate-400 font-display uppercase tracking-widest">
+                 {mode === 'classic' || mode === 'puzzle' ? 'Score' : `${getModeInfo(mode).label} Score`}
+               </span>
+               <span className="text-2xl font-bold font-display accent-text glow-text">
                  {score}
                </span>
             </div>
 
             <div className="flex items-center gap-3">
+                 <div className="flex items-center gap-1">
+                     <button 
+                        onClick={goToMenu}
+                        aria-label="Menu (game is saved)"
+                        className="glass-panel p-2 rounded-full text-slate-300 active:scale-90 transition-all"
+                     >
+                         <Home size={16} />
+                     </button>
+                     <button 
+                        onClick={handleUndo}
+                        disabled={!canUndo(game)}
+                        aria-label={`Undo (${COST_UNDO} key)`}
+                        className="glass-panel p-2 rounded-full text-slate-300 active:scale-90 transition-all disabled:opacity-30"
+                     >
+                         <Undo2 size={16} />
+                     </button>
+                     <button 
+                        onClick={handleRedo}
+                        disabled={!canRedo(game)}
+                        aria-label="Redo"
+                        className="glass-panel p-2 rounded-full text-slate-300 active:scale-90 transition-all disabled:opacity-30"
+                     >
+                         <Redo2 size={16} />
+                     </button>
+                 </div>
+
+                 <ModeHud state={game} />
+
                  {combo > 1 && (
                     <div className="animate-bounce glass-panel px-3 py-1 rounded-full flex items-center gap-1 text-purple-400 border-purple-500/30 bg-purple-500/10">
                         <Zap size={14} className="fill-purple-400" />
@@ -516,39 +1360,67 @@ const App: React.FC = () => {
                     <div className="glass-panel p-3 rounded-xl border-l-4 border-l-cyan-400 flex justify-between items-start shadow-xl bg-slate-900/90">
                         <div className="flex gap-3">
                             <Sparkles className="text-cyan-400 shrink-0 mt-1" size={16} />
-                            <p className="text-xs text-cyan-50 italic leading-relaxed">"{aiHint}"</p>
+                            <div>
+                                <p className="text-xs text-cyan-50 italic leading-relaxed">"{aiHint.rationale}"</p>
+                                <div className="flex items-center gap-3 mt-2">
+                                    {aiHint.moves.length > 0 && (
+                                        <button 
+                                          onClick={handleApplyHint}
+                                          className="px-3 py-1 rounded-full bg-cyan-500/20 border border-cyan-500/40 text-cyan-300 text-[10px] font-bold uppercase tracking-widest active:scale-95"
+                                        >
+                                            Apply Hint
+                                        </button>
+                                    )}
+                                    {aiHint.provider === 'local' && (
+                                        <span className="text-[10px] text-slate-500 uppercase tracking-widest">Offline solver</span>
+                                    )}
+                                </div>
+                            </div>
                         </div>
                         <button onClick={() => setAiHint(null)} className="text-slate-500 hover:text-white transition-colors ml-2"><X size={16}/></button>
                     </div>
                 </div>
             )}
 
-            {/* Board */}
-            <div 
-                ref={gridRef}
-                className="w-full aspect-square glass-panel p-2 rounded-2xl relative shadow-2xl shadow-black/50 border border-white/5 touch-none"
-            >
-               <div 
-                 className="w-full h-full grid gap-1"
-                 style={{ gridTemplateColumns: `repeat(${GRID_SIZE}, minmax(0, 1fr))` }}
-               >
-                 {Array.from({ length: GRID_SIZE * GRID_SIZE }).map((_, i) => {
-                   const x = i % GRID_SIZE;
-                   const y = Math.floor(i / GRID_SIZE);
-                   const isPreview = previewCells.some(p => p.x === x && p.y === y);
-                   
-                   return (
-                     <GridCell 
-                        key={i} 
-                        color={grid[y][x]} 
-                        isValidDrop={isPreview}
-                        onClick={() => {}} // Disabled click to place
-                     />
-                   );
-                 })}
-               </div>
+            {/* Puzzle Goal */}
+            {puzzleLevel && <PuzzleHud level={puzzleLevel} state={game} />}
+
+            {/* Board, with the particle layer on top */}
+            <div className="relative w-full">
+              <Board 
+                grid={grid} 
+                previewCells={previewCells} 
+                targetCells={targetCells}
+                targetValid={targetValid}
+                markedCells={puzzleLevel ? getGoalCells(puzzleLevel) : undefined}
+                onCellClick={handleBoardCellClick}
+                regionClears={game.board.regionClears} 
+                cursor={boardCursor}
+                showGlyphs={settings.showGlyphs}
+                highContrast={settings.highContrast}
+                palette={theme.pieces}
+                glow={theme.glow}
+                boardRef={gridRef} 
+              />
+              <canvas 
+                ref={particles.canvasRef}
+                aria-hidden="true"
+                className="absolute inset-0 w-full h-full pointer-events-none z-20"
+              />
             </div>
 
+            {/* Power-up Shop (puzzles are solved with the pieces alone) */}
+            {!puzzleLevel && (
+              <PowerUpBar 
+                keys={keys}
+                armed={armed?.powerUp ?? null}
+                axis={armed?.axis ?? 'row'}
+                isStuck={isStuck}
+                onSelect={handleSelectPowerUp}
+                onToggleAxis={() => armed && setArmed({ ...armed, axis: armed.axis === 'row' ? 'column' : 'row' })}
+              />
+            )}
+
             {/* Middle Controls */}
             <div className="w-full flex justify-between items-end h-24">
                 
@@ -557,15 +1429,17 @@ const App: React.FC = () => {
                     <button 
                       ref={holdRef as any}
                       onClick={handleHoldButton}
+                      aria-label={holdPiece ? `Hold slot: ${getColorName(holdPiece.color)} piece` : 'Hold slot: empty'}
                       className={`
                         w-20 h-20 glass-panel rounded-xl flex items-center justify-center transition-all duration-200 relative
                         ${isHoveringHold ? 'bg-emerald-500/30 scale-110 ring-2 ring-emerald-400' : ''}
+                        ${cursor?.source === 'hold' && !dragState ? 'ring-2 ring-cyan-400' : ''}
                         ${!holdPiece ? 'opacity-80' : 'opacity-100'}
                       `}
                     >
                        {holdPiece ? (
                            <PieceView 
-                              shape={holdPiece} 
+                              shape={getDisplayShape(holdPiece, settings.highContrast, theme.pieces)} 
                               size="sm" 
                               onPointerDown={(e) => handleDragStart(e, holdPiece, 'hold')}
                            />
@@ -617,9 +1491,12 @@ const App: React.FC = () => {
                      <button 
                         onClick={handleAskAI}
                         disabled={isLoadingHint}
+                        title={geminiOffline ? 'Offline: hints come from the built-in solver' : undefined}
                         className="h-10 px-4 rounded-lg glass-panel flex items-center gap-2 active:scale-95 text-purple-400 transition-all border border-purple-500/20"
                      >
-                         <Sparkles size={16} className={isLoadingHint ? 'animate-spin' : ''} />
+                         {geminiOffline
+                           ? <WifiOff size={16} className={isLoadingHint ? 'animate-pulse' : ''} />
+                           : <Sparkles size={16} className={isLoadingHint ? 'animate-spin' : ''} />}
                          <span className="text-xs font-bold">Hint</span>
                      </button>
                  </div>
@@ -644,13 +1521,22 @@ const App: React.FC = () => {
                          )}
                          
                          {/* We hide the piece here if it's currently being dragged from this spot */}
-                         <div className={dragState?.sourceIndex === idx ? 'opacity-0' : 'opacity-100'}>
+                         <div 
+                            role="img"
+                            aria-label={`Piece ${idx + 1}, ${getColorName(piece.color)}, ${piece.matrix.flat().filter(Boolean).length} blocks`}
+                            className={dragState?.sourceIndex === idx ? 'opacity-0' : 'opacity-100'}
+                         >
                              <PieceView 
-                                shape={piece} 
+                                shape={getDisplayShape(piece, settings.highContrast, theme.pieces)} 
                                 selected={selectedPieceIndex === idx}
                                 onPointerDown={(e) => handleDragStart(e, piece, idx)}
                              />
                          </div>
+                         {settings.showGlyphs && (
+                            <span aria-hidden="true" className="absolute bottom-1 text-xs font-bold text-slate-300">
+                                {getColorGlyph(piece.color)}
+                            </span>
+                         )}
                     </div>
                 ))}
             </div>
@@ -658,16 +1544,40 @@ const App: React.FC = () => {
         </>
       )}
 
+      {/* Puzzle Result */}
+      {phase === 'gameover' && puzzleLevel && puzzleOutcome && puzzleOutcome.status !== 'playing' && (() => {
+          const levels = getStarterPack();
+          const index = levels.findIndex(l => l.id === puzzleLevel.id);
+          const next = index >= 0 ? levels[index + 1] : undefined; // Shared and draft levels stand alone
+          return (
+            <PuzzleResult 
+              level={puzzleLevel}
+              outcome={puzzleOutcome}
+              score={score}
+              best={puzzleProgress[puzzleLevel.id]}
+              canUndo={canUndo(game)}
+              hasNext={!!next}
+              onNext={() => next && startPuzzle(next)}
+              onRetry={() => startPuzzle(puzzleLevel)}
+              onUndo={handleUndo}
+              backLabel={isTestingLevel ? 'Back to Editor' : 'Level Select'}
+              onBack={isTestingLevel ? openEditor : showLevelSelect}
+            />
+          );
+      })()}
+
       {/* Game Over Overlay */}
-      {phase === 'gameover' && (
+      {phase === 'gameover' && !puzzleLevel && (
           <div className="absolute inset-0 z-50 bg-slate-900/95 backdrop-blur-xl flex flex-col items-center justify-center p-6 text-center animate-in fade-in duration-500">
               <Trophy size={80} className="text-yellow-400 mb-6 drop-shadow-[0_0_30px_rgba(250,204,21,0.6)] animate-bounce" />
-              <h2 className="text-5xl font-display font-bold text-white mb-2">Game Over</h2>
+              <h2 className="text-5xl font-display font-bold text-white mb-2">
+                {game.variant === 'blitz' && game.clockMs === 0 ? "Time's Up" : 'Game Over'}
+              </h2>
               
               <div className="grid grid-cols-2 gap-6 w-full max-w-sm mb-10 mt-8">
                   <div className="bg-white/5 p-4 rounded-2xl border border-white/10 flex flex-col items-center">
                       <div className="text-xs text-slate-500 uppercase tracking-widest mb-2">Score</div>
-                      <div className="text-3xl font-bold text-cyan-400 font-display">{score}</div>
+                      <div className="text-3xl font-bold accent-text font-display">{score}</div>
                   </div>
                   <div className="bg-white/5 p-4 rounded-2xl border border-white/10 flex flex-col items-center">
                       <div className="text-xs text-slate-500 uppercase tracking-widest mb-2">Best</div>
@@ -675,15 +1585,61 @@ const App: React.FC = () => {
                   </div>
               </div>
 
+              <div className="-mt-6 mb-8 text-[10px] text-slate-500 uppercase tracking-widest font-display">
+                  {mode === 'daily' ? 'Daily Challenge' : mode === 'classic' ? 'Seed' : `${getModeInfo(mode).label} · Seed`} #{game.seed.toString(36)}
+              </div>
+
+              {scoreStatus && (
+                  <button
+                    onClick={() => setShowLeaderboard(true)}
+                    aria-live="polite"
+                    className="-mt-4 mb-8 px-4 py-1.5 glass-panel rounded-full text-xs font-bold flex items-center gap-2 active:scale-95"
+                  >
+                      <ListOrdered size={14} className="text-cyan-400" />
+                      {scoreStatus.status === 'pending' && <span className="text-slate-400 animate-pulse">Verifying score...</span>}
+                      {scoreStatus.status === 'accepted' && (
+                          <span className="text-cyan-300">
+                            {scoreStatus.rank ? `#${scoreStatus.rank} for ${scoreStatus.entry.name}` : 'Verified, outside the top 10'}
+                          </span>
+                      )}
+                      {scoreStatus.status === 'rejected' && <span className="text-amber-300">Not ranked: {scoreStatus.reason}</span>}
+                      {scoreStatus.status === 'error' && <span className="text-rose-400">Leaderboard unavailable: {scoreStatus.reason}</span>}
+                  </button>
+              )}
+
               <button 
-                onClick={startGame}
-                className="w-64 py-4 bg-gradient-to-r from-cyan-500 to-blue-600 rounded-full font-bold text-xl shadow-lg shadow-cyan-500/40 active:scale-95 transition-all flex items-center justify-center gap-3"
+                onClick={() => startGame()}
+                className="w-64 py-4 accent-gradient rounded-full font-bold text-xl active:scale-95 transition-all flex items-center justify-center gap-3"
               >
                   <RefreshCw size={24} /> Try Again
               </button>
+
+              {canUndo(game) && (
+                  <button 
+                    onClick={handleUndo}
+                    className="mt-4 px-5 py-2 glass-panel rounded-full text-sm font-bold text-amber-300 flex items-center gap-2 active:scale-95"
+                  >
+                      <Undo2 size={16} /> Undo Last Move ({COST_UNDO} <Key size={12} className="fill-amber-300" />)
+                  </button>
+              )}
+
+              <div className="flex gap-3 mt-6">
+                  <button 
+                    onClick={() => watchReplay(getCurrentReplay())}
+                    className="px-5 py-2 glass-panel rounded-full text-sm font-bold text-cyan-300 flex items-center gap-2 active:scale-95"
+                  >
+                      <Film size={16} /> Watch Replay
+                  </button>
+                  <button 
+                    onClick={() => exportReplay(getCurrentReplay())}
+                    className="px-5 py-2 glass-panel rounded-full text-sm font-bold text-slate-300 flex items-center gap-2 active:scale-95"
+                  >
+                      <Download size={16} /> Export
+                  </button>
+              </div>
               
               <button 
-                 onClick={() => setPhase('start')}
+                 onClick={goToMenu}
                  className="mt-6 text-slate-500 active:text-white text-sm p-4"
               >
                   Back to Menu
@@ -691,6 +1647,116 @@ const App: React.FC = () => {
           </div>
       )}
 
+      {/* Controls / Key Bindings */}
+      {showControls && (
+          <ControlsPanel 
+            bindings={keyBindings}
+            onChange={handleKeyBindings}
+            onClose={() => setShowControls(false)}
+          />
+      )}
+
+      {/* Accessibility Settings */}
+      {showSettings && (
+          <SettingsPanel 
+            settings={settings}
+            onChange={handleSettings}
+            onClose={() => setShowSettings(false)}
+          />
+      )}
+
+      {/* Puzzle Levels */}
+      {showLevels && (
+          <LevelSelect 
+            levels={getStarterPack()}
+            progress={puzzleProgress}
+            onSelect={level => {
+              setIsTestingLevel(false);
+              startPuzzle(level);
+            }}
+            onClose={() => setShowLevels(false)}
+          />
+      )}
+
+      {/* Level Editor */}
+      {showEditor && (
+          <LevelEditor 
+            initialLevel={loadLevelDraft() ?? createBlankLevel(boardPreference)}
+            settings={settings}
+            theme={theme}
+            onPlay={testLevel}
+            onClose={() => setShowEditor(false)}
+          />
+      )}
+
+      {/* Custom Theme */}
+      {showThemeEditor && (
+          <ThemeEditor 
+            theme={customTheme}
+            onChange={handleCustomTheme}
+            onClose={() => setShowThemeEditor(false)}
+          />
+      )}
+
+      {/* Stats History */}
+      {showStats && (
+          <StatsDashboard onClose={() => setShowStats(false)} />
+      )}
+
+      {/* Profiles & Leaderboard */}
+      {showProfiles && (
+          <ProfilesPanel 
+            store={profiles}
+            onChange={handleProfiles}
+            onClose={() => setShowProfiles(false)}
+          />
+      )}
+      {showLeaderboard && (
+          <LeaderboardPanel 
+            initialMode={phase === 'gameover' ? mode : menuMode}
+            board={phase === 'gameover' ? game.board : boardPreference}
+            profileId={getActiveProfile(profiles).id}
+            onWatch={toWatch => {
+              setShowLeaderboard(false);
+              watchReplay(toWatch);
+            }}
+            onClose={() => setShowLeaderboard(false)}
+          />
+      )}
+
+      {/* Achievements */}
+      {showAchievements && (
+          <AchievementsPanel 
+            progress={achievementsRef.current}
+            onClose={() => setShowAchievements(false)}
+          />
+      )}
+      {toasts.length > 0 && (
+          <AchievementToast 
+            key={toasts[0].id}
+            achievement={toasts[0]}
+            onDismiss={() => setToasts(queue => queue.slice(1))}
+          />
+      )}
+
+      {/* Replay Viewer */}
+      {phase === 'replay' && replay && (
+          <ReplayViewer 
+            replay={replay}
+            settings={settings}
+            theme={theme}
+            onExport={() => exportReplay(replay)}
+            onClose={() => setPhase(replayReturnRef.current)}
+          />
+      )}
+
+      {/* New version waiting; not offered mid-match, where a reload would forfeit */}
+      {updateReady && phase !== 'versus' && phase !== 'online' && (
+          <UpdatePrompt onReload={applyUpdate} onDismiss={dismissUpdate} />
+      )}
+
+      <LiveRegion announcement={announcement} />
+
     </div>
   );
 };
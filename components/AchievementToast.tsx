@@ -0,0 +1,26 @@
+import React from 'react';
+import { Achievement } from '../types';
+import { AchievementIcon } from './AchievementsPanel';
+
+interface AchievementToastProps {
+  achievement: Achievement;
+  onDismiss: () => void;
+}
+
+export const AchievementToast: React.FC<AchievementToastProps> = ({ achievement, onDismiss }) => (
+  <div className="fixed top-4 inset-x-0 z-[90] flex justify-center px-4 pointer-events-none">
+    <button
+      onClick={onDismiss}
+      className="pointer-events-auto w-full max-w-sm glass-panel p-3 rounded-xl border-l-4 border-l-amber-400 flex gap-3 items-center text-left shadow-xl bg-slate-900/90 animate-in slide-in-from-top-4 fade-in duration-300"
+    >
+      <div className="shrink-0 w-10 h-10 rounded-full bg-amber-500/20 text-amber-300 flex items-center justify-center">
+        <AchievementIcon achievement={achievement} />
+      </div>
+      <div>
+        <div className="text-[10px] text-amber-400 uppercase tracking-widest font-bold">Achievement Unlocked</div>
+        <div className="text-sm font-bold text-white">{achievement.title}</div>
+        <div className="text-xs text-slate-400">{achievement.description}</div>
+      </div>
+    </button>
+  </div>
+);
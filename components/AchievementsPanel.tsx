@@ -0,0 +1,95 @@
+import React from 'react';
+import { X, Trophy, Zap, Layers, Key, Archive, Sparkles, Medal, Check } from 'lucide-react';
+import { Achievement, AchievementMetric, AchievementProgress } from '../types';
+import { ACHIEVEMENTS, getAchievementProgress, getUnlockedAt } from '../services/achievements';
+
+interface AchievementsPanelProps {
+  progress: AchievementProgress;
+  onClose: () => void;
+}
+
+const METRIC_ICONS: Record<AchievementMetric, React.ElementType> = {
+  linesAtOnce: Layers,
+  totalLines: Layers,
+  combo: Zap,
+  keys: Key,
+  score: Trophy,
+  holdsThisGame: Archive,
+  totalHolds: Archive,
+  boardClears: Sparkles,
+  gamesPlayed: Medal,
+};
+
+export const AchievementIcon: React.FC<{ achievement: Achievement, size?: number, className?: string }> = ({
+  achievement, size = 18, className = ''
+}) => {
+  // Limits describe the badge better than the metric they constrain
+  const metric = (Object.keys(achievement.limits ?? {})[0] as AchievementMetric | undefined) ?? achievement.metric;
+  const Icon = METRIC_ICONS[metric];
+  return <Icon size={size} className={className} />;
+};
+
+export const AchievementsPanel: React.FC<AchievementsPanelProps> = ({ progress, onClose }) => {
+  const unlockedCount = ACHIEVEMENTS.filter(a => getUnlockedAt(progress, a)).length;
+
+  return (
+    <div role="dialog" aria-label="Achievements" className="absolute inset-0 z-[60] bg-slate-900/95 backdrop-blur-xl flex flex-col items-center p-6 overflow-y-auto">
+      <div className="w-full max-w-sm flex justify-between items-center mb-2">
+        <h2 className="text-2xl font-display font-bold text-white flex items-center gap-2">
+          <Trophy size={22} className="text-yellow-400" /> Achievements
+        </h2>
+        <button onClick={onClose} aria-label="Close achievements" className="glass-panel p-2 rounded-full text-slate-400 active:scale-95">
+          <X size={18} />
+        </button>
+      </div>
+      <p className="w-full max-w-sm text-xs text-slate-500 uppercase tracking-widest font-display mb-4">
+        {unlockedCount} / {ACHIEVEMENTS.length} unlocked
+      </p>
+
+      <ul className="w-full max-w-sm flex flex-col gap-2">
+        {ACHIEVEMENTS.map(a => {
+          const unlockedAt = getUnlockedAt(progress, a);
+          const ratio = getAchievementProgress(progress, a);
+          return (
+            <li
+              key={a.id}
+              className={`glass-panel rounded-xl p-3 flex gap-3 items-center border ${
+                unlockedAt ? 'border-amber-400/30 bg-amber-500/5' : 'border-white/5 opacity-70'
+              }`}
+            >
+              <div className={`shrink-0 w-10 h-10 rounded-full flex items-center justify-center ${
+                unlockedAt ? 'bg-amber-500/20 text-amber-300' : 'bg-white/5 text-slate-500'
+              }`}>
+                <AchievementIcon achievement={a} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-bold text-slate-100">{a.title}</span>
+                  {unlockedAt && <Check size={14} className="text-emerald-400" aria-label="Unlocked" />}
+                </div>
+                <p className="text-xs text-slate-400">{a.description}</p>
+                {a.incremental && !unlockedAt && (
+                  <div className="mt-1.5 flex items-center gap-2">
+                    <div
+                      role="progressbar"
+                      aria-valuemin={0}
+                      aria-valuemax={a.target}
+                      aria-valuenow={Math.round(ratio * a.target)}
+                      className="flex-1 h-1.5 rounded-full bg-white/10 overflow-hidden"
+                    >
+                      <div className="h-full bg-gradient-to-r from-cyan-500 to-purple-500" style={{ width: `${ratio * 100}%` }} />
+                    </div>
+                    <span className="text-[10px] text-slate-500 font-display">{Math.round(ratio * a.target)}/{a.target}</span>
+                  </div>
+                )}
+                {unlockedAt && (
+                  <p className="text-[10px] text-slate-500 mt-0.5">{new Date(unlockedAt).toLocaleDateString()}</p>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
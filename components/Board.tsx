@@ -0,0 +1,132 @@
+import React from 'react';
+import { Grid } from '../types';
+import { REGION_SIZE } from '../constants';
+import { GridCell } from './GridCell';
+import { getColorGlyph, getColorName, getDisplayColor } from '../services/palette';
+import { getCellGlow } from '../services/themes';
+
+// Keyboard/gamepad ghost frame: the piece's bounding box at the cursor
+export interface BoardCursor {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  valid: boolean;
+}
+
+interface BoardProps {
+  grid: Grid;
+  previewCells?: { x: number, y: number }[];
+  targetCells?: { x: number, y: number }[]; // Power-up area of effect
+  targetValid?: boolean;
+  markedCells?: { x: number, y: number }[]; // Puzzle goal cells
+  onCellClick?: (x: number, y: number) => void;
+  regionClears?: boolean;
+  cursor?: BoardCursor | null;
+  showGlyphs?: boolean;
+  highContrast?: boolean;
+  palette?: string[]; // Theme piece colors
+  glow?: number;
+  boardRef?: React.Ref<HTMLDivElement>;
+}
+
+export const Board: React.FC<BoardProps> = ({
+  grid, previewCells = [], targetCells = [], targetValid = true, markedCells = [], onCellClick, regionClears = false, cursor, showGlyphs = false, highContrast = false, palette, glow = 0, boardRef
+}) => {
+  // Geometry comes from the grid, so any board size renders
+  const size = grid.length;
+  const regionsPerSide = regionClears ? size / REGION_SIZE : 0;
+  const filled = grid.flat().filter(c => c !== null).length;
+
+  return (
+    <div
+        ref={boardRef}
+        className={`w-full aspect-square glass-panel p-2 rounded-2xl relative shadow-2xl shadow-black/50 border touch-none ${
+          highContrast ? '!bg-black border-white/60' : 'border-white/5'
+        }`}
+    >
+       <div
+         role="grid"
+         aria-label={`Board, ${size} by ${size}, ${filled} of ${size * size} cells filled`}
+         aria-rowcount={size}
+         aria-colcount={size}
+         className="w-full h-full grid gap-1 relative"
+         style={{ gridTemplateColumns: `repeat(${size}, minmax(0, 1fr))` }}
+       >
+         {/* Rows use display: contents so cells stay direct grid items */}
+         {grid.map((row, y) => (
+           <div key={y} role="row" aria-rowindex={y + 1} className="contents">
+             {row.map((color, x) => {
+               const isPreview = previewCells.some(p => p.x === x && p.y === y);
+               const isTarget = targetCells.some(p => p.x === x && p.y === y);
+               const isMarked = markedCells.some(p => p.x === x && p.y === y);
+               const shown = color ? getDisplayColor(color, highContrast, palette) : null;
+               const state = (color ? `filled, ${getColorName(color)}` : isPreview ? 'empty, drop target' : 'empty') + (isMarked ? ', goal' : '');
+
+               return (
+                 <div
+                    key={x}
+                    role="gridcell"
+                    aria-colindex={x + 1}
+                    aria-label={`Row ${y + 1}, column ${x + 1}: ${state}`}
+                    className="relative rounded-md"
+                    style={{ boxShadow: shown && !highContrast ? getCellGlow(shown, glow) : undefined }}
+                 >
+                   <GridCell
+                      color={shown}
+                      isValidDrop={isPreview}
+                      onClick={() => onCellClick?.(x, y)} // Only power-up targeting listens; pieces are dragged
+                   />
+                   {isMarked && color && (
+                     <span aria-hidden="true" className="absolute inset-0.5 rounded-md pointer-events-none border-2 border-dashed border-white/80 animate-pulse" />
+                   )}
+                   {isTarget && (
+                     <span
+                       aria-hidden="true"
+                       className={`absolute inset-0 rounded-md pointer-events-none border-2 ${
+                         targetValid ? 'border-amber-300 bg-amber-400/25' : 'border-rose-500/70 bg-rose-500/10'
+                       }`}
+                     />
+                   )}
+                   {showGlyphs && color && (
+                     <span aria-hidden="true" className="absolute inset-0 flex items-center justify-center pointer-events-none text-black/60 font-bold text-[clamp(8px,2.5vw,16px)]">
+                       {getColorGlyph(color)}
+                     </span>
+                   )}
+                 </div>
+               );
+             })}
+           </div>
+         ))}
+
+         {/* 3x3 region outlines */}
+         {Array.from({ length: regionsPerSide * regionsPerSide }).map((_, i) => (
+           <div
+             key={`region-${i}`}
+             className="absolute pointer-events-none rounded-md border border-purple-400/30"
+             style={{
+               left: `${(i % regionsPerSide) * (100 / regionsPerSide)}%`,
+               top: `${Math.floor(i / regionsPerSide) * (100 / regionsPerSide)}%`,
+               width: `${100 / regionsPerSide}%`,
+               height: `${100 / regionsPerSide}%`,
+             }}
+           />
+         ))}
+
+         {cursor && (
+           <div
+             className={`absolute pointer-events-none rounded-lg border-2 transition-all duration-75 ${
+               cursor.valid ? 'border-emerald-400/80 shadow-[0_0_12px_rgba(52,211,153,0.5)]' : 'border-rose-500/80 shadow-[0_0_12px_rgba(244,63,94,0.5)]'
+             }`}
+             style={{
+               left: `${(cursor.x / size) * 100}%`,
+               top: `${(cursor.y / size) * 100}%`,
+               width: `${(cursor.width / size) * 100}%`,
+               height: `${(cursor.height / size) * 100}%`,
+             }}
+           />
+         )}
+       </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Minus, Plus, Grid3x3 } from 'lucide-react';
+import { BoardConfig } from '../types';
+import { MIN_BOARD_SIZE, MAX_BOARD_SIZE } from '../constants';
+import { normalizeBoardConfig, supportsRegions } from '../services/board';
+
+interface BoardSettingsProps {
+  board: BoardConfig;
+  onChange: (board: BoardConfig) => void;
+}
+
+export const BoardSettings: React.FC<BoardSettingsProps> = ({ board, onChange }) => {
+  const regionsAvailable = supportsRegions(board.size);
+
+  return (
+    <div className="flex justify-between items-center gap-4">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onChange(normalizeBoardConfig({ ...board, size: board.size - 1 }))}
+          disabled={board.size <= MIN_BOARD_SIZE}
+          aria-label="Smaller board"
+          className="glass-panel p-1 rounded-full text-slate-300 active:scale-90 disabled:opacity-30"
+        >
+          <Minus size={14} />
+        </button>
+        <span className="font-display font-bold text-cyan-300 w-14 text-center">{board.size}x{board.size}</span>
+        <button
+          onClick={() => onChange(normalizeBoardConfig({ ...board, size: board.size + 1 }))}
+          disabled={board.size >= MAX_BOARD_SIZE}
+          aria-label="Larger board"
+          className="glass-panel p-1 rounded-full text-slate-300 active:scale-90 disabled:opacity-30"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+
+      <button
+        onClick={() => onChange({ ...board, regionClears: !board.regionClears })}
+        disabled={!regionsAvailable}
+        title={regionsAvailable ? 'Completed 3x3 regions clear too' : 'Needs a 6x6, 9x9 or 12x12 board'}
+        className={`
+          px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest flex items-center gap-1 border transition-all
+          ${board.regionClears ? 'bg-purple-500/20 border-purple-400/50 text-purple-300' : 'border-white/10 text-slate-500'}
+          ${regionsAvailable ? 'active:scale-95' : 'opacity-30'}
+        `}
+      >
+        <Grid3x3 size={12} /> 3x3 Regions
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useState, useEffect } from 'react';
+import { X, Gamepad2, Keyboard } from 'lucide-react';
+import { InputAction, KeyBindings } from '../types';
+import {
+  DEFAULT_KEY_BINDINGS, GAMEPAD_BUTTONS, INPUT_ACTIONS, formatKeyCode, rebindKey
+} from '../services/inputBindings';
+
+interface ControlsPanelProps {
+  bindings: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+  onClose: () => void;
+}
+
+const GAMEPAD_LABELS: Record<number, string> = {
+  0: 'A', 1: 'B', 2: 'X', 3: 'Y', 4: 'LB', 5: 'RB', 6: 'LT', 7: 'RT',
+  8: 'View', 9: 'Menu', 12: 'D-Up', 13: 'D-Down', 14: 'D-Left', 15: 'D-Right',
+};
+
+const gamepadLabelFor = (action: InputAction) => {
+  const button = Object.entries(GAMEPAD_BUTTONS).find(([, a]) => a === action);
+  return button ? GAMEPAD_LABELS[Number(button[0])] : '';
+};
+
+export const ControlsPanel: React.FC<ControlsPanelProps> = ({ bindings, onChange, onClose }) => {
+  const [listeningFor, setListeningFor] = useState<InputAction | null>(null);
+
+  // Capture the next key press as the new binding
+  useEffect(() => {
+    if (!listeningFor) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code !== 'Escape') onChange(rebindKey(bindings, listeningFor, e.code));
+      setListeningFor(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [listeningFor, bindings, onChange]);
+
+  return (
+    <div className="absolute inset-0 z-[60] bg-slate-900/95 backdrop-blur-xl flex flex-col items-center p-6 overflow-y-auto">
+      <div className="w-full max-w-sm flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-display font-bold text-white flex items-center gap-2">
+          <Keyboard size={22} className="text-cyan-400" /> Controls
+        </h2>
+        <button onClick={onClose} aria-label="Close controls" className="glass-panel p-2 rounded-full text-slate-400 active:scale-95">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="w-full max-w-sm glass-panel rounded-2xl p-4 flex flex-col gap-1">
+        <div className="flex text-[10px] text-slate-500 uppercase tracking-widest pb-2 border-b border-white/10">
+          <span className="flex-1">Action</span>
+          <span className="w-28 text-center">Key</span>
+          <span className="w-14 text-center flex items-center justify-center gap-1"><Gamepad2 size={12} /> Pad</span>
+        </div>
+        {INPUT_ACTIONS.map(({ action, label }) => (
+          <div key={action} className="flex items-center py-1">
+            <span className="flex-1 text-sm text-slate-300">{label}</span>
+            <button
+              onClick={() => setListeningFor(action)}
+              className={`w-28 text-xs font-display font-bold py-1 rounded-lg border transition-all ${
+                listeningFor === action
+                  ? 'border-cyan-400 text-cyan-300 animate-pulse'
+                  : 'border-white/10 text-slate-200 active:scale-95'
+              }`}
+            >
+              {listeningFor === action
+                ? 'Press a key'
+                : bindings[action].map(formatKeyCode).join(' / ') || '—'}
+            </button>
+            <span className="w-14 text-center text-xs text-slate-500 font-display">{gamepadLabelFor(action)}</span>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onChange(DEFAULT_KEY_BINDINGS)}
+        className="mt-6 text-slate-500 active:text-white text-sm p-2"
+      >
+        Reset to Defaults
+      </button>
+    </div>
+  );
+};
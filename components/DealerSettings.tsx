@@ -0,0 +1,66 @@
+import React from 'react';
+import { Scale, Shuffle, TrendingUp } from 'lucide-react';
+import { DealerConfig } from '../types';
+import { DIFFICULTY_CURVES, SHAPE_SETS, getCurveLabel } from '../services/pieceDealer';
+
+interface DealerSettingsProps {
+  dealer: DealerConfig;
+  onChange: (dealer: DealerConfig) => void;
+}
+
+const chipClass = (on: boolean) => `
+  px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest flex items-center gap-1 border transition-all active:scale-95
+  ${on ? 'bg-purple-500/20 border-purple-400/50 text-purple-300' : 'border-white/10 text-slate-500'}
+`;
+
+export const DealerSettings: React.FC<DealerSettingsProps> = ({ dealer, onChange }) => {
+  const nextCurve = DIFFICULTY_CURVES[(DIFFICULTY_CURVES.indexOf(dealer.curve) + 1) % DIFFICULTY_CURVES.length];
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div role="radiogroup" aria-label="Shape set" className="flex gap-1 glass-panel rounded-full p-1">
+        {SHAPE_SETS.map(set => (
+          <button
+            key={set.id}
+            role="radio"
+            aria-checked={dealer.shapeSet === set.id}
+            title={set.description}
+            onClick={() => onChange({ ...dealer, shapeSet: set.id })}
+            className={`flex-1 py-1 rounded-full text-xs font-bold transition-all ${
+              dealer.shapeSet === set.id ? 'accent-gradient text-white' : 'text-slate-400'
+            }`}
+          >
+            {set.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap justify-between gap-2">
+        <button
+          aria-pressed={dealer.bag}
+          onClick={() => onChange({ ...dealer, bag: !dealer.bag })}
+          title="Deal from shuffled bags so every shape turns up regularly"
+          className={chipClass(dealer.bag)}
+        >
+          <Shuffle size={12} /> Bag
+        </button>
+        <button
+          aria-pressed={dealer.fair}
+          onClick={() => onChange({ ...dealer, fair: !dealer.fair })}
+          title="Every tray holds at least one piece that fits"
+          className={chipClass(dealer.fair)}
+        >
+          <Scale size={12} /> Fair Deals
+        </button>
+        <button
+          onClick={() => onChange({ ...dealer, curve: nextCurve })}
+          title="Bigger shapes turn up more often as your score rises"
+          aria-label={`Difficulty ramp: ${getCurveLabel(dealer.curve)}`}
+          className={chipClass(dealer.curve !== 'none')}
+        >
+          <TrendingUp size={12} /> Ramp: {getCurveLabel(dealer.curve)}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react';
+import { X, ListOrdered, Film } from 'lucide-react';
+import { BoardConfig, GameMode, LeaderboardEntry, Replay } from '../types';
+import { DEFAULT_BOARD } from '../services/board';
+import { RANKED_MODES, getLeaderboardBackend, getTableId, isRankedMode } from '../services/leaderboard';
+import { getModeInfo } from '../services/modes';
+import { parseReplay } from '../services/replay';
+
+interface LeaderboardPanelProps {
+  initialMode: GameMode;
+  board: BoardConfig; // Daily tables are always on the default board
+  profileId: string;
+  onWatch: (replay: Replay) => void;
+  onClose: () => void;
+}
+
+export const LeaderboardPanel: React.FC<LeaderboardPanelProps> = ({ initialMode, board, profileId, onWatch, onClose }) => {
+  const [mode, setMode] = useState<GameMode>(isRankedMode(initialMode) ? initialMode : 'classic');
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const backend = getLeaderboardBackend();
+  const tableBoard = mode === 'daily' ? DEFAULT_BOARD : board;
+  const table = getTableId(mode, tableBoard);
+
+  useEffect(() => {
+    let current = true;
+    setEntries(null);
+    setError(null);
+    backend.getTop(table)
+      .then(top => { if (current) setEntries(top); })
+      .catch(err => { if (current) setError(err instanceof Error ? err.message : 'Could not load scores'); });
+    return () => { current = false; };
+  }, [table]);
+
+  const watch = (entry: LeaderboardEntry) => {
+    try {
+      onWatch(parseReplay(entry.replay));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read replay');
+    }
+  };
+
+  return (
+    <div role="dialog" aria-label="Leaderboard" className="absolute inset-0 z-[60] bg-slate-900/95 backdrop-blur-xl flex flex-col items-center p-6 overflow-y-auto">
+      <div className="w-full max-w-sm flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-display font-bold text-white flex items-center gap-2">
+          <ListOrdered size={22} className="text-cyan-400" /> Leaderboard
+        </h2>
+        <button onClick={onClose} aria-label="Close leaderboard" className="glass-panel p-2 rounded-full text-slate-400 active:scale-95">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="w-full max-w-sm flex flex-wrap gap-2 mb-2">
+        {RANKED_MODES.map(m => (
+          <button
+            key={m}
+            onClick={() => setMode(m)}
+            aria-pressed={mode === m}
+            className={`flex-1 min-w-[22%] py-1.5 rounded-full text-xs font-bold border transition-all ${
+              mode === m ? 'border-cyan-400 text-cyan-300 bg-cyan-500/10' : 'border-white/10 text-slate-400'
+            }`}
+          >
+            {getModeInfo(m).label}
+          </button>
+        ))}
+      </div>
+      <p className="w-full max-w-sm text-[10px] text-slate-500 uppercase tracking-widest mb-4">
+        {mode === 'daily' ? 'Today' : `${tableBoard.size}x${tableBoard.size}${tableBoard.regionClears ? ' · Regions' : ''}`} · {backend.label} · Replay-verified
+      </p>
+
+      {error && <p className="text-xs text-rose-400">Leaderboard unavailable: {error}</p>}
+      {!error && entries === null && <p className="text-xs text-slate-500 animate-pulse">Loading...</p>}
+      {!error && entries !== null && entries.length === 0 && (
+        <p className="text-sm text-slate-500 mt-8">No scores yet. Finish a {getModeInfo(mode).label} game with the standard dealer and no undo to post one.</p>
+      )}
+
+      {entries && entries.length > 0 && (
+        <ol className="w-full max-w-sm flex flex-col gap-2">
+          {entries.map((entry, i) => (
+            <li
+              key={entry.id}
+              className={`glass-panel rounded-xl px-3 py-2 flex items-center gap-3 border ${entry.profileId === profileId ? 'border-cyan-400/60' : 'border-transparent'}`}
+            >
+              <span className={`w-6 text-right font-display font-bold ${i === 0 ? 'text-yellow-400' : 'text-slate-500'}`}>{i + 1}</span>
+              <span className="flex-1 truncate text-slate-200 font-bold">{entry.name}</span>
+              <span className="font-display font-bold accent-text">{entry.score}</span>
+              <button onClick={() => watch(entry)} aria-label={`Watch ${entry.name}'s game`} className="p-1 text-slate-400 active:text-cyan-300">
+                <Film size={16} />
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,398 @@
+import React, { useEffect, useState } from 'react';
+import {
+  X, PencilRuler, Eraser, CircleDashed, Trash2, ChevronLeft, Plus, Play, ShieldCheck, Share2, Copy, Upload
+} from 'lucide-react';
+import { AppSettings, BoardConfig, PuzzleGoal, PuzzleLevel, Theme } from '../types';
+import { COLORS, SHAPE_TEMPLATES } from '../constants';
+import { getColorName, getDisplayColor, getDisplayShape } from '../services/palette';
+import {
+  DRAFT_LEVEL_ID, LEVEL_CODE_PARAM, decodeLevelCode, encodeLevelCode, getGoalCells, saveLevelDraft, toLevelPieces
+} from '../services/puzzles';
+import { LevelReport, checkLevelStructure, validateLevel } from '../services/puzzleValidator';
+import { Board } from './Board';
+import { BoardSettings } from './BoardSettings';
+import { PieceView } from './PieceView';
+
+interface LevelEditorProps {
+  initialLevel: PuzzleLevel;
+  settings: AppSettings;
+  theme: Theme;
+  onPlay: (level: PuzzleLevel) => void;
+  onClose: () => void;
+}
+
+type Tool = { kind: 'paint'; color: string } | { kind: 'erase' } | { kind: 'mark' };
+
+const PAD_SIZE = 5;
+// Kept small so checking never freezes the editor for long
+const EDITOR_SEARCH_NODES = 20_000;
+
+const emptyPad = () => Array.from({ length: PAD_SIZE }, () => Array(PAD_SIZE).fill(0));
+
+// Crops a drawing to its filled bounding box; null when nothing is drawn
+const trimMatrix = (pad: number[][]): number[][] | null => {
+  const rows = pad.map((row, y) => (row.includes(1) ? y : -1)).filter(y => y >= 0);
+  const cols = pad[0].map((_, x) => (pad.some(row => row[x]) ? x : -1)).filter(x => x >= 0);
+  if (rows.length === 0) return null;
+  return pad.slice(rows[0], rows[rows.length - 1] + 1).map(row => row.slice(cols[0], cols[cols.length - 1] + 1));
+};
+
+const resizeLevel = (level: PuzzleLevel, board: BoardConfig): PuzzleLevel => {
+  const grid = Array.from({ length: board.size }, (_, y) =>
+    Array.from({ length: board.size }, (_, x) => level.grid[y]?.[x] ?? null)
+  );
+  const goal: PuzzleGoal = level.goal.type === 'clearCells'
+    ? { type: 'clearCells', cells: level.goal.cells.filter(([x, y]) => x < board.size && y < board.size) }
+    : level.goal;
+  return { ...level, board, grid, goal };
+};
+
+const NumberField: React.FC<{ label: string, value: number, min?: number, onChange: (value: number) => void }> = ({
+  label, value, min = 0, onChange
+}) => (
+  <label className="flex flex-col gap-1 text-[10px] text-slate-500 uppercase tracking-widest">
+    {label}
+    <input
+      type="number"
+      min={min}
+      value={value}
+      onChange={e => onChange(Math.max(min, Math.floor(Number(e.target.value) || 0)))}
+      className="w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-sm text-slate-100 font-display"
+    />
+  </label>
+);
+
+export const LevelEditor: React.FC<LevelEditorProps> = ({ initialLevel, settings, theme, onPlay, onClose }) => {
+  const [level, setLevel] = useState<PuzzleLevel>(initialLevel);
+  const [tool, setTool] = useState<Tool>({ kind: 'paint', color: COLORS[0] });
+  const [pad, setPad] = useState<number[][]>(emptyPad);
+  const [report, setReport] = useState<LevelReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [shareCode, setShareCode] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [importText, setImportText] = useState('');
+
+  // Every edit is kept, and makes the last check and share code stale
+  const update = (next: PuzzleLevel) => {
+    setLevel(next);
+    setReport(null);
+    setError(null);
+    setShareCode(null);
+  };
+
+  useEffect(() => {
+    saveLevelDraft(level);
+  }, [level]);
+
+  const problems = checkLevelStructure(level);
+  const matrices = level.pieces.map(p => p.matrix);
+  const shareUrl = shareCode && `${window.location.origin}${window.location.pathname}?${LEVEL_CODE_PARAM}=${shareCode}`;
+
+  // --- Board painting ---
+  const handleCellClick = (x: number, y: number) => {
+    if (tool.kind === 'mark') {
+      if (level.goal.type !== 'clearCells') return;
+      const { cells } = level.goal;
+      const marked = cells.some(([cx, cy]) => cx === x && cy === y);
+      update({ ...level, goal: { type: 'clearCells', cells: marked ? cells.filter(([cx, cy]) => cx !== x || cy !== y) : [...cells, [x, y]] } });
+      return;
+    }
+    const color = tool.kind === 'paint' ? tool.color : null;
+    if (level.grid[y][x] === color) return;
+    update({ ...level, grid: level.grid.map((row, ry) => row.map((cell, rx) => (rx === x && ry === y ? color : cell))) });
+  };
+
+  // --- Piece queue ---
+  const setPieces = (next: number[][][]) => update({ ...level, pieces: toLevelPieces(next) });
+
+  const addDrawnPiece = () => {
+    const matrix = trimMatrix(pad);
+    if (!matrix) return;
+    setPieces([...matrices, matrix]);
+    setPad(emptyPad());
+  };
+
+  const movePiece = (index: number) => {
+    const next = [...matrices];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    setPieces(next);
+  };
+
+  // --- Goal ---
+  const setGoalType = (type: PuzzleGoal['type']) => {
+    if (type === level.goal.type) return;
+    const goal: PuzzleGoal =
+      type === 'score' ? { type: 'score', points: 100, pieces: Math.max(1, level.pieces.length) }
+      : type === 'clearCells' ? { type: 'clearCells', cells: [] }
+      : { type: 'clearAll' };
+    if (type === 'clearCells') setTool({ kind: 'mark' });
+    else if (tool.kind === 'mark') setTool({ kind: 'paint', color: COLORS[0] });
+    update({ ...level, goal });
+  };
+
+  // --- Check, play, share ---
+  // Round-tripping through a code runs the same parser shared links go through
+  const finalize = (): PuzzleLevel | null => {
+    try {
+      return decodeLevelCode(encodeLevelCode(level));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Level is incomplete');
+      return null;
+    }
+  };
+
+  const handleCheck = () => {
+    const finished = finalize();
+    if (finished) setReport(validateLevel(finished, EDITOR_SEARCH_NODES));
+  };
+
+  const handlePlay = () => {
+    const finished = finalize();
+    if (finished) onPlay(finished);
+  };
+
+  const handleShare = () => {
+    const finished = finalize();
+    if (finished) {
+      setShareCode(encodeLevelCode(finished));
+      setCopied(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!shareUrl) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+    } catch {
+      // No clipboard access; the link is still there to select by hand
+    }
+  };
+
+  // Accepts a bare code or a whole share link
+  const handleImport = () => {
+    const text = importText.trim();
+    if (!text) return;
+    try {
+      let code = text;
+      try {
+        code = new URL(text).searchParams.get(LEVEL_CODE_PARAM) ?? text;
+      } catch {
+        // Not a URL, so it's the code itself
+      }
+      update({ ...decodeLevelCode(code), id: DRAFT_LEVEL_ID });
+      setImportText('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read level code');
+    }
+  };
+
+  const toolButton = (active: boolean) =>
+    `w-8 h-8 rounded-full flex items-center justify-center border-2 active:scale-90 transition-all ${active ? 'border-white scale-110' : 'border-transparent'}`;
+
+  return (
+    <div role="dialog" aria-label="Level editor" className="absolute inset-0 z-[60] bg-slate-900/95 backdrop-blur-xl flex flex-col items-center p-6 overflow-y-auto">
+      <div className="w-full max-w-sm flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-display font-bold text-white flex items-center gap-2">
+          <PencilRuler size={22} className="text-emerald-400" /> Level Editor
+        </h2>
+        <button onClick={onClose} aria-label="Close editor" className="glass-panel p-2 rounded-full text-slate-400 active:scale-95">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="w-full max-w-sm flex flex-col gap-4">
+        {/* Name & board */}
+        <div className="glass-panel rounded-2xl p-4 flex flex-col gap-3">
+          <input
+            value={level.name}
+            maxLength={40}
+            onChange={e => update({ ...level, name: e.target.value })}
+            aria-label="Level name"
+            className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm font-bold text-slate-100"
+          />
+          <BoardSettings board={level.board} onChange={board => update(resizeLevel(level, board))} />
+        </div>
+
+        {/* Painting tools */}
+        <div className="flex items-center justify-center gap-2" role="toolbar" aria-label="Paint tools">
+          {COLORS.map(color => (
+            <button
+              key={color}
+              onClick={() => setTool({ kind: 'paint', color })}
+              aria-label={`Paint ${getColorName(color)}`}
+              aria-pressed={tool.kind === 'paint' && tool.color === color}
+              className={toolButton(tool.kind === 'paint' && tool.color === color)}
+              style={{ backgroundColor: getDisplayColor(color, settings.highContrast, theme.pieces) }}
+            />
+          ))}
+          <button
+            onClick={() => setTool({ kind: 'erase' })}
+            aria-label="Erase"
+            aria-pressed={tool.kind === 'erase'}
+            className={`${toolButton(tool.kind === 'erase')} glass-panel text-slate-300`}
+          >
+            <Eraser size={14} />
+          </button>
+          {level.goal.type === 'clearCells' && (
+            <button
+              onClick={() => setTool({ kind: 'mark' })}
+              aria-label="Mark goal cells"
+              aria-pressed={tool.kind === 'mark'}
+              className={`${toolButton(tool.kind === 'mark')} glass-panel text-amber-300`}
+            >
+              <CircleDashed size={14} />
+            </button>
+          )}
+        </div>
+
+        <Board
+          grid={level.grid}
+          markedCells={getGoalCells(level)}
+          onCellClick={handleCellClick}
+          regionClears={level.board.regionClears}
+          showGlyphs={settings.showGlyphs}
+          highContrast={settings.highContrast}
+          palette={theme.pieces}
+          glow={theme.glow}
+        />
+
+        {/* Piece queue */}
+        <div className="glass-panel rounded-2xl p-4 flex flex-col gap-3">
+          <span className="text-[10px] text-slate-500 uppercase tracking-widest">Piece Queue ({level.pieces.length})</span>
+          <div className="flex flex-wrap gap-2">
+            {level.pieces.map((piece, i) => (
+              <div key={i} className="relative bg-white/5 rounded-lg p-2 flex flex-col items-center gap-1">
+                <PieceView shape={getDisplayShape(piece, settings.highContrast, theme.pieces)} size="sm" />
+                <div className="flex gap-1">
+                  <button onClick={() => movePiece(i)} disabled={i === 0} aria-label={`Move piece ${i + 1} earlier`} className="text-slate-400 disabled:opacity-20">
+                    <ChevronLeft size={14} />
+                  </button>
+                  <button onClick={() => setPieces(matrices.filter((_, j) => j !== i))} aria-label={`Remove piece ${i + 1}`} className="text-rose-400">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <span className="text-[10px] text-slate-500 uppercase tracking-widest mt-2">Add a Template</span>
+          <div className="flex flex-wrap gap-2">
+            {SHAPE_TEMPLATES.map((matrix, i) => (
+              <button
+                key={i}
+                onClick={() => setPieces([...matrices, matrix])}
+                aria-label={`Add template ${i + 1}`}
+                className="bg-white/5 rounded-lg p-1 active:scale-90"
+              >
+                <PieceView shape={{ id: `template-${i}`, matrix, color: '#94a3b8' }} size="sm" />
+              </button>
+            ))}
+          </div>
+
+          <span className="text-[10px] text-slate-500 uppercase tracking-widest mt-2">Draw a Piece</span>
+          <div className="flex items-end gap-4">
+            <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${PAD_SIZE}, minmax(0, 1fr))` }}>
+              {pad.map((row, y) => row.map((on, x) => (
+                <button
+                  key={`${x}-${y}`}
+                  onClick={() => setPad(pad.map((r, ry) => r.map((v, rx) => (rx === x && ry === y ? 1 - v : v))))}
+                  aria-label={`Pad row ${y + 1}, column ${x + 1}${on ? ', on' : ''}`}
+                  className={`w-6 h-6 rounded ${on ? 'bg-cyan-400' : 'bg-white/10'}`}
+                />
+              )))}
+            </div>
+            <button
+              onClick={addDrawnPiece}
+              disabled={!trimMatrix(pad)}
+              className="px-3 py-1 rounded-full bg-cyan-500/20 border border-cyan-500/40 text-cyan-300 text-xs font-bold flex items-center gap-1 active:scale-95 disabled:opacity-30"
+            >
+              <Plus size={14} /> Add
+            </button>
+          </div>
+        </div>
+
+        {/* Goal & budget */}
+        <div className="glass-panel rounded-2xl p-4 flex flex-col gap-3">
+          <span className="text-[10px] text-slate-500 uppercase tracking-widest">Goal</span>
+          <div className="flex gap-2">
+            {([['clearAll', 'Clear All'], ['score', 'Score'], ['clearCells', 'Marked']] as const).map(([type, label]) => (
+              <button
+                key={type}
+                onClick={() => setGoalType(type)}
+                aria-pressed={level.goal.type === type}
+                className={`flex-1 py-1 rounded-lg text-xs font-bold border ${
+                  level.goal.type === type ? 'border-emerald-400 text-emerald-300 bg-emerald-500/10' : 'border-white/10 text-slate-400'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {level.goal.type === 'score' && (
+            <div className="grid grid-cols-2 gap-3">
+              <NumberField label="Points" min={1} value={level.goal.points} onChange={points => level.goal.type === 'score' && update({ ...level, goal: { ...level.goal, points } })} />
+              <NumberField label="Within Pieces" min={1} value={level.goal.pieces} onChange={pieces => level.goal.type === 'score' && update({ ...level, goal: { ...level.goal, pieces } })} />
+            </div>
+          )}
+          {level.goal.type === 'clearCells' && (
+            <p className="text-xs text-slate-400">{level.goal.cells.length} cells marked. Use the dashed tool to mark filled cells.</p>
+          )}
+          <div className="grid grid-cols-3 gap-3">
+            <NumberField label="Keys" value={level.keys} onChange={keys => update({ ...level, keys })} />
+            <NumberField label="2 Stars" value={level.stars[0]} onChange={score => update({ ...level, stars: [score, Math.max(score, level.stars[1])] })} />
+            <NumberField label="3 Stars" value={level.stars[1]} onChange={score => update({ ...level, stars: [Math.min(score, level.stars[0]), score] })} />
+          </div>
+        </div>
+
+        {/* Problems & check result */}
+        {(problems.length > 0 || error) && (
+          <ul className="text-xs text-rose-400 flex flex-col gap-1">
+            {error && <li>{error}</li>}
+            {problems.map(p => <li key={p}>• {p}</li>)}
+          </ul>
+        )}
+        {report && problems.length === 0 && (
+          <p className={`text-xs ${report.solvable ? 'text-emerald-400' : report.solvable === null ? 'text-amber-300' : 'text-rose-400'}`}>
+            {report.solvable ? `Solvable in ${report.solution?.length ?? 0} moves.` : report.problems.join('. ')}
+          </p>
+        )}
+
+        <div className="grid grid-cols-3 gap-2">
+          <button onClick={handleCheck} className="py-2 glass-panel rounded-full text-xs font-bold text-slate-200 flex items-center justify-center gap-1 active:scale-95">
+            <ShieldCheck size={14} /> Check
+          </button>
+          <button onClick={handlePlay} className="py-2 bg-gradient-to-r from-emerald-500 to-cyan-600 rounded-full text-xs font-bold flex items-center justify-center gap-1 active:scale-95">
+            <Play size={14} /> Test Play
+          </button>
+          <button onClick={handleShare} className="py-2 glass-panel rounded-full text-xs font-bold text-cyan-300 flex items-center justify-center gap-1 active:scale-95">
+            <Share2 size={14} /> Share
+          </button>
+        </div>
+
+        {shareUrl && (
+          <div className="glass-panel rounded-2xl p-3 flex items-center gap-2">
+            <input readOnly value={shareUrl} aria-label="Share link" onFocus={e => e.target.select()} className="flex-1 min-w-0 bg-transparent text-xs text-slate-300 font-mono" />
+            <button onClick={handleCopy} aria-label="Copy share link" className="text-cyan-300 text-xs font-bold flex items-center gap-1 shrink-0">
+              <Copy size={14} /> {copied ? 'Copied' : 'Copy'}
+            </button>
+          </div>
+        )}
+
+        {/* Import */}
+        <div className="flex items-center gap-2 mb-4">
+          <input
+            value={importText}
+            onChange={e => setImportText(e.target.value)}
+            placeholder="Paste a level code or link"
+            aria-label="Level code to load"
+            className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs text-slate-100"
+          />
+          <button onClick={handleImport} className="px-3 py-2 glass-panel rounded-full text-xs font-bold text-slate-300 flex items-center gap-1 active:scale-95">
+            <Upload size={14} /> Load
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
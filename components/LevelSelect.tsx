@@ -0,0 +1,62 @@
+import React from 'react';
+import { X, Puzzle, Lock, Star } from 'lucide-react';
+import { PuzzleBest, PuzzleLevel } from '../types';
+import { describeGoal, isLevelUnlocked } from '../services/puzzles';
+
+interface LevelSelectProps {
+  levels: PuzzleLevel[];
+  progress: Record<string, PuzzleBest>;
+  onSelect: (level: PuzzleLevel) => void;
+  onClose: () => void;
+}
+
+export const StarRating: React.FC<{ stars: number, size?: number }> = ({ stars, size = 12 }) => (
+  <span className="flex gap-0.5" aria-label={`${stars} of 3 stars`}>
+    {[1, 2, 3].map(i => (
+      <Star key={i} size={size} className={i <= stars ? 'text-yellow-400 fill-yellow-400' : 'text-slate-600'} />
+    ))}
+  </span>
+);
+
+export const LevelSelect: React.FC<LevelSelectProps> = ({ levels, progress, onSelect, onClose }) => {
+  const totalStars = levels.reduce((acc, l) => acc + (progress[l.id]?.stars ?? 0), 0);
+
+  return (
+    <div role="dialog" aria-label="Puzzles" className="absolute inset-0 z-[60] bg-slate-900/95 backdrop-blur-xl flex flex-col items-center p-6 overflow-y-auto">
+      <div className="w-full max-w-sm flex justify-between items-center mb-2">
+        <h2 className="text-2xl font-display font-bold text-white flex items-center gap-2">
+          <Puzzle size={22} className="text-emerald-400" /> Puzzles
+        </h2>
+        <button onClick={onClose} aria-label="Close puzzles" className="glass-panel p-2 rounded-full text-slate-400 active:scale-95">
+          <X size={18} />
+        </button>
+      </div>
+      <p className="w-full max-w-sm text-xs text-slate-500 uppercase tracking-widest font-display mb-4 flex items-center gap-1">
+        <Star size={12} className="text-yellow-400 fill-yellow-400" /> {totalStars} / {levels.length * 3}
+      </p>
+
+      <div className="w-full max-w-sm grid grid-cols-2 gap-3">
+        {levels.map((level, index) => {
+          const unlocked = isLevelUnlocked(levels, index, progress);
+          const best = progress[level.id];
+          return (
+            <button
+              key={level.id}
+              onClick={() => onSelect(level)}
+              disabled={!unlocked}
+              className="glass-panel rounded-xl p-3 text-left flex flex-col gap-1 border border-white/5 active:scale-95 transition-all disabled:opacity-40"
+            >
+              <div className="flex justify-between items-center">
+                <span className="text-[10px] text-slate-500 font-display">#{index + 1}</span>
+                {unlocked ? <StarRating stars={best?.stars ?? 0} /> : <Lock size={12} className="text-slate-500" />}
+              </div>
+              <span className="text-sm font-bold text-slate-100">{level.name}</span>
+              <span className="text-[10px] text-slate-400 leading-tight">{describeGoal(level.goal)}</span>
+              {best && <span className="text-[10px] text-cyan-400 font-display">Best {best.score}</span>}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
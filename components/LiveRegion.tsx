@@ -0,0 +1,17 @@
+import React from 'react';
+
+export interface Announcement {
+  id: number; // Bumped for every message so repeats are still announced
+  text: string;
+}
+
+interface LiveRegionProps {
+  announcement: Announcement | null;
+}
+
+// Visually hidden; screen readers read each new message politely
+export const LiveRegion: React.FC<LiveRegionProps> = ({ announcement }) => (
+  <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+    {announcement && <span key={announcement.id}>{announcement.text}</span>}
+  </div>
+);
@@ -0,0 +1,56 @@
+import React from 'react';
+import { ArrowUpFromLine, Leaf, Timer } from 'lucide-react';
+import { GameState } from '../types';
+
+interface ModeHudProps {
+  state: GameState;
+}
+
+const formatClock = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+// Variant status shown in the header next to combo and keys; nothing for the standard rules
+export const ModeHud: React.FC<ModeHudProps> = ({ state }) => {
+  switch (state.variant) {
+    case 'blitz': {
+      const urgent = state.clockMs <= 10000;
+      return (
+        <div
+          role="timer"
+          aria-label={`${Math.ceil(state.clockMs / 1000)} seconds left`}
+          className={`glass-panel px-3 py-1 rounded-full flex items-center gap-1 ${
+            urgent ? 'text-rose-400 border-rose-500/40 bg-rose-500/10 animate-pulse' : 'text-sky-300 border-sky-500/30 bg-sky-500/10'
+          }`}
+        >
+          <Timer size={14} />
+          <span className="font-bold font-display tabular-nums">{formatClock(state.clockMs)}</span>
+        </div>
+      );
+    }
+    case 'survival':
+      return (
+        <div
+          role="timer"
+          aria-label={`Next garbage row in ${Math.ceil(state.clockMs / 1000)} seconds, ${state.garbageRows} survived`}
+          className={`glass-panel px-3 py-1 rounded-full flex items-center gap-1 ${
+            state.clockMs <= 3000 ? 'text-rose-400 border-rose-500/40 bg-rose-500/10' : 'text-slate-300 border-slate-500/30'
+          }`}
+        >
+          <ArrowUpFromLine size={14} />
+          <span className="font-bold font-display tabular-nums">{Math.ceil(state.clockMs / 1000)}s</span>
+          <span className="text-[10px] text-slate-500 font-display">· {state.garbageRows}</span>
+        </div>
+      );
+    case 'zen':
+      return (
+        <div title="No game over" className="glass-panel px-3 py-1 rounded-full flex items-center gap-1 text-emerald-300 border-emerald-500/30 bg-emerald-500/10">
+          <Leaf size={14} />
+          <span className="font-bold font-display text-xs uppercase tracking-widest">Zen</span>
+        </div>
+      );
+    default:
+      return null;
+  }
+};
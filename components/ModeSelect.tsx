@@ -0,0 +1,29 @@
+import React from 'react';
+import { GameMode } from '../types';
+import { SELECTABLE_MODES, getModeInfo } from '../services/modes';
+
+interface ModeSelectProps {
+  mode: GameMode;
+  onChange: (mode: GameMode) => void;
+}
+
+export const ModeSelect: React.FC<ModeSelectProps> = ({ mode, onChange }) => (
+  <div className="flex flex-col gap-2">
+    <div role="radiogroup" aria-label="Game mode" className="flex gap-1 glass-panel rounded-full p-1">
+      {SELECTABLE_MODES.map(id => (
+        <button
+          key={id}
+          role="radio"
+          aria-checked={mode === id}
+          onClick={() => onChange(id)}
+          className={`flex-1 py-1 rounded-full text-xs font-bold transition-all ${
+            mode === id ? 'accent-gradient text-white' : 'text-slate-400'
+          }`}
+        >
+          {getModeInfo(id).label}
+        </button>
+      ))}
+    </div>
+    <p className="text-xs text-slate-400 text-left">{getModeInfo(mode).description}</p>
+  </div>
+);
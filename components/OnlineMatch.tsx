@@ -0,0 +1,282 @@
+import React, { useState } from 'react';
+import { Globe, X, Trophy, Home, Wifi, WifiOff, AlertTriangle, Loader2 } from 'lucide-react';
+import { AppSettings, BoardConfig, InputAction, KeyBindings, OnlineRules, PieceSource, Theme, VersusCursor } from '../types';
+import { getPiece } from '../services/gameEngine';
+import { canPlacePiece } from '../services/board';
+import { VersusPlayers, clampCursor, getRaceWinner, getRoundWinner, getTapPlacement, resolveCursorInput } from '../services/versus';
+import { MAX_NAME_LENGTH, createRoomCode, isRoomCode, normalizeRoomCode } from '../services/netProtocol';
+import { OnlinePreferences, loadOnlinePreferences, saveOnlinePreferences } from '../services/netClient';
+import { playSound } from '../services/audio';
+import { useInputActions } from '../hooks/useInputActions';
+import { useOnlineMatch } from '../hooks/useOnlineMatch';
+import { VersusBoard } from './VersusBoard';
+
+interface OnlineMatchProps {
+  board: BoardConfig;
+  bindings: KeyBindings;
+  settings: AppSettings;
+  theme: Theme;
+  onExit: () => void;
+}
+
+const RULE_OPTIONS: { id: OnlineRules; label: string; description: string }[] = [
+  { id: 'race', label: 'Race', description: 'Same pieces for both. Highest score once both boards lock up wins.' },
+  { id: 'garbage', label: 'Garbage', description: 'Clears push garbage rows onto your opponent. Last one standing wins.' },
+];
+
+export const OnlineMatch: React.FC<OnlineMatchProps> = ({ board, bindings, settings, theme, onExit }) => {
+  const { match, connect, leave, act } = useOnlineMatch();
+  const [preferences, setPreferences] = useState<OnlinePreferences>(loadOnlinePreferences);
+  const [rules, setRules] = useState<OnlineRules>('race');
+  const [roomInput, setRoomInput] = useState('');
+  const [selected, setSelected] = useState<PieceSource | null>(null);
+  const [rawCursor, setRawCursor] = useState<VersusCursor>({ source: 0, x: 0, y: 0 });
+  const [showCursor, setShowCursor] = useState(false);
+
+  const { status, error, welcome, opponent, own, mirror, desync } = match;
+  // Boards in room order, so both clients settle ties the same way
+  const players: VersusPlayers | null = own && mirror && welcome ? (welcome.side === 0 ? [own, mirror] : [mirror, own]) : null;
+  const winner = players && (welcome?.rules === 'garbage' ? getRoundWinner(players) : getRaceWinner(players));
+  const finished = winner !== null || !!desync;
+  const playing = !!own && !!opponent && !own.isGameOver && !finished && status !== 'closed';
+  const cursor = own ? clampCursor(rawCursor, own) : null;
+
+  const join = (room: string) => {
+    const name = preferences.name.trim().slice(0, MAX_NAME_LENGTH) || 'Player';
+    saveOnlinePreferences({ ...preferences, name });
+    setSelected(null);
+    setRawCursor({ source: 0, x: 0, y: 0 });
+    connect(preferences.relayUrl, { room, name, rules, board });
+  };
+
+  // --- Input: same controls as local versus, all on the player's own board ---
+
+  const handleSelect = (source: PieceSource) => {
+    setShowCursor(false);
+    setSelected(current => (current === source ? null : source));
+  };
+
+  const handleCellClick = (x: number, y: number) => {
+    if (!own || selected === null) return;
+    const placement = getTapPlacement(own, selected, x, y);
+    if (placement && act(placement)) setSelected(null);
+    else playSound('hoverInvalid');
+  };
+
+  const handleRotate = () => {
+    if (selected !== null) act({ type: 'rotate', source: selected });
+  };
+
+  const handleHold = () => {
+    if (typeof selected === 'number' && act({ type: 'hold', source: selected })) setSelected(null);
+  };
+
+  const handleInputAction = (action: InputAction) => {
+    if (!own || !cursor) return;
+    setShowCursor(true);
+    const input = resolveCursorInput(cursor, own, action);
+    if (!input) return;
+    if ('action' in input) {
+      if (!act(input.action)) playSound('hoverInvalid');
+      return;
+    }
+    setRawCursor(input.cursor);
+    const piece = getPiece(own, input.cursor.source);
+    if (piece) playSound(canPlacePiece(own.grid, piece, input.cursor.x, input.cursor.y) ? 'hoverValid' : 'hoverInvalid');
+  };
+
+  useInputActions(bindings, handleInputAction, playing);
+
+  // --- Lobby ---
+
+  if (!welcome) {
+    const connecting = status === 'connecting';
+    const roomCode = normalizeRoomCode(roomInput);
+    return (
+      <div role="dialog" aria-label="Online lobby" className="absolute inset-0 z-50 theme-bg flex flex-col items-center p-6 overflow-y-auto">
+        <div className="w-full max-w-sm flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-display font-bold text-white flex items-center gap-2">
+            <Globe size={22} className="text-sky-400" /> Online
+          </h2>
+          <button onClick={onExit} aria-label="Close online play" className="glass-panel p-2 rounded-full text-slate-400 active:scale-95">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="w-full max-w-sm glass-panel rounded-2xl p-4 flex flex-col gap-4">
+          <label className="flex flex-col gap-1">
+            <span className="text-slate-400 uppercase text-xs tracking-wider">Name</span>
+            <input
+              value={preferences.name}
+              maxLength={MAX_NAME_LENGTH}
+              onChange={e => setPreferences({ ...preferences, name: e.target.value })}
+              className="bg-slate-900/60 border border-white/10 rounded-lg px-3 py-2 text-sm text-white"
+            />
+          </label>
+
+          <div>
+            <span className="text-slate-400 uppercase text-xs tracking-wider">Rules for a new room</span>
+            <div role="radiogroup" aria-label="Rules" className="mt-2 flex flex-col gap-2">
+              {RULE_OPTIONS.map(option => (
+                <button
+                  key={option.id}
+                  role="radio"
+                  aria-checked={rules === option.id}
+                  onClick={() => setRules(option.id)}
+                  className={`text-left px-3 py-2 rounded-xl border transition-all ${
+                    rules === option.id ? 'border-sky-400/60 bg-sky-500/10' : 'border-white/10'
+                  }`}
+                >
+                  <span className="block text-sm font-bold text-slate-100">{option.label}</span>
+                  <span className="block text-xs text-slate-400">{option.description}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={() => join(createRoomCode())}
+            disabled={connecting}
+            className="py-2 accent-gradient rounded-full font-bold active:scale-95 transition-all disabled:opacity-50"
+          >
+            Create Room
+          </button>
+
+          <div className="flex gap-2">
+            <input
+              value={roomInput}
+              onChange={e => setRoomInput(e.target.value)}
+              placeholder="Room code"
+              aria-label="Room code"
+              maxLength={8}
+              className="flex-1 min-w-0 bg-slate-900/60 border border-white/10 rounded-lg px-3 py-2 text-sm text-white uppercase tracking-widest"
+            />
+            <button
+              onClick={() => join(roomCode)}
+              disabled={connecting || !isRoomCode(roomCode)}
+              className="px-4 py-2 glass-panel rounded-full text-sm font-bold text-sky-300 border border-sky-500/30 active:scale-95 disabled:opacity-40"
+            >
+              Join
+            </button>
+          </div>
+
+          <details className="text-xs text-slate-400">
+            <summary className="cursor-pointer">Relay server</summary>
+            <input
+              value={preferences.relayUrl}
+              onChange={e => setPreferences({ ...preferences, relayUrl: e.target.value })}
+              aria-label="Relay address"
+              className="mt-2 w-full bg-slate-900/60 border border-white/10 rounded-lg px-3 py-2 text-xs text-white"
+            />
+            <p className="mt-1">Run <code>npm run relay</code> to host one on this machine.</p>
+          </details>
+
+          <p className="text-xs text-slate-400">
+            New rooms use your {board.size}x{board.size} board{board.regionClears ? ' with 3x3 regions' : ''}. Joining takes the room's board and rules.
+          </p>
+
+          {connecting && (
+            <p className="text-xs text-slate-300 flex items-center gap-2" aria-live="polite">
+              <Loader2 size={14} className="animate-spin" /> Connecting…
+            </p>
+          )}
+          {error && status === 'closed' && <p className="text-xs text-rose-400" aria-live="polite">{error}</p>}
+        </div>
+      </div>
+    );
+  }
+
+  // --- Match ---
+
+  const outcome = desync ? 'No Contest'
+    : winner === 'draw' ? 'Draw'
+    : winner === welcome.side ? 'You Win!'
+    : winner !== null ? `${opponent?.name ?? 'Opponent'} Wins` : null;
+  const notice = status === 'reconnecting' ? 'Connection lost, reconnecting…'
+    : status === 'closed' && !finished ? error ?? 'Disconnected from the relay.'
+    : !opponent ? `Waiting for an opponent. Share room code ${welcome.room}.`
+    : !opponent.connected ? `${opponent.name} dropped out; their moves will catch up when they return.`
+    : own?.isGameOver && !finished ? `Waiting for ${opponent.name} to finish.`
+    : '';
+  const exitMatch = () => {
+    leave();
+    onExit();
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 theme-bg flex flex-col items-center p-4 overflow-y-auto">
+      <header className="w-full max-w-4xl flex items-center justify-between mb-4">
+        <div className="glass-panel px-4 py-2 rounded-xl flex flex-col items-start">
+          <span className="text-[10px] text-slate-400 font-display uppercase tracking-widest">
+            Room {welcome.room} · {welcome.rules === 'race' ? 'Race' : 'Garbage'}
+          </span>
+          <span className="flex items-center gap-1 text-xs font-bold">
+            {status === 'open'
+              ? <><Wifi size={12} className="text-emerald-400" /> <span className="text-emerald-300">Online</span></>
+              : <><WifiOff size={12} className="text-rose-400" /> <span className="text-rose-300">{status === 'reconnecting' ? 'Reconnecting' : 'Offline'}</span></>}
+          </span>
+        </div>
+        <p className="flex-1 px-4 text-center text-xs text-slate-300 font-display uppercase tracking-widest" aria-live="polite">{notice}</p>
+        <button onClick={exitMatch} aria-label="Leave match" className="glass-panel p-2 rounded-full text-slate-400 active:scale-95">
+          <X size={18} />
+        </button>
+      </header>
+
+      {own && mirror && (
+        <div className="w-full max-w-4xl grid grid-cols-1 md:grid-cols-2 gap-6">
+          <VersusBoard
+            label={`${preferences.name.trim() || 'You'} (you)`}
+            state={own}
+            active={playing}
+            usesPointer
+            cursor={playing && showCursor ? cursor : null}
+            selected={selected}
+            incoming={match.incoming}
+            settings={settings}
+            theme={theme}
+            onSelect={handleSelect}
+            onCellClick={handleCellClick}
+            onRotate={handleRotate}
+            onHold={handleHold}
+          />
+          <VersusBoard
+            label={opponent ? `${opponent.name}${opponent.connected ? '' : ' (offline)'}` : 'Waiting…'}
+            state={mirror}
+            active={false}
+            usesPointer={false}
+            cursor={null}
+            selected={null}
+            incoming={0}
+            settings={settings}
+            theme={theme}
+            onSelect={() => {}}
+            onCellClick={() => {}}
+            onRotate={() => {}}
+            onHold={() => {}}
+          />
+        </div>
+      )}
+
+      {outcome && (
+        <div role="dialog" aria-label="Match over" className="absolute inset-0 z-10 bg-slate-900/90 backdrop-blur-xl flex flex-col items-center justify-center p-6 text-center">
+          {desync
+            ? <AlertTriangle size={64} className="text-amber-400 mb-4" />
+            : <Trophy size={64} className="text-yellow-400 mb-4 drop-shadow-[0_0_30px_rgba(250,204,21,0.6)]" />}
+          <h2 className="text-4xl font-display font-bold text-white mb-2">{outcome}</h2>
+          {desync
+            ? <p className="text-slate-400 text-sm mb-8 max-w-xs">Desync detected: {desync}</p>
+            : <p className="text-slate-400 text-sm mb-8">{own?.score ?? 0} – {mirror?.score ?? 0}</p>}
+          <button
+            onClick={leave}
+            className="w-64 py-4 accent-gradient rounded-full font-bold text-xl active:scale-95 transition-all flex items-center justify-center gap-3"
+          >
+            <Globe size={24} /> Lobby
+          </button>
+          <button onClick={exitMatch} className="mt-4 px-6 py-2 glass-panel rounded-full text-sm font-bold text-slate-300 flex items-center gap-2 active:scale-95">
+            <Home size={16} /> Menu
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
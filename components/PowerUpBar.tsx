@@ -0,0 +1,69 @@
+import React from 'react';
+import { Bomb, Eraser, Shuffle, SquarePlus, Key, AlertTriangle } from 'lucide-react';
+import { LineAxis, PowerUp } from '../types';
+import { POWER_UPS } from '../services/powerUps';
+
+interface PowerUpBarProps {
+  keys: number;
+  armed: PowerUp | null;
+  axis: LineAxis;
+  isStuck: boolean; // No piece fits; power-ups are the only way on
+  onSelect: (powerUp: PowerUp) => void;
+  onToggleAxis: () => void;
+}
+
+const ICONS: Record<PowerUp, React.ElementType> = {
+  bomb: Bomb,
+  lineEraser: Eraser,
+  reroll: Shuffle,
+  filler: SquarePlus,
+};
+
+export const PowerUpBar: React.FC<PowerUpBarProps> = ({ keys, armed, axis, isStuck, onSelect, onToggleAxis }) => (
+  <div className="w-full flex flex-col gap-2">
+    {isStuck && (
+      <div className="glass-panel p-2 rounded-xl border-l-4 border-l-amber-400 flex gap-2 items-center text-xs text-amber-100">
+        <AlertTriangle size={14} className="text-amber-400 shrink-0" />
+        No piece fits. Spend keys on a power-up to break free.
+      </div>
+    )}
+
+    <div className="flex gap-2">
+      {POWER_UPS.map(({ id, label, description, cost }) => {
+        const Icon = ICONS[id];
+        const isArmed = armed === id;
+        return (
+          <button
+            key={id}
+            onClick={() => onSelect(id)}
+            disabled={keys < cost && !isArmed}
+            aria-pressed={isArmed}
+            aria-label={`${label}: ${description}, ${cost} keys`}
+            className={`flex-1 h-11 glass-panel rounded-xl flex items-center justify-center gap-1.5 transition-all duration-200 active:scale-95 disabled:opacity-30 ${
+              isArmed ? 'ring-2 ring-amber-400 bg-amber-500/15 text-amber-300' : 'text-slate-300'
+            } ${isStuck && keys >= cost && !isArmed ? 'border-amber-400/40 animate-pulse' : ''}`}
+          >
+            <Icon size={16} />
+            <span className="text-[10px] font-bold font-display flex items-center gap-0.5 text-amber-400">
+              {cost}<Key size={10} className="fill-amber-400" />
+            </span>
+          </button>
+        );
+      })}
+    </div>
+
+    {armed && armed !== 'reroll' && (
+      <div className="flex items-center justify-center gap-3 text-[10px] text-slate-400 uppercase tracking-widest font-bold">
+        <span>Tap a cell to aim, tap again to use</span>
+        {armed === 'lineEraser' && (
+          <button
+            onClick={onToggleAxis}
+            className="px-2 py-0.5 rounded-full border border-amber-400/40 text-amber-300 active:scale-95"
+          >
+            {axis === 'row' ? 'Row' : 'Column'}
+          </button>
+        )}
+      </div>
+    )}
+  </div>
+);
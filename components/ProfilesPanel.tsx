@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { X, UserRound, UserPlus, Pencil, Check, Trash2 } from 'lucide-react';
+import { MAX_NAME_LENGTH } from '../services/netProtocol';
+import { ProfileStore, addProfile, removeProfile, renameProfile, selectProfile } from '../services/profiles';
+
+interface ProfilesPanelProps {
+  store: ProfileStore;
+  onChange: (store: ProfileStore) => void;
+  onClose: () => void;
+}
+
+export const ProfilesPanel: React.FC<ProfilesPanelProps> = ({ store, onChange, onClose }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [newName, setNewName] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+
+  const startRename = (id: string, name: string) => {
+    setEditingId(id);
+    setDraft(name);
+    setConfirmDelete(null);
+  };
+
+  const commitRename = () => {
+    if (editingId) onChange(renameProfile(store, editingId, draft));
+    setEditingId(null);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirmDelete !== id) {
+      setConfirmDelete(id);
+      return;
+    }
+    onChange(removeProfile(store, id));
+    setConfirmDelete(null);
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    onChange(addProfile(store, newName));
+    setNewName('');
+  };
+
+  return (
+    <div role="dialog" aria-label="Player profiles" className="absolute inset-0 z-[60] bg-slate-900/95 backdrop-blur-xl flex flex-col items-center p-6 overflow-y-auto">
+      <div className="w-full max-w-sm flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-display font-bold text-white flex items-center gap-2">
+          <UserRound size={22} className="text-cyan-400" /> Players
+        </h2>
+        <button onClick={onClose} aria-label="Close players" className="glass-panel p-2 rounded-full text-slate-400 active:scale-95">
+          <X size={18} />
+        </button>
+      </div>
+
+      <p className="w-full max-w-sm text-xs text-slate-400 mb-4">
+        Scores go on the leaderboard under the selected player. Entries already posted keep their name.
+      </p>
+
+      <ul className="w-full max-w-sm flex flex-col gap-2 mb-6">
+        {store.profiles.map(profile => {
+          const active = profile.id === store.activeId;
+          return (
+            <li
+              key={profile.id}
+              className={`glass-panel rounded-xl p-3 flex items-center gap-3 border ${active ? 'border-cyan-400/60' : 'border-transparent'}`}
+            >
+              {editingId === profile.id ? (
+                <form className="flex-1 flex gap-2" onSubmit={e => { e.preventDefault(); commitRename(); }}>
+                  <input
+                    autoFocus
+                    value={draft}
+                    maxLength={MAX_NAME_LENGTH}
+                    onChange={e => setDraft(e.target.value)}
+                    aria-label="Player name"
+                    className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-white text-sm"
+                  />
+                  <button type="submit" aria-label="Save name" className="p-1 text-emerald-300 active:scale-95">
+                    <Check size={18} />
+                  </button>
+                </form>
+              ) : (
+                <>
+                  <button
+                    onClick={() => onChange(selectProfile(store, profile.id))}
+                    aria-pressed={active}
+                    className={`flex-1 text-left font-bold truncate ${active ? 'text-cyan-300' : 'text-slate-300'}`}
+                  >
+                    {profile.name}
+                  </button>
+                  <button onClick={() => startRename(profile.id, profile.name)} aria-label={`Rename ${profile.name}`} className="p-1 text-slate-400 active:text-white">
+                    <Pencil size={16} />
+                  </button>
+                  {store.profiles.length > 1 && (
+                    <button
+                      onClick={() => handleDelete(profile.id)}
+                      aria-label={confirmDelete === profile.id ? `Confirm deleting ${profile.name}` : `Delete ${profile.name}`}
+                      className={`p-1 flex items-center gap-1 text-xs font-bold ${confirmDelete === profile.id ? 'text-red-400' : 'text-slate-400 active:text-white'}`}
+                    >
+                      <Trash2 size={16} /> {confirmDelete === profile.id && 'Sure?'}
+                    </button>
+                  )}
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <form onSubmit={handleAdd} className="w-full max-w-sm flex gap-2">
+        <input
+          value={newName}
+          maxLength={MAX_NAME_LENGTH}
+          onChange={e => setNewName(e.target.value)}
+          placeholder="New player name"
+          aria-label="New player name"
+          className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-full px-4 py-2 text-white text-sm"
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim()}
+          className="px-4 py-2 accent-gradient rounded-full font-bold text-sm flex items-center gap-2 active:scale-95 disabled:opacity-40"
+        >
+          <UserPlus size={16} /> Add
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import { Target } from 'lucide-react';
+import { GameState, PuzzleLevel } from '../types';
+import { countPiecesPlaced, describeGoal } from '../services/puzzles';
+
+interface PuzzleHudProps {
+  level: PuzzleLevel;
+  state: GameState;
+}
+
+// Goal and live progress shown above the board in puzzle mode
+export const PuzzleHud: React.FC<PuzzleHudProps> = ({ level, state }) => {
+  const { goal } = level;
+  const placed = countPiecesPlaced(level, state);
+  const piecesLeft = level.pieces.length - placed;
+
+  const progress = (() => {
+    switch (goal.type) {
+      case 'clearAll':
+        return `${state.grid.flat().filter(c => c !== null).length} blocks left`;
+      case 'score':
+        return `${state.score} / ${goal.points} · ${Math.max(0, goal.pieces - placed)} pieces to go`;
+      case 'clearCells':
+        return `${goal.cells.filter(([x, y]) => state.grid[y][x] !== null).length} marked left`;
+    }
+  })();
+
+  return (
+    <div className="w-full glass-panel px-3 py-2 rounded-xl border-l-4 border-l-emerald-400 flex items-center gap-3">
+      <Target size={16} className="text-emerald-400 shrink-0" />
+      <div className="flex-1 min-w-0">
+        <div className="text-xs font-bold text-slate-100 truncate">{level.name}: {describeGoal(goal)}</div>
+        <div className="text-[10px] text-slate-400 font-display uppercase tracking-widest" aria-live="polite">{progress}</div>
+      </div>
+      <span className="text-[10px] text-slate-500 font-display shrink-0">{piecesLeft} in queue</span>
+    </div>
+  );
+};
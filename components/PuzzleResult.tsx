@@ -0,0 +1,75 @@
+import React from 'react';
+import { Trophy, RefreshCw, Undo2, ChevronRight, Grid3x3, Key } from 'lucide-react';
+import { PuzzleBest, PuzzleLevel, PuzzleOutcome } from '../types';
+import { COST_UNDO } from '../constants';
+import { StarRating } from './LevelSelect';
+
+interface PuzzleResultProps {
+  level: PuzzleLevel;
+  outcome: PuzzleOutcome;
+  score: number;
+  best?: PuzzleBest;
+  canUndo: boolean;
+  hasNext: boolean;
+  onNext: () => void;
+  onRetry: () => void;
+  onUndo: () => void;
+  backLabel: string; // Where onBack leads: the level list or the editor
+  onBack: () => void;
+}
+
+export const PuzzleResult: React.FC<PuzzleResultProps> = ({
+  level, outcome, score, best, canUndo, hasNext, onNext, onRetry, onUndo, backLabel, onBack
+}) => {
+  const won = outcome.status === 'won';
+
+  return (
+    <div className="absolute inset-0 z-50 bg-slate-900/95 backdrop-blur-xl flex flex-col items-center justify-center p-6 text-center animate-in fade-in duration-500">
+      <Trophy size={64} className={`mb-4 ${won ? 'text-yellow-400 drop-shadow-[0_0_30px_rgba(250,204,21,0.6)] animate-bounce' : 'text-slate-600'}`} />
+      <h2 className="text-4xl font-display font-bold text-white mb-1">{won ? 'Solved!' : 'Out of Moves'}</h2>
+      <p className="text-sm text-slate-400 mb-6">{level.name}</p>
+
+      {won && <div className="mb-6"><StarRating stars={outcome.stars} size={32} /></div>}
+
+      <div className="grid grid-cols-2 gap-6 w-full max-w-sm mb-8">
+        <div className="bg-white/5 p-4 rounded-2xl border border-white/10 flex flex-col items-center">
+          <div className="text-xs text-slate-500 uppercase tracking-widest mb-2">Score</div>
+          <div className="text-3xl font-bold text-cyan-400 font-display">{score}</div>
+        </div>
+        <div className="bg-white/5 p-4 rounded-2xl border border-white/10 flex flex-col items-center">
+          <div className="text-xs text-slate-500 uppercase tracking-widest mb-2">Best</div>
+          <div className="text-3xl font-bold text-yellow-400 font-display">{best?.score ?? 0}</div>
+        </div>
+      </div>
+
+      {won && hasNext && (
+        <button
+          onClick={onNext}
+          className="w-64 py-4 bg-gradient-to-r from-emerald-500 to-cyan-600 rounded-full font-bold text-xl shadow-lg shadow-emerald-500/40 active:scale-95 transition-all flex items-center justify-center gap-3"
+        >
+          Next Level <ChevronRight size={24} />
+        </button>
+      )}
+
+      <button
+        onClick={onRetry}
+        className={`${won && hasNext ? 'mt-4 px-5 py-2 glass-panel text-sm text-slate-300' : 'w-64 py-4 accent-gradient text-xl'} rounded-full font-bold active:scale-95 transition-all flex items-center justify-center gap-3`}
+      >
+        <RefreshCw size={won && hasNext ? 16 : 24} /> {won ? 'Play Again' : 'Retry'}
+      </button>
+
+      {!won && canUndo && (
+        <button
+          onClick={onUndo}
+          className="mt-4 px-5 py-2 glass-panel rounded-full text-sm font-bold text-amber-300 flex items-center gap-2 active:scale-95"
+        >
+          <Undo2 size={16} /> Undo Last Move ({COST_UNDO} <Key size={12} className="fill-amber-300" />)
+        </button>
+      )}
+
+      <button onClick={onBack} className="mt-6 text-slate-500 active:text-white text-sm p-4 flex items-center gap-2">
+        <Grid3x3 size={16} /> {backLabel}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Play, Pause, SkipBack, SkipForward, X, Download, AlertTriangle, Key, Archive
+} from 'lucide-react';
+import { AppSettings, GameAction, Replay, Theme } from '../types';
+import { buildReplayFrames } from '../services/replay';
+import { getPiece, getPieceCells } from '../services/gameEngine';
+import { getDisplayShape } from '../services/palette';
+import { getPowerUpCells, getPowerUpInfo } from '../services/powerUps';
+import { getModeInfo } from '../services/modes';
+import { Board } from './Board';
+import { PieceView } from './PieceView';
+
+interface ReplayViewerProps {
+  replay: Replay;
+  settings: AppSettings;
+  theme: Theme;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+const BASE_STEP_MS = 800;
+
+const describeAction = (action: GameAction): string => {
+  switch (action.type) {
+    case 'place': return `Place ${action.source === 'hold' ? 'hold' : `piece ${action.source + 1}`} at ${action.x + 1},${action.y + 1}`;
+    case 'hold': return `Hold piece ${action.source + 1}`;
+    case 'rotate': return `Flip ${action.source === 'hold' ? 'hold' : `piece ${action.source + 1}`}`;
+    case 'powerUp': return `${getPowerUpInfo(action.powerUp).label}${action.powerUp === 'reroll' ? '' : ` at ${action.x + 1},${action.y + 1}`}`;
+    case 'spawn': return 'Restock';
+    case 'undo': return 'Undo';
+    case 'redo': return 'Redo';
+    case 'tick': return `Clock ${Math.round(action.ms / 100) / 10}s`;
+    case 'garbage': return `${action.rows} garbage row${action.rows === 1 ? '' : 's'}`;
+    case 'newGame': return 'New game';
+  }
+};
+
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, settings, theme, onExport, onClose }) => {
+  const frames = useMemo(() => buildReplayFrames(replay), [replay]);
+  const lastStep = frames.length - 1;
+
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // Auto-advance while playing, stop at the end
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (step >= lastStep) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep(s => Math.min(s + 1, lastStep)), BASE_STEP_MS / speed);
+    return () => clearTimeout(timer);
+  }, [isPlaying, step, speed, lastStep]);
+
+  const frame = frames[step];
+  const nextAction = replay.actions[step];
+  const isDesynced = frames[lastStep].score !== replay.finalScore;
+
+  // Show where the upcoming placement will land
+  const nextPiece = nextAction?.type === 'place' ? getPiece(frame, nextAction.source) : null;
+  const previewCells = nextAction?.type === 'place' && nextPiece
+    ? getPieceCells(nextPiece, nextAction.x, nextAction.y)
+    : [];
+  const targetCells = nextAction?.type === 'powerUp'
+    ? getPowerUpCells(frame.grid, nextAction.powerUp, nextAction.x, nextAction.y, nextAction.axis)
+    : [];
+
+  const stepBy = (delta: number) => {
+    setIsPlaying(false);
+    setStep(s => Math.max(0, Math.min(lastStep, s + delta)));
+  };
+
+  const togglePlay = () => {
+    if (step >= lastStep) setStep(0);
+    setIsPlaying(p => !p);
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 theme-bg flex flex-col items-center justify-between text-slate-100 overflow-hidden">
+      <header className="w-full max-w-lg flex items-center justify-between z-10 p-4 pt-6">
+        <div className="glass-panel px-5 py-2 rounded-xl flex flex-col items-start min-w-[120px]">
+           <span className="text-[10px] text-slate-400 font-display uppercase tracking-widest">
+             Replay · {getModeInfo(replay.config.mode).label} #{replay.config.seed.toString(36)}
+           </span>
+           <span className="text-2xl font-bold font-display accent-text glow-text">
+             {frame.score}
+           </span>
+        </div>
+
+        <div className="flex items-center gap-3">
+            <div className="glass-panel px-4 py-2 rounded-full flex items-center gap-2 text-amber-400 border-amber-500/30 bg-amber-500/10">
+                <Key size={18} className="fill-amber-400" />
+                <span className="font-bold text-lg font-display">{frame.keys}</span>
+            </div>
+            <button onClick={onExport} className="glass-panel p-2 rounded-full text-cyan-400 active:scale-95" aria-label="Export replay">
+                <Download size={18} />
+            </button>
+            <button onClick={onClose} className="glass-panel p-2 rounded-full text-slate-400 active:scale-95" aria-label="Close replay">
+                <X size={18} />
+            </button>
+        </div>
+      </header>
+
+      <main className="w-full max-w-lg relative z-10 flex-1 flex flex-col items-center justify-start pt-4 px-4 gap-4">
+        {isDesynced && (
+            <div className="w-full glass-panel p-3 rounded-xl border-l-4 border-l-rose-400 flex gap-3 items-center text-xs text-rose-200">
+                <AlertTriangle size={16} className="text-rose-400 shrink-0" />
+                Replay ends on {frames[lastStep].score} but was recorded with {replay.finalScore}. The rules may have changed since.
+            </div>
+        )}
+
+        <Board 
+          grid={frame.grid} 
+          previewCells={previewCells} 
+          targetCells={targetCells}
+          regionClears={frame.board.regionClears} 
+          showGlyphs={settings.showGlyphs}
+          highContrast={settings.highContrast}
+          palette={theme.pieces}
+          glow={theme.glow}
+        />
+
+        <div className="w-full flex items-center gap-3 h-20">
+            <div className="w-16 h-16 glass-panel rounded-xl flex items-center justify-center shrink-0">
+                {frame.holdPiece ? <PieceView shape={getDisplayShape(frame.holdPiece, settings.highContrast, theme.pieces)} size="sm" /> : <Archive size={18} className="text-slate-600" />}
+            </div>
+            <div className="flex-1 flex justify-around items-center h-full glass-panel rounded-xl bg-slate-900/50">
+                {frame.availablePieces.map(piece => (
+                    <PieceView key={piece.id} shape={getDisplayShape(piece, settings.highContrast, theme.pieces)} size="sm" />
+                ))}
+            </div>
+        </div>
+
+        <div className="text-xs text-slate-400 font-display uppercase tracking-widest h-4">
+            {nextAction ? `Next: ${describeAction(nextAction)}` : 'End of game'}
+        </div>
+      </main>
+
+      <footer className="w-full max-w-lg pb-6 pt-2 px-4 z-10">
+        <div className="glass-panel rounded-2xl p-4 flex flex-col gap-3 bg-slate-900/50">
+            <input
+              type="range"
+              min={0}
+              max={lastStep}
+              value={step}
+              onChange={(e) => { setIsPlaying(false); setStep(Number(e.target.value)); }}
+              className="w-full accent-cyan-400"
+              aria-label="Scrub replay"
+            />
+            <div className="flex items-center justify-between">
+                <span className="text-xs text-slate-500 font-display w-24">{step}/{lastStep}</span>
+                <div className="flex items-center gap-2">
+                    <button onClick={() => stepBy(-1)} disabled={step === 0} className="p-2 rounded-lg glass-panel active:scale-95 disabled:opacity-40" aria-label="Step back">
+                        <SkipBack size={18} />
+                    </button>
+                    <button onClick={togglePlay} className="p-3 rounded-full accent-gradient text-white active:scale-95" aria-label={isPlaying ? 'Pause' : 'Play'}>
+                        {isPlaying ? <Pause size={20} /> : <Play size={20} className="fill-white" />}
+                    </button>
+                    <button onClick={() => stepBy(1)} disabled={step === lastStep} className="p-2 rounded-lg glass-panel active:scale-95 disabled:opacity-40" aria-label="Step forward">
+                        <SkipForward size={18} />
+                    </button>
+                </div>
+                <div className="flex gap-1 w-24 justify-end">
+                    {SPEEDS.map(s => (
+                        <button
+                          key={s}
+                          onClick={() => setSpeed(s)}
+                          className={`text-[10px] font-bold px-1 rounded ${speed === s ? 'accent-text' : 'text-slate-500'}`}
+                        >
+                          {s}x
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </div>
+      </footer>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React from 'react';
+import { X, Settings, Volume2 } from 'lucide-react';
+import { AppSettings } from '../types';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+interface ToggleRowProps {
+  label: string;
+  description: string;
+  checked: boolean;
+  onToggle: () => void;
+}
+
+const ToggleRow: React.FC<ToggleRowProps> = ({ label, description, checked, onToggle }) => (
+  <button
+    role="switch"
+    aria-checked={checked}
+    onClick={onToggle}
+    className="w-full flex items-center justify-between gap-4 py-3 text-left"
+  >
+    <span>
+      <span className="block text-sm text-slate-200 font-bold">{label}</span>
+      <span className="block text-xs text-slate-500">{description}</span>
+    </span>
+    <span className={`shrink-0 w-10 h-6 rounded-full p-1 transition-all ${checked ? 'bg-cyan-500' : 'bg-slate-700'}`}>
+      <span className={`block w-4 h-4 rounded-full bg-white transition-all ${checked ? 'translate-x-4' : ''}`} />
+    </span>
+  </button>
+);
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const toggle = (key: keyof AppSettings) => onChange({ ...settings, [key]: !settings[key] });
+
+  return (
+    <div role="dialog" aria-label="Settings" className="absolute inset-0 z-[60] bg-slate-900/95 backdrop-blur-xl flex flex-col items-center p-6 overflow-y-auto">
+      <div className="w-full max-w-sm flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-display font-bold text-white flex items-center gap-2">
+          <Settings size={22} className="text-cyan-400" /> Settings
+        </h2>
+        <button onClick={onClose} aria-label="Close settings" className="glass-panel p-2 rounded-full text-slate-400 active:scale-95">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="w-full max-w-sm glass-panel rounded-2xl px-4 divide-y divide-white/10">
+        <ToggleRow
+          label="Piece Glyphs"
+          description="Show a pattern on every block so pieces differ by shape, not only color"
+          checked={settings.showGlyphs}
+          onToggle={() => toggle('showGlyphs')}
+        />
+        <ToggleRow
+          label="High Contrast"
+          description="Swap to a high-contrast palette on a black board"
+          checked={settings.highContrast}
+          onToggle={() => toggle('highContrast')}
+        />
+        <ToggleRow
+          label="Reduce Motion"
+          description="Turn off particle effects and celebrations. Always on when your system asks for reduced motion"
+          checked={settings.reduceMotion}
+          onToggle={() => toggle('reduceMotion')}
+        />
+      </div>
+
+      <h3 className="w-full max-w-sm mt-6 mb-2 text-xs font-bold uppercase tracking-widest text-slate-400 flex items-center gap-2">
+        <Volume2 size={14} /> Sound
+      </h3>
+      <div className="w-full max-w-sm glass-panel rounded-2xl px-4 divide-y divide-white/10">
+        <ToggleRow
+          label="Mute"
+          description="Silence all sound and music"
+          checked={settings.muted}
+          onToggle={() => toggle('muted')}
+        />
+        <label className={`block py-3 ${settings.muted ? 'opacity-50' : ''}`}>
+          <span className="flex justify-between text-sm text-slate-200 font-bold">
+            Volume <span className="text-slate-400 font-mono">{Math.round(settings.volume * 100)}%</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings.volume}
+            disabled={settings.muted}
+            onChange={e => onChange({ ...settings, volume: Number(e.target.value) })}
+            className="w-full mt-2 accent-cyan-400"
+          />
+        </label>
+        <ToggleRow
+          label="Interface Sounds"
+          description="Clicks when picking up pieces and moving over the board"
+          checked={settings.interfaceSounds}
+          onToggle={() => toggle('interfaceSounds')}
+        />
+        <ToggleRow
+          label="Game Sounds"
+          description="Drops, line clears, keys, rotations and game over"
+          checked={settings.gameSounds}
+          onToggle={() => toggle('gameSounds')}
+        />
+        <ToggleRow
+          label="Music"
+          description="A soundtrack that builds up as the board fills"
+          checked={settings.music}
+          onToggle={() => toggle('music')}
+        />
+      </div>
+    </div>
+  );
+};
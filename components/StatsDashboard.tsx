@@ -0,0 +1,209 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, BarChart3, Trash2 } from 'lucide-react';
+import { GameMode, GameRecord } from '../types';
+import { GAME_MODES, GRID_SIZE } from '../constants';
+import { aggregateHeatmap, getStreaks, summarizeRecords } from '../services/gameStats';
+import { clearGameRecords, loadGameRecords } from '../services/statsStore';
+
+interface StatsDashboardProps {
+  onClose: () => void;
+}
+
+type ModeFilter = GameMode | 'all';
+
+const CHART_GAMES = 50; // Most recent games shown in the score chart
+const TREND_WINDOW = 5;
+
+const MODE_LABELS: Record<ModeFilter, string> = {
+  all: 'All', classic: 'Classic', daily: 'Daily', puzzle: 'Puzzle', blitz: 'Blitz', zen: 'Zen', survival: 'Survival',
+};
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+};
+
+const Tile: React.FC<{ label: string, value: React.ReactNode }> = ({ label, value }) => (
+  <div className="bg-white/5 p-3 rounded-xl border border-white/10 flex flex-col items-center">
+    <div className="text-[10px] text-slate-500 uppercase tracking-widest mb-1 text-center">{label}</div>
+    <div className="text-lg font-bold text-cyan-300 font-display">{value}</div>
+  </div>
+);
+
+const Section: React.FC<{ title: string, children: React.ReactNode }> = ({ title, children }) => (
+  <div className="w-full glass-panel rounded-2xl p-4">
+    <h3 className="text-[10px] text-slate-400 uppercase tracking-widest font-bold mb-3">{title}</h3>
+    {children}
+  </div>
+);
+
+// Score per game with a moving average on top
+const ScoreChart: React.FC<{ scores: number[] }> = ({ scores }) => {
+  if (scores.length < 2) return <p className="text-xs text-slate-500">Play a few more games to see a trend.</p>;
+
+  const max = Math.max(...scores, 1);
+  const point = (value: number, i: number) => `${(i / (scores.length - 1)) * 100},${40 - (value / max) * 38}`;
+  const trend = scores.map((_, i) => {
+    const window = scores.slice(Math.max(0, i - TREND_WINDOW + 1), i + 1);
+    return window.reduce((a, b) => a + b, 0) / window.length;
+  });
+
+  return (
+    <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-32" role="img" aria-label={`Scores of the last ${scores.length} games, up to ${max}`}>
+      <polyline points={scores.map(point).join(' ')} fill="none" stroke="#06b6d4" strokeWidth="0.6" vectorEffect="non-scaling-stroke" />
+      <polyline points={trend.map(point).join(' ')} fill="none" stroke="#f59e0b" strokeWidth="1" strokeDasharray="2 1" vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
+const LinesChart: React.FC<{ linesBySize: Record<number, number> }> = ({ linesBySize }) => {
+  const sizes = Object.keys(linesBySize).map(Number).sort((a, b) => a - b);
+  if (sizes.length === 0) return <p className="text-xs text-slate-500">No lines cleared yet.</p>;
+
+  const max = Math.max(...sizes.map(size => linesBySize[size]));
+  return (
+    <div className="flex items-end gap-2 h-24">
+      {sizes.map(size => (
+        <div key={size} className="flex-1 flex flex-col items-center justify-end h-full gap-1">
+          <span className="text-[10px] text-slate-400 font-display">{linesBySize[size]}</span>
+          <div className="w-full rounded-t-md bg-purple-500/70" style={{ height: `${(linesBySize[size] / max) * 100}%` }} />
+          <span className="text-[10px] text-slate-500 uppercase">{size}x</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const Heatmap: React.FC<{ heat: number[][] }> = ({ heat }) => {
+  const max = Math.max(1, ...heat.flat());
+  return (
+    <div
+      className="grid gap-0.5 w-full max-w-[240px] mx-auto aspect-square"
+      style={{ gridTemplateColumns: `repeat(${heat.length}, minmax(0, 1fr))` }}
+    >
+      {heat.flatMap((row, y) => row.map((count, x) => (
+        <div
+          key={`${x}-${y}`}
+          title={`Row ${y + 1}, column ${x + 1}: ${count}`}
+          className="rounded-sm"
+          style={{ backgroundColor: `rgba(6, 182, 212, ${0.05 + (count / max) * 0.85})` }}
+        />
+      )))}
+    </div>
+  );
+};
+
+export const StatsDashboard: React.FC<StatsDashboardProps> = ({ onClose }) => {
+  const [records, setRecords] = useState<GameRecord[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<ModeFilter>('all');
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  useEffect(() => {
+    loadGameRecords()
+      .then(setRecords)
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load stats'));
+  }, []);
+
+  const filtered = useMemo(
+    () => (records ?? []).filter(r => filter === 'all' || r.mode === filter),
+    [records, filter]
+  );
+  const summary = useMemo(() => summarizeRecords(filtered), [filtered]);
+  const streaks = useMemo(() => getStreaks(filtered), [filtered]);
+  const heat = useMemo(() => aggregateHeatmap(filtered, GRID_SIZE), [filtered]);
+
+  const handleClear = async () => {
+    if (!confirmClear) {
+      setConfirmClear(true);
+      return;
+    }
+    await clearGameRecords().catch(() => {});
+    setRecords([]);
+    setConfirmClear(false);
+  };
+
+  return (
+    <div role="dialog" aria-label="Statistics" className="absolute inset-0 z-[60] bg-slate-900/95 backdrop-blur-xl flex flex-col items-center p-6 overflow-y-auto">
+      <div className="w-full max-w-sm flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-display font-bold text-white flex items-center gap-2">
+          <BarChart3 size={22} className="text-cyan-400" /> Stats
+        </h2>
+        <button onClick={onClose} aria-label="Close stats" className="glass-panel p-2 rounded-full text-slate-400 active:scale-95">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="w-full max-w-sm flex flex-wrap gap-2 mb-4">
+        {(['all', ...GAME_MODES] as ModeFilter[]).map(m => (
+          <button
+            key={m}
+            onClick={() => setFilter(m)}
+            aria-pressed={filter === m}
+            className={`flex-1 min-w-[22%] py-1.5 rounded-full text-xs font-bold border transition-all ${
+              filter === m ? 'border-cyan-400 text-cyan-300 bg-cyan-500/10' : 'border-white/10 text-slate-400'
+            }`}
+          >
+            {MODE_LABELS[m]}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-xs text-rose-400">Stats unavailable: {error}</p>}
+      {!error && records === null && <p className="text-xs text-slate-500 animate-pulse">Loading...</p>}
+      {!error && records !== null && filtered.length === 0 && (
+        <p className="text-sm text-slate-500 mt-8">No finished games yet. Stats appear after your first game over.</p>
+      )}
+
+      {filtered.length > 0 && (
+        <div className="w-full max-w-sm flex flex-col gap-4">
+          <div className="grid grid-cols-3 gap-2">
+            <Tile label="Games" value={summary.games} />
+            <Tile label="Avg Score" value={Math.round(summary.averageScore)} />
+            <Tile label="Best" value={summary.bestScore} />
+            <Tile label="Avg Time" value={formatDuration(summary.averageDurationMs)} />
+            <Tile label="Avg Pieces" value={summary.averagePieces.toFixed(1)} />
+            <Tile label="Avg Lines" value={summary.averageLines.toFixed(1)} />
+          </div>
+
+          <Section title="Streaks">
+            <div className="grid grid-cols-3 gap-2">
+              <Tile label="Days Now" value={streaks.currentDays} />
+              <Tile label="Best Days" value={streaks.bestDays} />
+              <Tile label="Rising Scores" value={streaks.bestImproving} />
+            </div>
+          </Section>
+
+          <Section title={`Score, last ${Math.min(CHART_GAMES, filtered.length)} games`}>
+            <ScoreChart scores={filtered.slice(-CHART_GAMES).map(r => r.score)} />
+          </Section>
+
+          <Section title="Clears by size">
+            <LinesChart linesBySize={summary.linesBySize} />
+          </Section>
+
+          <Section title={`Placements, ${GRID_SIZE}x${GRID_SIZE} board`}>
+            <Heatmap heat={heat} />
+          </Section>
+
+          <Section title="Economy">
+            <div className="grid grid-cols-2 gap-2">
+              <Tile label="Keys Earned" value={summary.keysEarned} />
+              <Tile label="Keys Spent" value={summary.keysSpent} />
+              <Tile label="Best Combo" value={`${summary.bestCombo}x`} />
+              <Tile label="Holds" value={summary.holdsUsed} />
+              <Tile label="Hints" value={summary.hintsRequested} />
+            </div>
+          </Section>
+
+          <button
+            onClick={handleClear}
+            className={`self-center text-sm p-2 flex items-center gap-2 ${confirmClear ? 'text-rose-400' : 'text-slate-500 active:text-white'}`}
+          >
+            <Trash2 size={14} /> {confirmClear ? 'Tap again to erase all stats' : 'Clear History'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
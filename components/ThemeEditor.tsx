@@ -0,0 +1,135 @@
+import React from 'react';
+import { X, Palette } from 'lucide-react';
+import { Grid, Theme, ThemeColor, ThemeFont } from '../types';
+import { COLORS, THEME_COLORS, THEME_FONTS } from '../constants';
+import { getColorName } from '../services/palette';
+import { BUILT_IN_THEMES } from '../services/themes';
+import { Board } from './Board';
+
+interface ThemeEditorProps {
+  theme: Theme; // The custom theme, applied to the page while it's edited
+  onChange: (theme: Theme) => void;
+  onClose: () => void;
+}
+
+// A few blocks in every piece color so the palette and glow can be judged
+const PREVIEW_GRID: Grid = Array.from({ length: 6 }, (_, y) =>
+  Array.from({ length: 6 }, (_, x) => ((x + y) % 3 === 0 || y === 5 ? COLORS[(x + y) % COLORS.length] : null))
+);
+
+const ColorField: React.FC<{ label: string, value: string, onChange: (value: string) => void }> = ({ label, value, onChange }) => (
+  <label className="flex items-center justify-between gap-3 py-1 text-sm text-slate-300">
+    {label}
+    <input
+      type="color"
+      value={value.slice(0, 7)}
+      onChange={e => onChange(e.target.value)}
+      className="w-10 h-7 rounded bg-transparent border border-white/10 cursor-pointer"
+    />
+  </label>
+);
+
+export const ThemeEditor: React.FC<ThemeEditorProps> = ({ theme, onChange, onClose }) => {
+  const set = (patch: Partial<Theme>) => onChange({ ...theme, ...patch });
+
+  return (
+    <div role="dialog" aria-label="Theme editor" className="absolute inset-0 z-[60] bg-slate-900/95 backdrop-blur-xl flex flex-col items-center p-6 overflow-y-auto">
+      <div className="w-full max-w-sm flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-display font-bold text-white flex items-center gap-2">
+          <Palette size={22} className="text-cyan-400" /> Custom Theme
+        </h2>
+        <button onClick={onClose} aria-label="Close theme editor" className="glass-panel p-2 rounded-full text-slate-400 active:scale-95">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="w-full max-w-sm flex flex-col gap-4">
+        {/* Live preview */}
+        <div className="rounded-2xl p-4 flex gap-4 items-center" style={{ backgroundColor: theme.background }}>
+          <div className="w-32 shrink-0">
+            <Board grid={PREVIEW_GRID} palette={theme.pieces} glow={theme.glow} />
+          </div>
+          <div className="flex flex-col gap-2 min-w-0">
+            <span className="text-2xl font-bold font-display accent-text glow-text">1250</span>
+            <span className="px-4 py-1 rounded-full text-xs font-bold accent-gradient text-center">Play</span>
+          </div>
+        </div>
+
+        <div className="glass-panel rounded-2xl p-4 flex flex-col gap-2">
+          <span className="text-[10px] text-slate-500 uppercase tracking-widest">Start From</span>
+          <div className="flex flex-wrap gap-2">
+            {BUILT_IN_THEMES.map(preset => (
+              <button
+                key={preset.id}
+                onClick={() => onChange({ ...preset, id: theme.id, name: theme.name, pieces: [...preset.pieces] })}
+                className="px-3 py-1 rounded-full text-xs font-bold border border-white/10 text-slate-300 active:scale-95"
+              >
+                {preset.name}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="glass-panel rounded-2xl p-4 flex flex-col gap-2">
+          <span className="text-[10px] text-slate-500 uppercase tracking-widest">Accent</span>
+          <div className="flex gap-3" role="radiogroup" aria-label="Accent color">
+            {(Object.keys(THEME_COLORS) as ThemeColor[]).map(accent => (
+              <button
+                key={accent}
+                role="radio"
+                aria-checked={theme.accent === accent}
+                aria-label={accent}
+                onClick={() => set({ accent })}
+                className={`w-8 h-8 rounded-full shadow-lg border-2 active:scale-90 ${THEME_COLORS[accent].classes} ${
+                  theme.accent === accent ? 'border-white' : 'border-transparent'
+                }`}
+              />
+            ))}
+          </div>
+
+          <span className="text-[10px] text-slate-500 uppercase tracking-widest mt-2">Font</span>
+          <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Font">
+            {(Object.keys(THEME_FONTS) as ThemeFont[]).map(font => (
+              <button
+                key={font}
+                role="radio"
+                aria-checked={theme.font === font}
+                onClick={() => set({ font })}
+                className={`py-2 rounded-lg text-xs border ${theme.font === font ? 'border-white text-white' : 'border-white/10 text-slate-400'}`}
+                style={{ fontFamily: THEME_FONTS[font].display }}
+              >
+                {THEME_FONTS[font].label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="glass-panel rounded-2xl p-4 flex flex-col">
+          <ColorField label="Background" value={theme.background} onChange={background => set({ background })} />
+          {/* The picker has no alpha; the board keeps its translucency */}
+          <ColorField label="Board" value={theme.board} onChange={board => set({ board: board + (theme.board.slice(7) || 'b3') })} />
+          {theme.pieces.map((color, i) => (
+            <ColorField
+              key={i}
+              label={`Piece: ${getColorName(COLORS[i])}`}
+              value={color}
+              onChange={value => set({ pieces: theme.pieces.map((c, j) => (j === i ? value : c)) })}
+            />
+          ))}
+          <label className="flex items-center justify-between gap-3 py-1 text-sm text-slate-300">
+            Cell Glow
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.1}
+              value={theme.glow}
+              onChange={e => set({ glow: Number(e.target.value) })}
+              className="w-32"
+            />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
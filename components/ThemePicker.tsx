@@ -0,0 +1,44 @@
+import React from 'react';
+import { Pencil } from 'lucide-react';
+import { Theme } from '../types';
+import { THEME_COLORS } from '../constants';
+import { CUSTOM_THEME_ID } from '../services/themes';
+
+interface ThemePickerProps {
+  themes: Theme[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onCustomize: () => void; // The custom swatch opens the editor
+}
+
+// Swatch row for the start screen; choosing a theme restyles the page behind it at once
+export const ThemePicker: React.FC<ThemePickerProps> = ({ themes, selectedId, onSelect, onCustomize }) => (
+  <div role="radiogroup" aria-label="Theme" className="flex gap-2 overflow-x-auto pb-1">
+    {themes.map(theme => {
+      const selected = theme.id === selectedId;
+      return (
+        <button
+          key={theme.id}
+          role="radio"
+          aria-checked={selected}
+          onClick={() => (theme.id === CUSTOM_THEME_ID ? onCustomize() : onSelect(theme.id))}
+          className={`shrink-0 w-16 rounded-xl p-1.5 border-2 flex flex-col items-center gap-1 active:scale-95 transition-all ${
+            selected ? 'border-white' : 'border-white/10'
+          }`}
+          style={{ backgroundColor: theme.background }}
+        >
+          <span className={`w-full h-1.5 rounded-full shadow ${THEME_COLORS[theme.accent].classes}`} />
+          <span className="flex gap-0.5">
+            {theme.pieces.map((color, i) => (
+              <span key={i} className="w-2 h-2 rounded-sm" style={{ backgroundColor: color }} />
+            ))}
+          </span>
+          <span className="text-[9px] text-slate-200 font-bold flex items-center gap-0.5">
+            {theme.name}
+            {theme.id === CUSTOM_THEME_ID && <Pencil size={8} />}
+          </span>
+        </button>
+      );
+    })}
+  </div>
+);
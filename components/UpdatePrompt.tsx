@@ -0,0 +1,30 @@
+import React from 'react';
+import { RefreshCw, X } from 'lucide-react';
+
+interface UpdatePromptProps {
+  onReload: () => void;
+  onDismiss: () => void;
+}
+
+export const UpdatePrompt: React.FC<UpdatePromptProps> = ({ onReload, onDismiss }) => (
+  <div className="fixed bottom-4 inset-x-0 z-[90] flex justify-center px-4 pointer-events-none">
+    <div
+      role="status"
+      className="pointer-events-auto w-full max-w-sm glass-panel p-3 rounded-xl border-l-4 border-l-cyan-400 flex gap-3 items-center shadow-xl bg-slate-900/90 animate-in slide-in-from-bottom-4 fade-in duration-300"
+    >
+      <div className="flex-1">
+        <div className="text-sm font-bold text-white">Update available</div>
+        <div className="text-xs text-slate-400">Reload to play the new version. A game in progress is saved.</div>
+      </div>
+      <button
+        onClick={onReload}
+        className="px-3 py-1.5 accent-gradient rounded-full text-xs font-bold flex items-center gap-1 active:scale-95"
+      >
+        <RefreshCw size={14} /> Reload
+      </button>
+      <button onClick={onDismiss} aria-label="Later" className="p-1 text-slate-500 active:text-white">
+        <X size={16} />
+      </button>
+    </div>
+  </div>
+);
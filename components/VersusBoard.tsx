@@ -0,0 +1,138 @@
+import React from 'react';
+import { Archive, Key, RotateCcw, Trophy, Zap } from 'lucide-react';
+import { AppSettings, GameState, PieceSource, Theme, VersusCursor } from '../types';
+import { COST_ROTATE } from '../constants';
+import { getPiece, getPieceCells } from '../services/gameEngine';
+import { canPlacePiece } from '../services/board';
+import { getDisplayShape } from '../services/palette';
+import { Board, BoardCursor } from './Board';
+import { PieceView } from './PieceView';
+
+interface VersusBoardProps {
+  label: string;
+  state: GameState;
+  wins?: number; // Rounds won, when the match has rounds
+  active: boolean; // Accepting input right now
+  usesPointer: boolean; // Tap a piece, then tap the board
+  cursor: VersusCursor | null; // Keyboard/gamepad ghost, when this board has one
+  selected: PieceSource | null;
+  incoming: number; // Garbage rows just received, flashed over the board
+  settings: AppSettings;
+  theme: Theme;
+  onSelect: (source: PieceSource) => void;
+  onCellClick: (x: number, y: number) => void;
+  onRotate: () => void;
+  onHold: () => void;
+}
+
+// One player's side of a versus match: status, board and tray
+export const VersusBoard: React.FC<VersusBoardProps> = ({
+  label, state, wins, active, usesPointer, cursor, selected, incoming, settings, theme, onSelect, onCellClick, onRotate, onHold
+}) => {
+  const cursorPiece = cursor ? getPiece(state, cursor.source) : null;
+  const boardCursor: BoardCursor | null = cursor && cursorPiece ? {
+    x: cursor.x,
+    y: cursor.y,
+    width: cursorPiece.matrix[0].length,
+    height: cursorPiece.matrix.length,
+    valid: canPlacePiece(state.grid, cursorPiece, cursor.x, cursor.y),
+  } : null;
+  const previewCells = cursor && cursorPiece && boardCursor?.valid ? getPieceCells(cursorPiece, cursor.x, cursor.y) : [];
+  const display = (source: PieceSource) => {
+    const piece = getPiece(state, source);
+    return piece && getDisplayShape(piece, settings.highContrast, theme.pieces);
+  };
+  const hold = display('hold');
+
+  return (
+    <section
+      aria-label={`${label}${active ? ', your move' : ''}`}
+      className={`w-full flex flex-col gap-2 transition-opacity ${active || state.isGameOver ? '' : 'opacity-50'}`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className={`font-display font-bold text-sm ${active ? 'accent-text' : 'text-slate-400'}`}>{label}</span>
+          {wins !== undefined && (
+            <span className="flex items-center gap-0.5 text-yellow-400 text-xs font-bold" aria-label={`${wins} rounds won`}>
+              <Trophy size={12} /> {wins}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2 text-xs font-display font-bold">
+          {state.combo > 1 && (
+            <span className="flex items-center gap-0.5 text-purple-400"><Zap size={12} className="fill-purple-400" />{state.combo}x</span>
+          )}
+          <span className="flex items-center gap-0.5 text-amber-400"><Key size={12} className="fill-amber-400" />{state.keys}</span>
+          <span className="text-white text-base">{state.score}</span>
+        </div>
+      </div>
+
+      <div className="relative">
+        <Board
+          grid={state.grid}
+          previewCells={previewCells}
+          cursor={boardCursor}
+          onCellClick={usesPointer && active ? onCellClick : undefined}
+          regionClears={state.board.regionClears}
+          showGlyphs={settings.showGlyphs}
+          highContrast={settings.highContrast}
+          palette={theme.pieces}
+          glow={theme.glow}
+        />
+        {incoming > 0 && (
+          <div aria-hidden="true" className="absolute inset-x-0 bottom-0 h-1/4 rounded-b-2xl pointer-events-none bg-gradient-to-t from-rose-500/40 to-transparent animate-pulse" />
+        )}
+        {state.isGameOver && (
+          <div className="absolute inset-0 rounded-2xl bg-slate-900/70 flex items-center justify-center font-display font-bold text-rose-400 text-2xl">
+            Topped Out
+          </div>
+        )}
+      </div>
+
+      <div className="w-full flex items-center gap-2 h-16">
+        <button
+          onClick={() => hold && onSelect('hold')}
+          disabled={!usesPointer || !active || !hold}
+          aria-label="Hold piece"
+          className={`w-14 h-14 glass-panel rounded-xl flex items-center justify-center shrink-0 border ${
+            selected === 'hold' || cursor?.source === 'hold' ? 'border-cyan-400' : 'border-transparent'
+          }`}
+        >
+          {hold ? <PieceView shape={hold} size="sm" /> : <Archive size={16} className="text-slate-600" />}
+        </button>
+        <div className="flex-1 flex justify-around items-center h-full glass-panel rounded-xl bg-slate-900/50">
+          {state.availablePieces.map((piece, i) => (
+            <div key={piece.id} className={`rounded-lg p-1 border ${cursor?.source === i ? 'border-cyan-400' : 'border-transparent'}`}>
+              <PieceView
+                shape={getDisplayShape(piece, settings.highContrast, theme.pieces)}
+                size="sm"
+                selected={selected === i}
+                onPointerDown={usesPointer && active ? () => onSelect(i) : undefined}
+              />
+            </div>
+          ))}
+        </div>
+        {usesPointer && (
+          <div className="flex flex-col gap-1 shrink-0">
+            <button
+              onClick={onRotate}
+              disabled={!active || selected === null || state.keys < COST_ROTATE}
+              aria-label={`Flip selected piece (${COST_ROTATE} keys)`}
+              className="glass-panel p-1.5 rounded-full text-slate-300 active:scale-90 disabled:opacity-30"
+            >
+              <RotateCcw size={14} />
+            </button>
+            <button
+              onClick={onHold}
+              disabled={!active || typeof selected !== 'number'}
+              aria-label="Move selected piece to hold"
+              className="glass-panel p-1.5 rounded-full text-slate-300 active:scale-90 disabled:opacity-30"
+            >
+              <Archive size={14} />
+            </button>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,299 @@
+import React, { useEffect, useState } from 'react';
+import { Swords, X, Trophy, RefreshCw, Play, Home } from 'lucide-react';
+import {
+  AppSettings, BoardConfig, GameAction, InputAction, KeyBindings, PieceSource, Theme, VersusConfig, VersusCursor, VersusInput, VersusSide
+} from '../types';
+import { getPiece } from '../services/gameEngine';
+import { canPlacePiece } from '../services/board';
+import {
+  VERSUS_ROUNDS, VersusPlayers, clampCursor, getMatchWinner, getRoundWinner, getTapPlacement, otherSide, playTurn,
+  resolveCursorInput, startRound
+} from '../services/versus';
+import { playSound } from '../services/audio';
+import { useInputActions } from '../hooks/useInputActions';
+import { VersusBoard } from './VersusBoard';
+
+interface VersusMatchProps {
+  board: BoardConfig;
+  bindings: KeyBindings;
+  settings: AppSettings;
+  theme: Theme;
+  onExit: () => void;
+}
+
+type MatchPhase = 'setup' | 'playing' | 'roundOver';
+
+const PLAYER_LABELS = ['Player 1', 'Player 2'];
+
+const INPUT_OPTIONS: { id: VersusInput; label: string; description: string }[] = [
+  { id: 'hotseat', label: 'Hot-Seat', description: 'Take turns, one placement each. Pointer or keyboard plays the active board.' },
+  { id: 'split', label: 'Split', description: 'Play at the same time: Player 1 taps, Player 2 uses the keyboard or a gamepad.' },
+];
+
+const INCOMING_FLASH_MS = 700;
+
+export const VersusMatch: React.FC<VersusMatchProps> = ({ board, bindings, settings, theme, onExit }) => {
+  const [phase, setPhase] = useState<MatchPhase>('setup');
+  const [config, setConfig] = useState<VersusConfig>({ rounds: 3, input: 'hotseat', board });
+  const [players, setPlayers] = useState<VersusPlayers>(() => startRound(board));
+  const [wins, setWins] = useState<[number, number]>([0, 0]);
+  const [turn, setTurn] = useState<VersusSide>(0);
+  const [roundWinner, setRoundWinner] = useState<VersusSide | null>(null);
+  const [selected, setSelected] = useState<PieceSource | null>(null); // Pointer player's pick
+  const [rawCursor, setRawCursor] = useState<VersusCursor>({ source: 0, x: 0, y: 0 });
+  const [showCursor, setShowCursor] = useState(false);
+  const [incoming, setIncoming] = useState<[number, number]>([0, 0]);
+  const [status, setStatus] = useState('');
+
+  const isSplit = config.input === 'split';
+  const pointerSide: VersusSide = isSplit ? 0 : turn;
+  const keyboardSide: VersusSide = isSplit ? 1 : turn;
+  const cursor = clampCursor(rawCursor, players[keyboardSide]);
+  const matchWinner = getMatchWinner(wins, config.rounds);
+
+  useEffect(() => {
+    if (incoming[0] === 0 && incoming[1] === 0) return;
+    const timer = window.setTimeout(() => setIncoming([0, 0]), INCOMING_FLASH_MS);
+    return () => window.clearTimeout(timer);
+  }, [incoming]);
+
+  // --- Match flow ---
+
+  const beginRound = (first: VersusSide) => {
+    setPlayers(startRound(config.board));
+    setTurn(first);
+    setRoundWinner(null);
+    setSelected(null);
+    setRawCursor({ source: 0, x: 0, y: 0 });
+    setStatus(isSplit ? 'Go!' : `${PLAYER_LABELS[first]} to move.`);
+    setPhase('playing');
+  };
+
+  const startMatch = () => {
+    setWins([0, 0]);
+    beginRound(0);
+  };
+
+  const act = (side: VersusSide, action: GameAction): boolean => {
+    const result = playTurn(players, side, action);
+    if (!result) {
+      playSound('hoverInvalid');
+      return false;
+    }
+    setPlayers(result.players);
+
+    if (action.type === 'rotate' || action.type === 'hold') playSound(action.type);
+    result.events.forEach(event => {
+      if (event.type === 'piecePlaced') playSound('drop');
+      if (event.type === 'linesCleared') playSound('lineClear', result.players[side].combo - 1);
+    });
+    if (result.attack > 0) {
+      playSound('garbage');
+      const hit: [number, number] = [0, 0];
+      hit[otherSide(side)] = result.attack;
+      setIncoming(hit);
+      setStatus(`${PLAYER_LABELS[side]} sends ${result.attack} garbage row${result.attack === 1 ? '' : 's'}!`);
+    }
+
+    const winner = getRoundWinner(result.players);
+    if (winner !== null) {
+      playSound('gameOver');
+      const next: [number, number] = [wins[0], wins[1]];
+      next[winner] += 1;
+      setWins(next);
+      setRoundWinner(winner);
+      setStatus(`${PLAYER_LABELS[winner]} takes the round.`);
+      setPhase('roundOver');
+    } else if (action.type === 'place' && !isSplit) {
+      setTurn(otherSide(side));
+      setSelected(null);
+      if (result.attack === 0) setStatus(`${PLAYER_LABELS[otherSide(side)]} to move.`);
+    }
+    return true;
+  };
+
+  // --- Pointer: tap a piece, then the cell its center should cover ---
+
+  const handleSelect = (source: PieceSource) => {
+    setShowCursor(isSplit);
+    setSelected(current => (current === source ? null : source));
+  };
+
+  const handleCellClick = (x: number, y: number) => {
+    if (selected === null) return;
+    const placement = getTapPlacement(players[pointerSide], selected, x, y);
+    if (placement && act(pointerSide, placement)) setSelected(null);
+  };
+
+  const handleRotate = () => {
+    if (selected !== null) act(pointerSide, { type: 'rotate', source: selected });
+  };
+
+  const handleHold = () => {
+    if (typeof selected === 'number' && act(pointerSide, { type: 'hold', source: selected })) setSelected(null);
+  };
+
+  // --- Keyboard & gamepad ---
+
+  const handleInputAction = (action: InputAction) => {
+    const state = players[keyboardSide];
+    if (!cursor || state.isGameOver) return;
+    setShowCursor(true);
+    const input = resolveCursorInput(cursor, state, action);
+    if (!input) return;
+    if ('action' in input) {
+      act(keyboardSide, input.action);
+      return;
+    }
+    setRawCursor(input.cursor);
+    const piece = getPiece(state, input.cursor.source);
+    if (piece) playSound(canPlacePiece(state.grid, piece, input.cursor.x, input.cursor.y) ? 'hoverValid' : 'hoverInvalid');
+  };
+
+  useInputActions(bindings, handleInputAction, phase === 'playing');
+
+  // --- Render ---
+
+  const renderSide = (side: VersusSide) => {
+    const active = phase === 'playing' && !players[side].isGameOver && (isSplit || turn === side);
+    const label = isSplit ? `${PLAYER_LABELS[side]} · ${side === 0 ? 'Touch' : 'Keys'}` : PLAYER_LABELS[side];
+    return (
+      <VersusBoard
+        label={label}
+        state={players[side]}
+        wins={wins[side]}
+        active={active}
+        usesPointer={side === pointerSide}
+        cursor={side === keyboardSide && active && (showCursor || isSplit) ? cursor : null}
+        selected={side === pointerSide ? selected : null}
+        incoming={incoming[side]}
+        settings={settings}
+        theme={theme}
+        onSelect={handleSelect}
+        onCellClick={handleCellClick}
+        onRotate={handleRotate}
+        onHold={handleHold}
+      />
+    );
+  };
+
+  if (phase === 'setup') {
+    return (
+      <div role="dialog" aria-label="Versus setup" className="absolute inset-0 z-50 theme-bg flex flex-col items-center p-6 overflow-y-auto">
+        <div className="w-full max-w-sm flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-display font-bold text-white flex items-center gap-2">
+            <Swords size={22} className="text-rose-400" /> Versus
+          </h2>
+          <button onClick={onExit} aria-label="Close versus" className="glass-panel p-2 rounded-full text-slate-400 active:scale-95">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="w-full max-w-sm glass-panel rounded-2xl p-4 flex flex-col gap-4">
+          <div>
+            <span className="text-slate-400 uppercase text-xs tracking-wider">Match</span>
+            <div role="radiogroup" aria-label="Rounds" className="mt-2 flex gap-1 glass-panel rounded-full p-1">
+              {VERSUS_ROUNDS.map(rounds => (
+                <button
+                  key={rounds}
+                  role="radio"
+                  aria-checked={config.rounds === rounds}
+                  onClick={() => setConfig({ ...config, rounds })}
+                  className={`flex-1 py-1 rounded-full text-xs font-bold transition-all ${
+                    config.rounds === rounds ? 'accent-gradient text-white' : 'text-slate-400'
+                  }`}
+                >
+                  Best of {rounds}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <span className="text-slate-400 uppercase text-xs tracking-wider">Controls</span>
+            <div role="radiogroup" aria-label="Controls" className="mt-2 flex flex-col gap-2">
+              {INPUT_OPTIONS.map(option => (
+                <button
+                  key={option.id}
+                  role="radio"
+                  aria-checked={config.input === option.id}
+                  onClick={() => setConfig({ ...config, input: option.id })}
+                  className={`text-left px-3 py-2 rounded-xl border transition-all ${
+                    config.input === option.id ? 'border-rose-400/60 bg-rose-500/10' : 'border-white/10'
+                  }`}
+                >
+                  <span className="block text-sm font-bold text-slate-100">{option.label}</span>
+                  <span className="block text-xs text-slate-400">{option.description}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-xs text-slate-400">
+            {config.board.size}x{config.board.size} board{config.board.regionClears ? ' with 3x3 regions' : ''}, same pieces for both players.
+            Clearing two or more lines or chaining combos pushes garbage onto your opponent. Top out and you lose the round.
+          </p>
+        </div>
+
+        <button
+          onClick={startMatch}
+          className="mt-6 px-10 py-3 accent-gradient rounded-full font-bold text-lg active:scale-95 transition-all flex items-center gap-2"
+        >
+          <Play size={20} /> START MATCH
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="absolute inset-0 z-50 theme-bg flex flex-col items-center p-4 overflow-y-auto">
+      <header className="w-full max-w-4xl flex items-center justify-between mb-4">
+        <div className="glass-panel px-4 py-2 rounded-xl flex flex-col items-start">
+          <span className="text-[10px] text-slate-400 font-display uppercase tracking-widest">Versus · Best of {config.rounds}</span>
+          <span className="text-xl font-bold font-display accent-text">{wins[0]} – {wins[1]}</span>
+        </div>
+        <p className="flex-1 px-4 text-center text-xs text-slate-300 font-display uppercase tracking-widest" aria-live="polite">{status}</p>
+        <button onClick={onExit} aria-label="Leave match" className="glass-panel p-2 rounded-full text-slate-400 active:scale-95">
+          <X size={18} />
+        </button>
+      </header>
+
+      <div className="w-full max-w-4xl grid grid-cols-1 md:grid-cols-2 gap-6">
+        {renderSide(0)}
+        {renderSide(1)}
+      </div>
+
+      {phase === 'roundOver' && roundWinner !== null && (
+        <div role="dialog" aria-label="Round over" className="absolute inset-0 z-10 bg-slate-900/90 backdrop-blur-xl flex flex-col items-center justify-center p-6 text-center">
+          <Trophy size={64} className="text-yellow-400 mb-4 drop-shadow-[0_0_30px_rgba(250,204,21,0.6)]" />
+          <h2 className="text-4xl font-display font-bold text-white mb-2">
+            {matchWinner !== null ? `${PLAYER_LABELS[matchWinner]} Wins!` : `${PLAYER_LABELS[roundWinner]} takes the round`}
+          </h2>
+          <p className="text-slate-400 text-sm mb-2">
+            {players[0].score} – {players[1].score} this round
+          </p>
+          <div className="text-3xl font-bold font-display accent-text mb-8">{wins[0]} – {wins[1]}</div>
+
+          {matchWinner === null ? (
+            <button
+              onClick={() => beginRound(otherSide(roundWinner))}
+              className="w-64 py-4 accent-gradient rounded-full font-bold text-xl active:scale-95 transition-all flex items-center justify-center gap-3"
+            >
+              <Play size={24} /> Next Round
+            </button>
+          ) : (
+            <button
+              onClick={startMatch}
+              className="w-64 py-4 accent-gradient rounded-full font-bold text-xl active:scale-95 transition-all flex items-center justify-center gap-3"
+            >
+              <RefreshCw size={24} /> Rematch
+            </button>
+          )}
+          <button onClick={onExit} className="mt-4 px-6 py-2 glass-panel rounded-full text-sm font-bold text-slate-300 flex items-center gap-2 active:scale-95">
+            <Home size={16} /> Menu
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,19 +1,51 @@
-import { Shape } from './types';
+import { GameMode, Shape, ThemeColor, ThemeFont } from './types';
 
-export const GRID_SIZE = 8;
+export const GRID_SIZE = 8; // Default board size
+export const MIN_BOARD_SIZE = 6;
+export const MAX_BOARD_SIZE = 12;
+export const REGION_SIZE = 3; // Sudoku-style region edge
+export const REGION_POINTS = 150; // Per cleared region, scaled by combo
+export const TRAY_SIZE = 3; // Pieces dealt per restock
+export const STARTING_KEYS = 3; // Bonus keys at the start of a game
+export const GAME_MODES: GameMode[] = ['classic', 'daily', 'puzzle', 'blitz', 'zen', 'survival'];
 export const COST_ROTATE = 2; // Keys required to rotate
+export const COST_UNDO = 1; // Keys required to take back a move
+export const UNDO_LIMIT = 10; // Moves kept on the undo stack
 export const COST_SWAP_HOLD = 0; // Free to swap/hold usually, or make it cost keys
+export const COST_BOMB = 5; // Clears a 3x3 area
+export const COST_LINE_ERASER = 4; // Clears one row or column
+export const COST_REROLL = 3; // Deals a fresh tray
+export const COST_FILLER = 2; // Drops a single block anywhere
+export const FILLER_COLOR = '#e2e8f0';
+export const CLOCK_TICK_MS = 1000; // How often timed modes advance their clock
+export const BLITZ_DURATION_MS = 90000;
+export const BLITZ_CLEAR_BONUS_MS = 3000; // Per line or region cleared
+export const BLITZ_COMBO_BONUS_MS = 1000; // Per combo step beyond the first
+export const SURVIVAL_INTERVAL_MS = 12000; // Between garbage rows at the start
+export const SURVIVAL_MIN_INTERVAL_MS = 5000;
+export const SURVIVAL_SPEEDUP_MS = 500; // Interval lost per row pushed
+export const GARBAGE_COLOR = '#64748b';
+export const GARBAGE_POINTS = 20; // Per garbage block cleared
 
-export const THEME_COLORS = {
-  cyan: 'bg-cyan-500 shadow-cyan-500/50',
-  purple: 'bg-purple-500 shadow-purple-500/50',
-  emerald: 'bg-emerald-500 shadow-emerald-500/50',
-  rose: 'bg-rose-500 shadow-rose-500/50',
-  amber: 'bg-amber-500 shadow-amber-500/50',
+// Accents: Tailwind classes for swatches, plus the gradient stops behind the accent CSS variables
+export const THEME_COLORS: Record<ThemeColor, { classes: string; from: string; to: string }> = {
+  cyan: { classes: 'bg-cyan-500 shadow-cyan-500/50', from: '#06b6d4', to: '#2563eb' },
+  purple: { classes: 'bg-purple-500 shadow-purple-500/50', from: '#a855f7', to: '#6366f1' },
+  emerald: { classes: 'bg-emerald-500 shadow-emerald-500/50', from: '#10b981', to: '#0d9488' },
+  rose: { classes: 'bg-rose-500 shadow-rose-500/50', from: '#f43f5e', to: '#db2777' },
+  amber: { classes: 'bg-amber-500 shadow-amber-500/50', from: '#f59e0b', to: '#ea580c' },
+};
+
+// Loaded by index.html; body text stays readable whatever the display face
+export const THEME_FONTS: Record<ThemeFont, { label: string; display: string; body: string }> = {
+  orbitron: { label: 'Neon', display: "'Orbitron', sans-serif", body: "'Inter', sans-serif" },
+  grotesk: { label: 'Clean', display: "'Space Grotesk', sans-serif", body: "'Inter', sans-serif" },
+  retro: { label: 'Retro', display: "'Press Start 2P', monospace", body: "'Inter', sans-serif" },
+  mono: { label: 'Terminal', display: "'JetBrains Mono', monospace", body: "'JetBrains Mono', monospace" },
 };
 
 // Base templates for shapes (0/1 matrices)
-const SHAPE_TEMPLATES = [
+export const SHAPE_TEMPLATES = [
   // Dot
   [[1]],
   // Line 2
@@ -41,7 +73,26 @@ const SHAPE_TEMPLATES = [
   [[0, 1, 1], [1, 1, 0]],
 ];
 
-const COLORS = [
+// The mirror image of the sideways L above, missing from the original set
+export const MIRRORED_L_TEMPLATE = [[1, 1, 1], [0, 0, 1]];
+
+// Five-block shapes for the pentomino set
+export const PENTOMINO_TEMPLATES = [
+  [[1, 1, 1, 1, 1]],
+  [[1], [1], [1], [1], [1]],
+  [[1, 0], [1, 0], [1, 0], [1, 1]], // L
+  [[1, 1], [1, 1], [1, 0]], // P
+  [[1, 0, 1], [1, 1, 1]], // U
+  [[1, 0, 0], [1, 0, 0], [1, 1, 1]], // V
+  [[1, 1, 1], [0, 1, 0], [0, 1, 0]], // T
+  [[0, 1, 0], [1, 1, 1], [0, 1, 0]], // Plus
+  [[1, 0, 0], [1, 1, 0], [0, 1, 1]], // W
+  [[1, 1, 0], [0, 1, 0], [0, 1, 1]], // Z
+  [[1, 1, 0, 0], [0, 1, 1, 1]], // N
+];
+
+// Canonical piece colors kept in game state; themes restyle them at display time
+export const COLORS = [
   '#06b6d4', // Cyan
   '#8b5cf6', // Violet
   '#f43f5e', // Rose
@@ -49,16 +100,20 @@ const COLORS = [
   '#f59e0b', // Amber
 ];
 
-export const generateRandomShape = (): Shape => {
-  const matrix = SHAPE_TEMPLATES[Math.floor(Math.random() * SHAPE_TEMPLATES.length)];
-  const color = COLORS[Math.floor(Math.random() * COLORS.length)];
+// Pass a seeded generator (services/random) for reproducible sequences
+export const generateRandomShape = (random: () => number = Math.random): Shape =>
+  createShape(SHAPE_TEMPLATES[Math.floor(random() * SHAPE_TEMPLATES.length)], random);
+
+// Color and id are rolled after the template is picked; seeded sequences depend on that order
+export const createShape = (matrix: number[][], random: () => number = Math.random): Shape => {
+  const color = COLORS[Math.floor(random() * COLORS.length)];
   return {
-    id: Math.random().toString(36).substr(2, 9),
+    id: random().toString(36).substr(2, 9),
     matrix: JSON.parse(JSON.stringify(matrix)), // Deep copy
     color,
   };
 };
 
-export const createEmptyGrid = (): string[][] => {
-  return Array(GRID_SIZE).fill(null).map(() => Array(GRID_SIZE).fill(null));
+export const createEmptyGrid = (size: number = GRID_SIZE): string[][] => {
+  return Array(size).fill(null).map(() => Array(size).fill(null));
 };
@@ -0,0 +1,5 @@
+// Browser globals the DOM typings leave out
+
+interface Window {
+  webkitAudioContext?: typeof AudioContext; // Safari before 14.1
+}
@@ -0,0 +1,18 @@
+import { useEffect, useRef } from 'react';
+import { CLOCK_TICK_MS } from '../constants';
+
+// Drives the clock of timed modes. Ticks skip while the tab is hidden, so a
+// game left in the background neither runs out nor fills up with garbage.
+export const useGameClock = (enabled: boolean, onTick: (ms: number) => void) => {
+  // Always call the latest handler without restarting the interval every render
+  const handlerRef = useRef(onTick);
+  handlerRef.current = onTick;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const timer = window.setInterval(() => {
+      if (!document.hidden) handlerRef.current(CLOCK_TICK_MS);
+    }, CLOCK_TICK_MS);
+    return () => window.clearInterval(timer);
+  }, [enabled]);
+};
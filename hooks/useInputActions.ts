@@ -0,0 +1,83 @@
+import { useEffect, useRef } from 'react';
+import { InputAction, KeyBindings } from '../types';
+import { GAMEPAD_BUTTONS, REPEATABLE_ACTIONS, findActionForKey } from '../services/inputBindings';
+
+const REPEAT_DELAY_MS = 250;
+const REPEAT_INTERVAL_MS = 90;
+const STICK_THRESHOLD = 0.5;
+
+// Translates keyboard and gamepad input into InputActions. Game logic only
+// ever sees the actions, so neither device duplicates any of it.
+export const useInputActions = (
+  bindings: KeyBindings,
+  onAction: (action: InputAction) => void,
+  enabled = true,
+) => {
+  // Always call the latest handler without re-subscribing every render
+  const handlerRef = useRef(onAction);
+  handlerRef.current = onAction;
+
+  // --- Keyboard ---
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.metaKey || e.ctrlKey || e.altKey) return;
+      const action = findActionForKey(bindings, e.code);
+      if (!action) return;
+      // A focused button keeps its native Enter/Space activation
+      if (action === 'confirm' && e.target instanceof HTMLButtonElement) return;
+      e.preventDefault();
+      if (e.repeat && !REPEATABLE_ACTIONS.includes(action)) return;
+      handlerRef.current(action);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindings, enabled]);
+
+  // --- Gamepad (polled, the API has no button events) ---
+  useEffect(() => {
+    if (!enabled || typeof navigator === 'undefined' || !navigator.getGamepads) return;
+
+    // action -> time it may fire again while held
+    const held = new Map<InputAction, number>();
+    let frame = 0;
+
+    const poll = (now: number) => {
+      const pressed = new Set<InputAction>();
+      for (const pad of navigator.getGamepads()) {
+        if (!pad) continue;
+        pad.buttons.forEach((button, i) => {
+          const action = GAMEPAD_BUTTONS[i];
+          if (action && button.pressed) pressed.add(action);
+        });
+        // Left stick doubles as the d-pad
+        const [ax = 0, ay = 0] = pad.axes;
+        if (ax <= -STICK_THRESHOLD) pressed.add('cursorLeft');
+        if (ax >= STICK_THRESHOLD) pressed.add('cursorRight');
+        if (ay <= -STICK_THRESHOLD) pressed.add('cursorUp');
+        if (ay >= STICK_THRESHOLD) pressed.add('cursorDown');
+      }
+
+      pressed.forEach(action => {
+        const nextAt = held.get(action);
+        if (nextAt === undefined) {
+          handlerRef.current(action);
+          held.set(action, REPEATABLE_ACTIONS.includes(action) ? now + REPEAT_DELAY_MS : Infinity);
+        } else if (now >= nextAt) {
+          handlerRef.current(action);
+          held.set(action, now + REPEAT_INTERVAL_MS);
+        }
+      });
+      [...held.keys()].forEach(action => {
+        if (!pressed.has(action)) held.delete(action);
+      });
+
+      frame = requestAnimationFrame(poll);
+    };
+
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [enabled]);
+};
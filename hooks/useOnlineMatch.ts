@@ -0,0 +1,163 @@
+import { useEffect, useRef, useState } from 'react';
+import { ConnectionStatus, GameAction, GameState } from '../types';
+import { gameReducer } from '../services/gameEngine';
+import { decodeAction, encodeAction } from '../services/replay';
+import { getAttack, startRound } from '../services/versus';
+import { JoinRequest, OpponentInfo, ServerMessage, Welcome, hashState } from '../services/netProtocol';
+import { RelayConnection, connectToRelay } from '../services/netClient';
+import { playSound } from '../services/audio';
+
+// One online match. The player's own board runs through the engine as usual;
+// the opponent's board is re-simulated here from their relayed moves, and the
+// hash they send after every move is checked against that copy.
+
+export interface OnlineMatchState {
+  status: ConnectionStatus;
+  error: string | null; // Why the connection closed, if it was not our choice
+  welcome: Welcome | null;
+  opponent: OpponentInfo | null;
+  own: GameState | null;
+  mirror: GameState | null; // The opponent's board as rebuilt from their moves
+  opponentResult: number | null; // Score the opponent reported when their board locked up
+  incoming: number; // Garbage rows that just arrived, for the flash
+  desync: string | null;
+}
+
+const IDLE: OnlineMatchState = {
+  status: 'idle', error: null, welcome: null, opponent: null, own: null, mirror: null, opponentResult: null, incoming: 0, desync: null,
+};
+
+export const useOnlineMatch = () => {
+  const [match, setMatch] = useState<OnlineMatchState>(IDLE);
+  // Relay messages can arrive in bursts between renders, so the handlers work on a ref
+  const matchRef = useRef(match);
+  const connectionRef = useRef<RelayConnection | null>(null);
+  const attemptRef = useRef(0); // Status reports from a connection we already left are ignored
+
+  const update = (patch: Partial<OnlineMatchState>) => {
+    matchRef.current = { ...matchRef.current, ...patch };
+    setMatch(matchRef.current);
+  };
+
+  const markDesync = (reason: string) => {
+    if (!matchRef.current.desync) update({ desync: reason });
+  };
+
+  // Applies an action to the player's own board and reports it; false when the engine refuses it
+  const applyOwn = (action: GameAction): boolean => {
+    const { own, welcome, opponent, desync } = matchRef.current;
+    const connection = connectionRef.current;
+    // The relay only takes moves once both players are in
+    if (!own || !welcome || !opponent || !connection || desync) return false;
+    const { state, events } = gameReducer(own, action);
+    if (state === own) return false;
+    update({ own: state });
+
+    const encoded = encodeAction(action);
+    if (encoded) connection.send({ type: 'move', action: encoded });
+    connection.send({ type: 'hash', hash: hashState(state) });
+    if (action.type === 'place' && welcome.rules === 'garbage') {
+      const attack = getAttack(events, state.combo);
+      if (attack > 0) connection.send({ type: 'garbage', rows: attack });
+    }
+    if (state.isGameOver) connection.send({ type: 'result', score: state.score });
+
+    if (action.type === 'rotate' || action.type === 'hold') playSound(action.type);
+    events.forEach(event => {
+      if (event.type === 'piecePlaced') playSound('drop');
+      if (event.type === 'linesCleared') playSound('lineClear', state.combo - 1);
+      if (event.type === 'gameOver') playSound('gameOver');
+    });
+    return true;
+  };
+
+  const handleMessage = (message: ServerMessage) => {
+    const { mirror, own } = matchRef.current;
+    switch (message.type) {
+      case 'welcome': {
+        // A rejoin after a drop keeps both boards; only the first welcome deals them
+        if (own) {
+          update({ welcome: message, opponent: message.opponent ?? matchRef.current.opponent });
+          return;
+        }
+        const [start] = startRound(message.board, message.seed);
+        update({ welcome: message, opponent: message.opponent, own: start, mirror: start });
+        return;
+      }
+      case 'opponent':
+        update({ opponent: { name: message.name, connected: message.connected } });
+        return;
+      case 'error':
+        update({ error: message.message });
+        return;
+      case 'move': {
+        if (!mirror) return;
+        let action: GameAction;
+        try {
+          action = decodeAction(message.action);
+        } catch {
+          markDesync('The opponent sent a move this version cannot read.');
+          return;
+        }
+        const next = gameReducer(mirror, action).state;
+        if (next === mirror) markDesync('The opponent made a move that is illegal on their board here.');
+        else update({ mirror: next });
+        return;
+      }
+      case 'hash':
+        if (mirror && message.hash !== hashState(mirror)) markDesync("The opponent's board no longer matches their moves.");
+        return;
+      case 'garbage':
+        if (!own || own.isGameOver) return;
+        // Applied through the move log, so the opponent's copy of this board takes it at the same point
+        if (applyOwn({ type: 'garbage', rows: message.rows })) {
+          playSound('garbage');
+          update({ incoming: message.rows });
+        }
+        return;
+      case 'result':
+        update({ opponentResult: message.score });
+        if (mirror && (!mirror.isGameOver || mirror.score !== message.score)) markDesync('The opponent reported a different final score.');
+        return;
+    }
+  };
+
+  // The connection outlives renders, so it always calls the latest handler
+  const handlerRef = useRef(handleMessage);
+  handlerRef.current = handleMessage;
+
+  const connect = (url: string, join: JoinRequest) => {
+    connectionRef.current?.close();
+    const attempt = ++attemptRef.current;
+    matchRef.current = { ...IDLE, status: 'connecting' };
+    setMatch(matchRef.current);
+    connectionRef.current = connectToRelay(url, join, {
+      onMessage: message => {
+        if (attemptRef.current === attempt) handlerRef.current(message);
+      },
+      onStatus: (status, reason) => {
+        if (attemptRef.current !== attempt) return;
+        update(reason ? { status, error: matchRef.current.error ?? reason } : { status });
+      },
+    });
+  };
+
+  const leave = () => {
+    attemptRef.current++;
+    connectionRef.current?.close();
+    connectionRef.current = null;
+    matchRef.current = IDLE;
+    setMatch(IDLE);
+  };
+
+  // Drop the connection when the screen closes
+  useEffect(() => () => connectionRef.current?.close(), []);
+
+  useEffect(() => {
+    if (match.incoming === 0) return;
+    const timer = window.setTimeout(() => update({ incoming: 0 }), 700);
+    return () => window.clearTimeout(timer);
+  }, [match.incoming]);
+
+  return { match, connect, leave, act: applyOwn };
+};
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+
+// Tracks navigator.onLine. It only knows whether the device has a network at
+// all, so true does not promise that a given server is reachable.
+export const useOnlineStatus = (): boolean => {
+  const [online, setOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine !== false);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine !== false);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return online;
+};
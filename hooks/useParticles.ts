@@ -0,0 +1,108 @@
+import { useEffect, useRef } from 'react';
+import {
+  ParticlePool, Point, createParticlePool, drawParticles, getClearIntensity, shatterCells, sparkCells, updateParticles
+} from '../services/particles';
+
+const FRAME_BUDGET_MS = 4; // Simulation plus drawing time allowed per frame
+const MAX_STEP_S = 1 / 20; // A long gap (background tab) mustn't fling particles off the board
+const MIN_QUALITY = 0.25;
+
+type Cell = { x: number, y: number };
+
+// Drives the particle canvas laid over the board. The loop only runs while
+// particles are alive; a frame over budget makes later effects spawn fewer
+// particles, and quality creeps back up once frames are cheap again.
+export const useParticles = (boardRef: { current: HTMLDivElement | null }, enabled: boolean) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const poolRef = useRef<ParticlePool>(createParticlePool());
+  const qualityRef = useRef(1);
+  const frameRef = useRef(0);
+  const lastTimeRef = useRef(0);
+
+  const tick = (now: number) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    const pool = poolRef.current;
+    if (!canvas || !ctx) {
+      frameRef.current = 0;
+      return;
+    }
+
+    const started = performance.now();
+    updateParticles(pool, Math.min(MAX_STEP_S, (now - lastTimeRef.current) / 1000));
+    lastTimeRef.current = now;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    drawParticles(ctx, pool);
+
+    const cost = performance.now() - started;
+    qualityRef.current = cost > FRAME_BUDGET_MS
+      ? Math.max(MIN_QUALITY, qualityRef.current * 0.75)
+      : Math.min(1, qualityRef.current + 0.02);
+    frameRef.current = pool.active > 0 ? requestAnimationFrame(tick) : 0;
+  };
+
+  const startLoop = () => {
+    if (frameRef.current) return;
+    lastTimeRef.current = performance.now();
+    frameRef.current = requestAnimationFrame(tick);
+  };
+
+  // Backing store follows the canvas's CSS size and the screen's pixel density
+  const fitCanvas = (canvas: HTMLCanvasElement) => {
+    const dpr = window.devicePixelRatio || 1;
+    const width = Math.round(canvas.clientWidth * dpr);
+    const height = Math.round(canvas.clientHeight * dpr);
+    if (canvas.width === width && canvas.height === height) return;
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.setTransform(dpr, 0, 0, dpr, 0, 0);
+  };
+
+  // Cell centers in canvas coordinates, measured from the rendered grid cells
+  const locateCells = (cells: Cell[]): { centers: Point[], cellSize: number } | null => {
+    const board = boardRef.current;
+    const canvas = canvasRef.current;
+    if (!board || !canvas) return null;
+    fitCanvas(canvas);
+    const elements = board.querySelectorAll('[role="gridcell"]');
+    const size = Math.round(Math.sqrt(elements.length));
+    const origin = canvas.getBoundingClientRect();
+    let cellSize = 0;
+    const centers: Point[] = [];
+    cells.forEach(({ x, y }) => {
+      const rect = elements[y * size + x]?.getBoundingClientRect();
+      if (!rect) return;
+      cellSize = rect.width;
+      centers.push({ x: rect.left - origin.left + rect.width / 2, y: rect.top - origin.top + rect.height / 2 });
+    });
+    return centers.length > 0 ? { centers, cellSize } : null;
+  };
+
+  // Turning effects off (reduced motion) wipes whatever is still flying
+  useEffect(() => {
+    if (enabled) return;
+    cancelAnimationFrame(frameRef.current);
+    frameRef.current = 0;
+    poolRef.current.active = 0;
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+  }, [enabled]);
+
+  useEffect(() => () => cancelAnimationFrame(frameRef.current), []);
+
+  const shatter = (cells: Cell[], color: string, lines: number, combo: number) => {
+    const located = enabled && locateCells(cells);
+    if (!located) return;
+    shatterCells(poolRef.current, located.centers, located.cellSize, color, getClearIntensity(lines, combo), qualityRef.current);
+    startLoop();
+  };
+
+  const sparks = (cells: Cell[], color: string) => {
+    const located = enabled && locateCells(cells);
+    if (!located) return;
+    sparkCells(poolRef.current, located.centers, located.cellSize, color, qualityRef.current);
+    startLoop();
+  };
+
+  return { canvasRef, shatter, sparks };
+};
@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+const QUERY = '(prefers-reduced-motion: reduce)';
+
+// Tracks the operating system's reduced-motion preference as it changes
+export const usePrefersReducedMotion = (): boolean => {
+  const [prefers, setPrefers] = useState(() => typeof window !== 'undefined' && !!window.matchMedia?.(QUERY).matches);
+
+  useEffect(() => {
+    const media = window.matchMedia?.(QUERY);
+    if (!media) return;
+    const handleChange = () => setPrefers(media.matches);
+    media.addEventListener('change', handleChange);
+    return () => media.removeEventListener('change', handleChange);
+  }, []);
+
+  return prefers;
+};
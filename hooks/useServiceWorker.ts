@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { activateUpdate, registerServiceWorker } from '../services/serviceWorker';
+
+// Installs the offline cache and tracks whether a newer version is waiting
+export const useServiceWorker = () => {
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+
+  useEffect(() => {
+    registerServiceWorker(setWaiting);
+  }, []);
+
+  return {
+    updateReady: waiting !== null,
+    applyUpdate: () => {
+      if (waiting) activateUpdate(waiting);
+    },
+    dismissUpdate: () => setWaiting(null), // Installs anyway once every tab of the old version is closed
+  };
+};
@@ -0,0 +1,40 @@
+// Service worker of the installed app. The build replaces the two placeholders
+// below with a version and the list of every file it wrote (precachePlugin in
+// vite.config.ts), so one install caches the whole game for offline play.
+// A new version installs in the background and waits until the page asks it
+// to take over, which the page does once the player accepts the update.
+
+const CACHE = 'qblock-__PRECACHE_VERSION__';
+const FILES = __PRECACHE_FILES__;
+
+const scoped = path => new URL(path, self.registration.scope).href;
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(FILES.map(scoped))));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('qblock-') && key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'skipWaiting') self.skipWaiting();
+});
+
+// Cache first for the game's own files. Everything else (Gemini, the relay,
+// a leaderboard server) goes to the network untouched.
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+  // Every page is the single-page app; query strings such as ?level= are read by the app
+  const key = request.mode === 'navigate' ? scoped('index.html') : request;
+  event.respondWith(
+    caches.open(CACHE)
+      .then(cache => cache.match(key))
+      .then(cached => cached || fetch(request))
+  );
+});
@@ -0,0 +1,138 @@
+import { writeFileSync } from 'node:fs';
+import { DealerConfig, DifficultyCurve, ShapeSet } from '../types';
+import { normalizeBoardConfig } from '../services/board';
+import { DIFFICULTY_CURVES, SHAPE_SETS, UNIFORM_DEALER, getShapeSet } from '../services/pieceDealer';
+import { BOT_STRATEGIES, BotStrategy, getBotStrategy } from '../services/bots';
+import { BenchConfig, BenchReport, DEFAULT_BENCH_CONFIG, GameRecord, formatReport, playBotGame, shapeKey, summarize } from '../services/benchmark';
+
+// Strategy benchmark: npm run bench -- --games 1000 --strategies greedy,lookahead --json out.json
+
+const USAGE = `Usage: npm run bench -- [options]
+
+  --games N            Games per strategy (default ${DEFAULT_BENCH_CONFIG.games})
+  --strategies a,b     Any of ${BOT_STRATEGIES.map(s => s.id).join(', ')} (default: all)
+  --seed N             Seed of the first game; game i uses seed + i (default ${DEFAULT_BENCH_CONFIG.seed})
+  --size N             Board size (default ${DEFAULT_BENCH_CONFIG.board.size})
+  --regions            Enable 3x3 region clears
+  --shape-set NAME     ${SHAPE_SETS.map(s => s.id).join(', ')} (default ${DEFAULT_BENCH_CONFIG.dealer.shapeSet})
+  --curve NAME         ${DIFFICULTY_CURVES.join(', ')} (default ${DEFAULT_BENCH_CONFIG.dealer.curve})
+  --weights a,b,...    Base weight of each shape in the set, in order (see --list-shapes)
+  --list-shapes        Print the shapes of the chosen set with their default weights
+  --no-bag             Draw every piece independently
+  --no-fair            Allow trays with no piece that fits
+  --uniform            The legacy dealer: classic shapes, no bag, no curve, no fairness
+  --keys N             Starting keys (default ${DEFAULT_BENCH_CONFIG.startingKeys})
+  --rotate-cost N      Keys per rotation (default ${DEFAULT_BENCH_CONFIG.rotateCost})
+  --max-turns N        Placement cap per game (default ${DEFAULT_BENCH_CONFIG.maxTurns})
+  --beam N             Lookahead search width; lower is faster (default ${DEFAULT_BENCH_CONFIG.beamWidth})
+  --json PATH          Also write the report as JSON; "-" prints only JSON to stdout
+`;
+
+const fail = (message: string): never => {
+  process.stderr.write(`${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const parseArgs = (argv: string[]) => {
+  const config: BenchConfig = { ...DEFAULT_BENCH_CONFIG };
+  let dealer: DealerConfig = { ...DEFAULT_BENCH_CONFIG.dealer };
+  let size = config.board.size;
+  let regions = config.board.regionClears;
+  let strategies = BOT_STRATEGIES;
+  let json: string | null = null;
+  let weights: number[] | null = null;
+  let listShapes = false;
+
+  const args = [...argv];
+  const value = (flag: string) => args.shift() ?? fail(`${flag} needs a value`);
+  const integer = (flag: string, min: number) => {
+    const n = Number(value(flag));
+    return Number.isInteger(n) && n >= min ? n : fail(`${flag} must be an integer of at least ${min}`);
+  };
+
+  while (args.length > 0) {
+    const flag = args.shift() as string;
+    switch (flag) {
+      case '--games': config.games = integer(flag, 1); break;
+      case '--seed': config.seed = integer(flag, 0); break;
+      case '--size': size = integer(flag, 1); break;
+      case '--regions': regions = true; break;
+      case '--keys': config.startingKeys = integer(flag, 0); break;
+      case '--rotate-cost': config.rotateCost = integer(flag, 0); break;
+      case '--max-turns': config.maxTurns = integer(flag, 1); break;
+      case '--beam': config.beamWidth = integer(flag, 1); break;
+      case '--no-bag': dealer.bag = false; break;
+      case '--no-fair': dealer.fair = false; break;
+      case '--uniform': dealer = { ...UNIFORM_DEALER }; break;
+      case '--list-shapes': listShapes = true; break;
+      case '--weights':
+        weights = value(flag).split(',').map(w => {
+          const n = Number(w);
+          return w.trim() !== '' && Number.isFinite(n) && n >= 0 ? n : fail(`--weights must be non-negative numbers, got ${w}`);
+        });
+        break;
+      case '--shape-set': {
+        const id = value(flag);
+        if (!SHAPE_SETS.some(s => s.id === id)) fail(`Unknown shape set: ${id}`);
+        dealer.shapeSet = id as ShapeSet;
+        break;
+      }
+      case '--curve': {
+        const id = value(flag);
+        if (!DIFFICULTY_CURVES.includes(id as DifficultyCurve)) fail(`Unknown curve: ${id}`);
+        dealer.curve = id as DifficultyCurve;
+        break;
+      }
+      case '--strategies':
+        strategies = value(flag).split(',').map(id => getBotStrategy(id.trim()) ?? fail(`Unknown strategy: ${id}`));
+        break;
+      case '--json': json = value(flag); break;
+      case '--help':
+      case '-h':
+        process.stdout.write(USAGE);
+        process.exit(0);
+      default:
+        fail(`Unknown option: ${flag}`);
+    }
+  }
+
+  config.board = normalizeBoardConfig({ size, regionClears: regions });
+  if (config.board.size !== size) fail(`Board size must be between 6 and 12, got ${size}`);
+  const templates = getShapeSet(dealer.shapeSet).templates;
+  if (listShapes) {
+    process.stdout.write(`${templates.map((t, i) => `${i}  ${shapeKey(t.matrix)}  ${t.weight}`).join('\n')}\n`);
+    process.exit(0);
+  }
+  if (weights) {
+    // Checked after the whole command line, since --shape-set decides how many there are
+    if (weights.length !== templates.length) fail(`--weights needs ${templates.length} values for the ${dealer.shapeSet} set, got ${weights.length}`);
+    if (weights.every(w => w === 0)) fail('--weights needs at least one shape above 0');
+    dealer.weights = weights;
+  }
+  config.dealer = dealer;
+  return { config, strategies, json };
+};
+
+const runStrategy = (strategy: BotStrategy, config: BenchConfig) => {
+  const records: GameRecord[] = [];
+  const started = Date.now();
+  for (let i = 0; i < config.games; i++) {
+    records.push(playBotGame(strategy, (config.seed + i) >>> 0, config));
+    if ((i + 1) % 50 === 0 || i + 1 === config.games) process.stderr.write(`\r${strategy.id}: ${i + 1}/${config.games}`);
+  }
+  process.stderr.write('\n');
+  return summarize(strategy, records, Date.now() - started);
+};
+
+const { config, strategies, json } = parseArgs(process.argv.slice(2));
+const report: BenchReport = { config, strategies: strategies.map(strategy => runStrategy(strategy, config)) };
+
+if (json === '-') {
+  process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+} else {
+  process.stdout.write(`${formatReport(report)}\n`);
+  if (json) {
+    writeFileSync(json, `${JSON.stringify(report, null, 2)}\n`);
+    process.stderr.write(`Report written to ${json}\n`);
+  }
+}
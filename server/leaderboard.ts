@@ -0,0 +1,109 @@
+// Reference leaderboard server: `npm run leaderboard`, then set
+// LEADERBOARD_URL=http://<this machine>:8788 in .env.local. Every submission is
+// re-simulated with the game's own engine (services/leaderboard.ts) before it
+// is accepted. Tables live in memory; pass --file PATH to keep them on disk,
+// where they are checked again on every start.
+//
+//   POST /seeds                -> 201 { seed } to play a ranked Classic game on
+//   POST /scores               { profileId, name, replay } -> 201 accepted | 422 rejected
+//   GET  /scores?table=ID      Top entries of a table, best first (limit=N, at most 10)
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { LEADERBOARD_SIZE, createMemoryBackend, restoreEntries } from '../services/leaderboard';
+import { LeaderboardEntry } from '../types';
+
+const PORT = Number(process.env.LEADERBOARD_PORT || 8788);
+const MAX_BODY_BYTES = 512 * 1024;
+
+const fileArg = process.argv.indexOf('--file');
+const file = fileArg >= 0 ? process.argv[fileArg + 1] : undefined;
+
+const log = (...parts: unknown[]) => console.log(new Date().toISOString(), ...parts);
+
+const loadEntries = (): LeaderboardEntry[] => {
+  if (!file || !existsSync(file)) return [];
+  const raw = JSON.parse(readFileSync(file, 'utf8'));
+  const entries = restoreEntries(raw);
+  const dropped = (Array.isArray(raw) ? raw.length : 0) - entries.length;
+  log(`loaded ${entries.length} entries from ${file}${dropped > 0 ? `, dropped ${dropped} that failed verification` : ''}`);
+  return entries;
+};
+
+const backend = createMemoryBackend({
+  entries: loadEntries(),
+  onChange: entries => {
+    if (file) writeFileSync(file, JSON.stringify(entries));
+  },
+});
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new Error('Submission is too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  // The game is served from another origin (the Vite dev server or a static host)
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  if (url.pathname === '/seeds') {
+    if (req.method !== 'POST') return send(res, 405, { error: 'Method not allowed' });
+    return send(res, 201, { seed: await backend.issueSeed() });
+  }
+  if (url.pathname !== '/scores') return send(res, 404, { error: 'Not found' });
+
+  if (req.method === 'GET') {
+    const table = url.searchParams.get('table');
+    if (!table) return send(res, 400, { error: 'table is required' });
+    const limit = Math.min(LEADERBOARD_SIZE, Math.max(1, Number(url.searchParams.get('limit')) || LEADERBOARD_SIZE));
+    return send(res, 200, await backend.getTop(table, limit));
+  }
+
+  if (req.method === 'POST') {
+    let submission;
+    try {
+      submission = JSON.parse(await readBody(req));
+    } catch (err) {
+      return send(res, 422, { status: 'rejected', reason: err instanceof SyntaxError ? 'Body is not valid JSON' : (err as Error).message });
+    }
+    const result = await backend.submit(submission ?? {});
+    if (result.status === 'accepted') {
+      log(`${result.entry.table}: ${result.entry.name} ${result.entry.score}${result.rank ? ` (#${result.rank})` : ''}`);
+      return send(res, 201, result);
+    }
+    log(`rejected: ${result.reason}`);
+    return send(res, 422, result);
+  }
+
+  send(res, 405, { error: 'Method not allowed' });
+};
+
+createServer((req, res) => {
+  handle(req, res).catch(err => {
+    log('error', err);
+    if (!res.headersSent) send(res, 500, { error: 'Internal error' });
+  });
+}).listen(PORT, () => log(`leaderboard listening on :${PORT}${file ? `, saving to ${file}` : ''}`));
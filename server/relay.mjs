@@ -0,0 +1,175 @@
+// Relay for online matches: `npm run relay`, then point the game at
+// ws://<this machine>:8787. It pairs two players per room, hands both the same
+// seed and forwards each player's numbered messages to the other. Games are
+// simulated by the clients; the relay only keeps every message so a player who
+// drops can rejoin and catch up. The protocol is described in PROTOCOL.md.
+
+import { randomBytes, randomInt } from 'node:crypto';
+import { WebSocketServer } from 'ws';
+
+const PROTOCOL_VERSION = 1;
+const PORT = Number(process.env.RELAY_PORT || 8787);
+const HEARTBEAT_MS = 15000;
+const ROOM_TTL_MS = 5 * 60 * 1000; // How long a room with nobody connected is kept for rejoins
+const MAX_FRAME_BYTES = 4096;
+const MAX_NAME_LENGTH = 16;
+const MIN_BOARD_SIZE = 6;
+const MAX_BOARD_SIZE = 12;
+
+const RELAYED = new Set(['move', 'hash', 'garbage', 'result']);
+const RULES = new Set(['race', 'garbage']);
+
+const rooms = new Map(); // code -> { code, seed, rules, board, players: Player[], expiry }
+const clients = new Map(); // socket -> { room, side }
+
+const log = (...parts) => console.log(new Date().toISOString(), ...parts);
+
+const send = (socket, message) => {
+  if (socket && socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const refuse = (socket, message) => {
+  send(socket, { type: 'error', message });
+  socket.close(4000, message.slice(0, 120));
+};
+
+const isBoard = b =>
+  b && Number.isInteger(b.size) && b.size >= MIN_BOARD_SIZE && b.size <= MAX_BOARD_SIZE &&
+  typeof b.regionClears === 'boolean' && (!b.regionClears || b.size % 3 === 0);
+
+const isJoin = m =>
+  typeof m.room === 'string' && /^[A-Z0-9]{4,8}$/.test(m.room) &&
+  typeof m.name === 'string' && m.name.trim().length > 0 &&
+  RULES.has(m.rules) && isBoard(m.board) && Number.isInteger(m.seen) && m.seen >= 0;
+
+// --- Rooms ---
+
+const getRoom = (code, join) => {
+  let room = rooms.get(code);
+  if (!room) {
+    room = {
+      code,
+      seed: randomInt(0x100000000),
+      rules: join.rules,
+      board: { size: join.board.size, regionClears: join.board.regionClears },
+      players: [],
+      expiry: null,
+    };
+    rooms.set(code, room);
+    log(`room ${code} opened (${room.rules}, ${room.board.size}x${room.board.size})`);
+  }
+  clearTimeout(room.expiry);
+  room.expiry = null;
+  return room;
+};
+
+const scheduleExpiry = room => {
+  if (room.players.some(p => p.socket)) return;
+  room.expiry = setTimeout(() => {
+    rooms.delete(room.code);
+    log(`room ${room.code} closed`);
+  }, ROOM_TTL_MS);
+};
+
+const opponentInfo = player => player && { name: player.name, connected: !!player.socket };
+
+// --- Messages ---
+
+const handleJoin = (socket, m) => {
+  if (m.v !== PROTOCOL_VERSION) return refuse(socket, `Protocol version ${m.v} is not supported, this relay speaks ${PROTOCOL_VERSION}`);
+  if (!isJoin(m)) return refuse(socket, 'Invalid join request');
+  if (clients.has(socket)) return refuse(socket, 'Already joined');
+
+  const room = getRoom(m.room, m);
+  let side = room.players.findIndex(p => typeof m.session === 'string' && p.session === m.session);
+  if (side === -1) {
+    if (room.players.length === 2) {
+      scheduleExpiry(room);
+      return refuse(socket, `Room ${room.code} is full`);
+    }
+    room.players.push({ name: m.name.trim().slice(0, MAX_NAME_LENGTH), session: randomBytes(16).toString('hex'), socket: null, log: [] });
+    side = room.players.length - 1;
+  }
+
+  const player = room.players[side];
+  if (player.socket) {
+    // A newer connection for the same session wins over a half-dead one
+    clients.delete(player.socket);
+    player.socket.terminate();
+  }
+  player.socket = socket;
+  clients.set(socket, { room, side });
+
+  const opponent = room.players[1 - side];
+  send(socket, {
+    type: 'welcome', room: room.code, side, session: player.session, seed: room.seed, rules: room.rules, board: room.board,
+    received: player.log.length, opponent: opponentInfo(opponent) ?? null,
+  });
+  if (opponent) {
+    opponent.log.slice(m.seen).forEach(message => send(socket, message));
+    send(opponent.socket, { type: 'opponent', ...opponentInfo(player) });
+  }
+  log(`room ${room.code}: ${player.name} joined as player ${side + 1}`);
+};
+
+const handleRelayed = (socket, m) => {
+  const client = clients.get(socket);
+  if (!client) return refuse(socket, 'Join a room first');
+  const { room, side } = client;
+  const player = room.players[side];
+  if (!Number.isInteger(m.seq)) return refuse(socket, 'Missing sequence number');
+  if (m.seq <= player.log.length) return; // Resent after a reconnect, already relayed
+  if (m.seq !== player.log.length + 1) return refuse(socket, `Expected message ${player.log.length + 1}, got ${m.seq}`);
+  if (room.players.length < 2) return refuse(socket, 'No opponent yet');
+
+  player.log.push(m);
+  send(room.players[1 - side].socket, m);
+};
+
+const handleClose = socket => {
+  const client = clients.get(socket);
+  if (!client) return;
+  clients.delete(socket);
+  const { room, side } = client;
+  const player = room.players[side];
+  if (player.socket !== socket) return;
+  player.socket = null;
+  send(room.players[1 - side]?.socket, { type: 'opponent', ...opponentInfo(player) });
+  scheduleExpiry(room);
+  log(`room ${room.code}: ${player.name} disconnected`);
+};
+
+// --- Server ---
+
+const server = new WebSocketServer({ port: PORT, maxPayload: MAX_FRAME_BYTES });
+
+server.on('connection', socket => {
+  socket.isAlive = true;
+  socket.on('pong', () => { socket.isAlive = true; });
+  socket.on('message', (data, isBinary) => {
+    let m;
+    try {
+      m = isBinary ? null : JSON.parse(data.toString());
+    } catch {
+      m = null;
+    }
+    if (!m || typeof m !== 'object') return refuse(socket, 'Frames must be JSON objects');
+    if (m.type === 'join') return handleJoin(socket, m);
+    if (RELAYED.has(m.type)) return handleRelayed(socket, m);
+    refuse(socket, `Unknown message type: ${m.type}`);
+  });
+  socket.on('close', () => handleClose(socket));
+  socket.on('error', () => socket.terminate());
+});
+
+// Sockets that miss a ping are dropped, so the opponent learns about it promptly
+const heartbeat = setInterval(() => {
+  server.clients.forEach(socket => {
+    if (!socket.isAlive) return socket.terminate();
+    socket.isAlive = false;
+    socket.ping();
+  });
+}, HEARTBEAT_MS);
+
+server.on('close', () => clearInterval(heartbeat));
+server.on('listening', () => log(`relay listening on ws://localhost:${PORT}`));
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { AchievementProgress, GameAction, GameState, GameStats, Shape } from '../types';
+import { createInitialState, gameReducer } from './gameEngine';
+import { ACHIEVEMENTS, evaluateAchievements, getAchievementProgress, getUnlockedAt } from './achievements';
+
+const DOT: Shape = { id: 'dot', matrix: [[1]], color: '#fff' };
+
+// A standard game one dot away from clearing the whole board
+const START: GameState = {
+  ...createInitialState(),
+  grid: Array.from({ length: 8 }, (_, y) => Array.from({ length: 8 }, (_, x) => (y === 7 && x > 0 ? '#000' : null))),
+  availablePieces: [DOT, DOT, DOT],
+};
+
+const play = (actions: GameAction[], id = 'game', from: { state: GameState; progress: AchievementProgress } = { state: START, progress: { unlocked: {}, best: {}, totals: {} } }) =>
+  actions.reduce(({ state, progress }, action) => {
+    const { state: next, events } = gameReducer(state, action);
+    const turn = { action, prev: state, next, events, stats: { id } as GameStats };
+    return { state: next, progress: evaluateAchievements(progress, turn).progress };
+  }, from);
+
+const CLEAR: GameAction = { type: 'place', source: 0, x: 0, y: 7 };
+const FIRST_CLEAR = ACHIEVEMENTS.find(a => a.id === 'first_clear')!;
+
+describe('lifetime totals', () => {
+  it('count a clear once however often it is undone and made again', () => {
+    const { progress } = play([CLEAR, { type: 'undo' }, { type: 'redo' }, { type: 'undo' }, CLEAR]);
+    expect(progress.game?.totals).toMatchObject({ totalLines: 1, boardClears: 1 });
+  });
+
+  it('fold the previous game in once the next one starts', () => {
+    const first = play([CLEAR]);
+    const { progress } = play([CLEAR], 'next', { state: START, progress: first.progress });
+    expect(progress.totals).toMatchObject({ totalLines: 1, boardClears: 1 });
+    expect(progress.game).toMatchObject({ id: 'next', totals: { totalLines: 1 } });
+  });
+});
+
+describe('unlocks', () => {
+  it('go back with the move that earned them', () => {
+    const cleared = play([CLEAR]);
+    expect(getUnlockedAt(cleared.progress, FIRST_CLEAR)).toBeDefined();
+    const undone = play([{ type: 'undo' }], 'game', cleared);
+    expect(getUnlockedAt(undone.progress, FIRST_CLEAR)).toBeUndefined();
+    expect(getAchievementProgress(undone.progress, FIRST_CLEAR)).toBe(0);
+    expect(getUnlockedAt(play([{ type: 'redo' }], 'game', undone).progress, FIRST_CLEAR)).toBeDefined();
+  });
+
+  it('stay once the game they were earned in is over', () => {
+    const cleared = play([CLEAR]);
+    const { progress } = play([{ type: 'hold', source: 0 }], 'next', { state: START, progress: cleared.progress });
+    expect(progress.unlocked[FIRST_CLEAR.id]).toBeDefined();
+    expect(progress.game?.unlocked).toEqual({});
+  });
+});
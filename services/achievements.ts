@@ -0,0 +1,200 @@
+import {
+  Achievement, AchievementMetric, AchievementProgress, GameAction, GameEvent, GameState, GameStats, GameTally, GameTallySnapshot
+} from '../types';
+import { UNDO_LIMIT } from '../constants';
+import { keepsHistory } from './modes';
+
+// Declarative achievements: each entry names a metric and a target, and the
+// evaluator below does the rest. Adding one is a new line in ACHIEVEMENTS.
+
+const ACHIEVEMENTS_KEY = 'qblock_achievements';
+
+export const ACHIEVEMENTS: Achievement[] = [
+  { id: 'first_clear', title: 'First Clear', description: 'Clear a line', metric: 'linesAtOnce', target: 1 },
+  { id: 'triple_clear', title: 'Hat Trick', description: 'Clear 3 lines at once', metric: 'linesAtOnce', target: 3 },
+  { id: 'quad_clear', title: 'Demolition', description: 'Clear 4 lines at once', metric: 'linesAtOnce', target: 4 },
+  { id: 'combo_3', title: 'Warming Up', description: 'Reach a 3x combo', metric: 'combo', target: 3 },
+  { id: 'combo_5', title: '5x Combo', description: 'Reach a 5x combo', metric: 'combo', target: 5 },
+  { id: 'combo_8', title: 'Unstoppable', description: 'Reach an 8x combo', metric: 'combo', target: 8 },
+  { id: 'keys_10', title: 'Key Keeper', description: 'Hold 10 keys at once', metric: 'keys', target: 10 },
+  { id: 'keys_25', title: 'Locksmith', description: 'Hold 25 keys at once', metric: 'keys', target: 25 },
+  { id: 'clean_slate', title: 'Clean Slate', description: 'Clear the whole board', metric: 'boardClears', target: 1 },
+  { id: 'score_1000', title: 'Getting Started', description: 'Score 1,000 in one game', metric: 'score', target: 1000 },
+  { id: 'score_5000', title: 'High Roller', description: 'Score 5,000 in one game', metric: 'score', target: 5000 },
+  { id: 'score_20000', title: 'Neon Master', description: 'Score 20,000 in one game', metric: 'score', target: 20000 },
+  {
+    id: 'no_hold', title: 'Hands Free', description: 'Finish a game of 1,000+ without using hold',
+    metric: 'score', target: 1000, trigger: 'gameOver', limits: { holdsThisGame: 0 },
+  },
+  { id: 'lines_500', title: 'Line Cleaner', description: 'Clear 500 lines in total', metric: 'totalLines', target: 500, incremental: true },
+  { id: 'holds_100', title: 'Stash Master', description: 'Use hold 100 times', metric: 'totalHolds', target: 100, incremental: true },
+  { id: 'clean_10', title: 'Spotless', description: 'Clear the whole board 10 times', metric: 'boardClears', target: 10, incremental: true },
+  { id: 'games_25', title: 'Regular', description: 'Finish 25 games', metric: 'gamesPlayed', target: 25, incremental: true },
+];
+
+const EMPTY_PROGRESS: AchievementProgress = { unlocked: {}, best: {}, totals: {} };
+
+// Everything the evaluator may look at for one accepted action
+export interface AchievementTurn {
+  action: GameAction;
+  prev: GameState;
+  next: GameState;
+  events: GameEvent[];
+  stats: GameStats; // Running tally of the current game, already updated for this action
+}
+
+const measure = (turn: AchievementTurn, totals: Record<string, number>): Record<AchievementMetric, number> => {
+  const { next, events, stats } = turn;
+  const clears = events.filter(e => e.type === 'linesCleared');
+  return {
+    linesAtOnce: Math.max(0, ...clears.map(e => (e.type === 'linesCleared' ? e.count : 0))),
+    combo: next.combo,
+    keys: next.keys,
+    score: next.score,
+    holdsThisGame: stats.holdsUsed,
+    totalLines: totals.totalLines ?? 0,
+    totalHolds: totals.totalHolds ?? 0,
+    boardClears: totals.boardClears ?? 0,
+    gamesPlayed: totals.gamesPlayed ?? 0,
+  };
+};
+
+const sumTotals = (a: Record<string, number>, b: Record<string, number>): Record<string, number> => {
+  const sum = { ...a };
+  Object.entries(b).forEach(([key, n]) => { sum[key] = (sum[key] ?? 0) + n; });
+  return sum;
+};
+
+// One game's share of the lifetime totals. A game counts as played once, however often it ends
+const addTotals = (totals: Record<string, number>, turn: AchievementTurn): Record<string, number> => {
+  const { action, next, events } = turn;
+  const lines = events.reduce((acc, e) => acc + (e.type === 'linesCleared' ? e.count : 0), 0);
+  const clearedBoard = lines > 0 && next.grid.every(row => row.every(cell => cell === null));
+  const bump = (key: AchievementMetric, by: number) => ({ [key]: (totals[key] ?? 0) + by });
+  return {
+    ...totals,
+    ...bump('totalLines', lines),
+    ...bump('totalHolds', action.type === 'hold' ? 1 : 0),
+    ...bump('boardClears', clearedBoard ? 1 : 0),
+    gamesPlayed: next.isGameOver ? 1 : 0,
+  };
+};
+
+// Moves the engine can take back; anything else never reaches its history
+const isUndoable = (turn: AchievementTurn) =>
+  keepsHistory(turn.prev.variant) && ['place', 'hold', 'rotate', 'powerUp'].includes(turn.action.type);
+
+const takeSnapshot = ({ totals, unlocked, best }: GameTallySnapshot): GameTallySnapshot => ({ totals, unlocked, best });
+
+// Steps the game's tally along with the board; unlocks are added by the caller
+const trackGame = (game: GameTally | undefined, turn: AchievementTurn): GameTally => {
+  const current: GameTally = game && game.id === turn.stats.id
+    ? game
+    : { id: turn.stats.id, totals: {}, unlocked: {}, best: {}, undoStack: [], redoStack: [] };
+  const { undoStack, redoStack } = current;
+  switch (turn.action.type) {
+    case 'undo': {
+      const restored = undoStack[undoStack.length - 1];
+      if (!restored) return current;
+      return { ...current, ...restored, undoStack: undoStack.slice(0, -1), redoStack: [...redoStack, takeSnapshot(current)] };
+    }
+    case 'redo': {
+      const restored = redoStack[redoStack.length - 1];
+      if (!restored) return current;
+      return { ...current, ...restored, undoStack: [...undoStack, takeSnapshot(current)].slice(-UNDO_LIMIT), redoStack: redoStack.slice(0, -1) };
+    }
+  }
+  const totals = addTotals(current.totals, turn);
+  if (!isUndoable(turn)) return { ...current, totals };
+  return { ...current, totals, undoStack: [...undoStack, takeSnapshot(current)].slice(-UNDO_LIMIT), redoStack: [] };
+};
+
+// Earlier games plus the current one, as far as it has got
+const settle = (progress: AchievementProgress, game: GameTallySnapshot | undefined = progress.game) => {
+  if (!game) return { unlocked: progress.unlocked, best: progress.best, totals: progress.totals };
+  const best = { ...progress.best };
+  Object.entries(game.best).forEach(([id, value]) => { best[id] = Math.max(best[id] ?? 0, value); });
+  return { unlocked: { ...game.unlocked, ...progress.unlocked }, best, totals: sumTotals(progress.totals, game.totals) };
+};
+
+// Returns the updated progress plus anything unlocked by this action
+export const evaluateAchievements = (
+  progress: AchievementProgress,
+  turn: AchievementTurn,
+  now: Date = new Date(),
+): { progress: AchievementProgress, unlocked: Achievement[] } => {
+  // A new game id means the previous game is over for good
+  const settled = progress.game && progress.game.id !== turn.stats.id ? settle(progress) : progress;
+  const game = trackGame(progress.game, turn);
+  const lifetime = settle(settled, game);
+  const metrics = measure(turn, lifetime.totals);
+  const isGameOver = turn.events.some(e => e.type === 'gameOver');
+  const unlocked: Achievement[] = [];
+  const gameUnlocked = { ...game.unlocked };
+  const gameBest = { ...game.best };
+
+  ACHIEVEMENTS.forEach(a => {
+    if (lifetime.unlocked[a.id]) return;
+    if ((a.trigger ?? 'turn') === 'gameOver' && !isGameOver) return;
+    const withinLimits = Object.entries(a.limits ?? {}).every(([metric, max]) => metrics[metric as AchievementMetric] <= (max as number));
+    if (!withinLimits) return;
+
+    const value = metrics[a.metric];
+    gameBest[a.id] = Math.max(gameBest[a.id] ?? 0, Math.min(value, a.target));
+    if (value >= a.target) {
+      gameUnlocked[a.id] = now.toISOString();
+      unlocked.push(a);
+    }
+  });
+
+  const { unlocked: earlier, best, totals } = settled;
+  return { progress: { unlocked: earlier, best, totals, game: { ...game, unlocked: gameUnlocked, best: gameBest } }, unlocked };
+};
+
+// When the achievement was unlocked, counting the game in progress
+export const getUnlockedAt = (progress: AchievementProgress, achievement: Achievement): string | undefined =>
+  progress.unlocked[achievement.id] ?? progress.game?.unlocked[achievement.id];
+
+export const getAchievementProgress = (progress: AchievementProgress, achievement: Achievement): number =>
+  getUnlockedAt(progress, achievement)
+    ? 1
+    : Math.min(1, Math.max(progress.best[achievement.id] ?? 0, progress.game?.best[achievement.id] ?? 0) / achievement.target);
+
+// --- Persistence ---
+
+const isNumberMap = (v: unknown): v is Record<string, number> =>
+  !!v && typeof v === 'object' && Object.values(v as object).every(n => typeof n === 'number');
+
+const isTimeMap = (v: unknown): v is Record<string, string> =>
+  !!v && typeof v === 'object' && Object.values(v as object).every(at => typeof at === 'string');
+
+const isSnapshot = (v: unknown): v is GameTallySnapshot => {
+  const t = v as GameTallySnapshot;
+  return !!t && typeof t === 'object' && isNumberMap(t.totals) && isTimeMap(t.unlocked) && isNumberMap(t.best);
+};
+
+const isGameTally = (v: unknown): v is GameTally => {
+  const t = v as GameTally;
+  return isSnapshot(t) && typeof t.id === 'string'
+    && Array.isArray(t.undoStack) && t.undoStack.every(isSnapshot) && Array.isArray(t.redoStack) && t.redoStack.every(isSnapshot);
+};
+
+export const loadAchievements = (): AchievementProgress => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ACHIEVEMENTS_KEY) || 'null');
+    if (!stored || typeof stored !== 'object') return EMPTY_PROGRESS;
+    const unlocked = stored.unlocked && typeof stored.unlocked === 'object' ? stored.unlocked : {};
+    return {
+      unlocked: Object.fromEntries(Object.entries(unlocked).filter(([, at]) => typeof at === 'string')) as Record<string, string>,
+      best: isNumberMap(stored.best) ? stored.best : {},
+      totals: isNumberMap(stored.totals) ? stored.totals : {},
+      game: isGameTally(stored.game) ? stored.game : undefined,
+    };
+  } catch {
+    return EMPTY_PROGRESS;
+  }
+};
+
+export const saveAchievements = (progress: AchievementProgress) => {
+  localStorage.setItem(ACHIEVEMENTS_KEY, JSON.stringify(progress));
+};
@@ -0,0 +1,71 @@
+import { GameAction, GameEvent, GameState } from '../types';
+import { getPiece } from './gameEngine';
+import { getColorName } from './palette';
+import { getPowerUpInfo } from './powerUps';
+
+// Plain-language summaries of a turn for the screen reader live region
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+const describeSource = (state: GameState, source: number | 'hold') => {
+  const piece = getPiece(state, source);
+  const name = piece ? `${getColorName(piece.color)} ` : '';
+  return source === 'hold' ? `${name}hold piece` : `${name}piece ${source + 1}`;
+};
+
+const describeAction = (action: GameAction, prev: GameState, next: GameState): string | null => {
+  switch (action.type) {
+    case 'place':
+      return `Placed ${describeSource(prev, action.source)} at row ${action.y + 1}, column ${action.x + 1}. Score ${next.score}.`;
+    case 'hold':
+      return `Moved ${describeSource(prev, action.source)} to hold.`;
+    case 'rotate':
+      return `Flipped ${describeSource(prev, action.source)}. ${plural(next.keys, 'key')} left.`;
+    case 'powerUp': {
+      const { label } = getPowerUpInfo(action.powerUp);
+      if (action.powerUp === 'reroll') return `${label}: fresh tray dealt.`;
+      const target = action.powerUp === 'lineEraser'
+        ? action.axis === 'column' ? `column ${action.x + 1}` : `row ${action.y + 1}`
+        : `row ${action.y + 1}, column ${action.x + 1}`;
+      return `${label} used on ${target}. ${plural(next.keys, 'key')} left.`;
+    }
+    case 'undo':
+      return `Move undone. Score ${next.score}, ${plural(next.keys, 'key')} left.`;
+    case 'redo':
+      return `Move redone. Score ${next.score}.`;
+    case 'newGame':
+      return `New game on a ${next.grid.length} by ${next.grid.length} board. ${plural(next.keys, 'key')}.`;
+    default:
+      return null;
+  }
+};
+
+const describeEvent = (event: GameEvent, next: GameState): string => {
+  switch (event.type) {
+    case 'piecePlaced':
+      return ''; // The place action already says where
+    case 'linesCleared': {
+      const parts = [event.count > 0 ? plural(event.count, 'line') : '', event.regions > 0 ? plural(event.regions, 'region') : ''];
+      return `Cleared ${parts.filter(Boolean).join(' and ')}!`;
+    }
+    case 'comboChanged':
+      return event.combo > 1 ? `Combo ${event.combo}x.` : 'Combo ended.';
+    case 'keysEarned':
+      return `Earned ${plural(event.amount, 'key')}, ${next.keys} total.`;
+    case 'powerUpUsed':
+      return `Spent ${plural(event.cost, 'key')}.`;
+    case 'timeAdded':
+      return `Plus ${Math.round(event.ms / 1000)} seconds.`;
+    case 'garbageRisen':
+      return `${plural(event.rows, 'garbage row')} pushed up.`;
+    case 'trayReshuffled':
+      return 'No moves left, tray reshuffled.';
+    case 'gameOver':
+      return `Game over. Final score ${event.score}.`;
+  }
+};
+
+export const describeTurn = (action: GameAction, prev: GameState, next: GameState, events: GameEvent[]): string =>
+  [describeAction(action, prev, next), ...events.map(e => describeEvent(e, next))]
+    .filter(Boolean)
+    .join(' ');
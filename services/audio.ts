@@ -0,0 +1,228 @@
+import { AppSettings, SoundCategory, SoundEffect } from '../types';
+
+// Procedural audio. Every sound is synthesized from oscillators and gain
+// envelopes, so there is nothing to download. Browsers only allow audio after
+// a user gesture, so the AudioContext is created by unlockAudio (call it from
+// a pointer or key handler); until then every call here is a silent no-op.
+
+interface AudioGraph {
+  ctx: AudioContext;
+  master: GainNode;
+  buses: Record<SoundCategory, GainNode>;
+  noise: AudioBuffer; // Shared white noise for percussion
+}
+
+// One synthesized note
+interface Tone {
+  wave: OscillatorType;
+  freq: number;
+  to?: number; // Glide target frequency
+  at?: number; // Start offset in seconds
+  length: number;
+  gain: number;
+}
+
+const MUSIC_LEVEL = 0.45; // Music sits under the effects
+const SCHEDULER_MS = 50;
+const LOOKAHEAD_S = 0.2;
+
+const semitones = (n: number) => Math.pow(2, n / 12);
+
+const CATEGORY_OF: Record<SoundEffect, SoundCategory> = {
+  pickup: 'interface',
+  hoverValid: 'interface',
+  hoverInvalid: 'interface',
+  drop: 'gameplay',
+  lineClear: 'gameplay',
+  keyEarned: 'gameplay',
+  rotate: 'gameplay',
+  hold: 'gameplay',
+  garbage: 'gameplay',
+  gameOver: 'gameplay',
+};
+
+// `level` is the combo for line clears and unused elsewhere
+const RECIPES: Record<SoundEffect, (level: number) => Tone[]> = {
+  pickup: () => [{ wave: 'sine', freq: 440, to: 660, length: 0.08, gain: 0.25 }],
+  hoverValid: () => [{ wave: 'triangle', freq: 880, length: 0.04, gain: 0.08 }],
+  hoverInvalid: () => [{ wave: 'square', freq: 140, length: 0.05, gain: 0.05 }],
+  drop: () => [
+    { wave: 'triangle', freq: 220, to: 110, length: 0.12, gain: 0.45 },
+    { wave: 'sine', freq: 660, length: 0.05, gain: 0.12 },
+  ],
+  // A major arpeggio, two semitones higher per combo step, capped at an octave
+  lineClear: combo => {
+    const base = 523.25 * semitones(Math.min(12, (combo - 1) * 2));
+    return [0, 4, 7, 12].map((step, i) => ({ wave: 'square', freq: base * semitones(step), at: i * 0.06, length: 0.18, gain: 0.14 }));
+  },
+  keyEarned: () => [
+    { wave: 'sine', freq: 1318.5, length: 0.1, gain: 0.2 },
+    { wave: 'sine', freq: 1760, at: 0.08, length: 0.22, gain: 0.2 },
+  ],
+  rotate: () => [{ wave: 'sawtooth', freq: 300, to: 600, length: 0.1, gain: 0.08 }],
+  hold: () => [{ wave: 'triangle', freq: 392, to: 294, length: 0.14, gain: 0.22 }],
+  garbage: () => [
+    { wave: 'sawtooth', freq: 90, to: 55, length: 0.3, gain: 0.3 },
+    { wave: 'square', freq: 60, at: 0.05, length: 0.25, gain: 0.15 },
+  ],
+  gameOver: () => [392, 330, 262, 196].map((freq, i) => ({ wave: 'triangle', freq, at: i * 0.22, length: 0.4, gain: 0.28 })),
+};
+
+let graph: AudioGraph | null = null;
+let musicWanted = false;
+let musicIntensity = 0;
+let sequencer: { timer: number; step: number; nextTime: number } | null = null;
+let mix = { volume: 0.7, muted: false, enabled: { interface: true, gameplay: true, music: true } as Record<SoundCategory, boolean> };
+
+// --- Setup ---
+
+const createGraph = (): AudioGraph | null => {
+  const Context = window.AudioContext ?? window.webkitAudioContext;
+  if (!Context) return null;
+  const ctx: AudioContext = new Context();
+  const master = ctx.createGain();
+  master.connect(ctx.destination);
+  const bus = () => {
+    const gain = ctx.createGain();
+    gain.connect(master);
+    return gain;
+  };
+  const noise = ctx.createBuffer(1, Math.round(ctx.sampleRate * 0.1), ctx.sampleRate);
+  noise.getChannelData(0).forEach((_, i, data) => { data[i] = Math.random() * 2 - 1; });
+  return { ctx, master, buses: { interface: bus(), gameplay: bus(), music: bus() }, noise };
+};
+
+const applyMix = () => {
+  if (!graph) return;
+  const now = graph.ctx.currentTime;
+  graph.master.gain.setTargetAtTime(mix.muted ? 0 : mix.volume, now, 0.02);
+  (Object.keys(graph.buses) as SoundCategory[]).forEach(category => {
+    const level = mix.enabled[category] ? (category === 'music' ? MUSIC_LEVEL : 1) : 0;
+    graph!.buses[category].gain.setTargetAtTime(level, now, 0.02);
+  });
+};
+
+export const unlockAudio = () => {
+  if (!graph) {
+    graph = createGraph();
+    applyMix();
+  }
+  if (graph?.ctx.state === 'suspended') graph.ctx.resume();
+  if (musicWanted) startMusic();
+};
+
+export const applyAudioSettings = (settings: AppSettings) => {
+  mix = {
+    volume: Math.min(1, Math.max(0, settings.volume)),
+    muted: settings.muted,
+    enabled: { interface: settings.interfaceSounds, gameplay: settings.gameSounds, music: settings.music },
+  };
+  applyMix();
+};
+
+const isAudible = (category: SoundCategory) => !!graph && !mix.muted && mix.volume > 0 && mix.enabled[category];
+
+// --- Synthesis ---
+
+const playTone = (tone: Tone, start: number, bus: GainNode) => {
+  const { ctx } = graph!;
+  const t = start + (tone.at ?? 0);
+  const osc = ctx.createOscillator();
+  const env = ctx.createGain();
+  osc.type = tone.wave;
+  osc.frequency.setValueAtTime(tone.freq, t);
+  if (tone.to) osc.frequency.exponentialRampToValueAtTime(tone.to, t + tone.length);
+  // Fast attack, exponential release: clicks are avoided at both ends
+  env.gain.setValueAtTime(0.0001, t);
+  env.gain.linearRampToValueAtTime(tone.gain, t + 0.005);
+  env.gain.exponentialRampToValueAtTime(0.0001, t + tone.length);
+  osc.connect(env);
+  env.connect(bus);
+  osc.start(t);
+  osc.stop(t + tone.length + 0.02);
+};
+
+const playNoise = (start: number, length: number, gain: number, bus: GainNode) => {
+  const { ctx, noise } = graph!;
+  const source = ctx.createBufferSource();
+  const filter = ctx.createBiquadFilter();
+  const env = ctx.createGain();
+  source.buffer = noise;
+  filter.type = 'highpass';
+  filter.frequency.value = 6000;
+  env.gain.setValueAtTime(gain, start);
+  env.gain.exponentialRampToValueAtTime(0.0001, start + length);
+  source.connect(filter);
+  filter.connect(env);
+  env.connect(bus);
+  source.start(start);
+  source.stop(start + length);
+};
+
+export const playSound = (effect: SoundEffect, level = 1) => {
+  const category = CATEGORY_OF[effect];
+  if (!isAudible(category)) return;
+  const start = graph!.ctx.currentTime;
+  RECIPES[effect](level).forEach(tone => playTone(tone, start, graph!.buses[category]));
+};
+
+// --- Adaptive music ---
+// A step sequencer scheduled slightly ahead of the audio clock. Intensity
+// (from how full the board is) raises the tempo and adds layers: bass alone,
+// then an arpeggio, then hi-hats, then a kick.
+
+const CHORD_ROOTS = [0, 8, 3, 10]; // i - VI - III - VII, one chord per bar
+const PENTATONIC = [0, 3, 5, 7, 10];
+const MUSIC_ROOT = 110; // A2
+
+const stepLength = () => 60 / (88 + 40 * musicIntensity) / 2; // Eighth notes
+
+const playStep = (step: number, t: number) => {
+  const bus = graph!.buses.music;
+  const root = MUSIC_ROOT * semitones(CHORD_ROOTS[Math.floor(step / 16) % CHORD_ROOTS.length]);
+  const beat = step % 16;
+
+  if (beat % 4 === 0) {
+    playTone({ wave: 'triangle', freq: beat % 8 === 0 ? root : root * semitones(7), length: stepLength() * 3, gain: 0.3 }, t, bus);
+  }
+  if (musicIntensity > 0.25) {
+    const note = PENTATONIC[(step * 3 + Math.floor(step / 16)) % PENTATONIC.length] + 12;
+    playTone({ wave: 'square', freq: root * semitones(note), length: stepLength() * 0.9, gain: 0.05 + 0.05 * musicIntensity }, t, bus);
+  }
+  if (musicIntensity > 0.55 && step % 2 === 1) {
+    playNoise(t, 0.04, 0.12, bus);
+  }
+  if (musicIntensity > 0.8 && beat % 4 === 0) {
+    playTone({ wave: 'sine', freq: 150, to: 40, length: 0.15, gain: 0.5 }, t, bus);
+  }
+};
+
+const scheduleMusic = () => {
+  if (!graph || !sequencer) return;
+  // Timers are throttled in background tabs; skip what was missed instead of bursting it out
+  if (sequencer.nextTime < graph.ctx.currentTime) sequencer.nextTime = graph.ctx.currentTime + 0.05;
+  while (sequencer.nextTime < graph.ctx.currentTime + LOOKAHEAD_S) {
+    if (isAudible('music')) playStep(sequencer.step, sequencer.nextTime);
+    sequencer.nextTime += stepLength();
+    sequencer.step++;
+  }
+};
+
+// Safe to call before unlocking; the music then starts with the first gesture
+export const startMusic = () => {
+  musicWanted = true;
+  if (!graph || sequencer) return;
+  sequencer = { timer: window.setInterval(scheduleMusic, SCHEDULER_MS), step: 0, nextTime: graph.ctx.currentTime + 0.1 };
+};
+
+export const stopMusic = () => {
+  musicWanted = false;
+  if (!sequencer) return;
+  window.clearInterval(sequencer.timer);
+  sequencer = null;
+};
+
+// Boards rarely get much past 60% full, so that already plays at full intensity
+export const setBoardFill = (fraction: number) => {
+  musicIntensity = Math.min(1, Math.max(0, fraction / 0.6));
+};
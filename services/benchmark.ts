@@ -0,0 +1,292 @@
+import { BoardConfig, DealerConfig, GameAction, GameState } from '../types';
+import { COST_ROTATE, COST_SWAP_HOLD, STARTING_KEYS } from '../constants';
+import { createInitialState, gameReducer, EngineResult } from './gameEngine';
+import { canPlaceAnywhere, DEFAULT_BOARD } from './board';
+import { rotateMatrix } from './gameLogic';
+import { DEFAULT_DEALER } from './pieceDealer';
+import { createRng } from './random';
+import { DEFAULT_SOLVER_OPTIONS } from './solver';
+import { BotContext, BotStrategy } from './bots';
+
+// Headless games for tuning the economy. Bots play through the real reducer,
+// so placement, clearing, scoring and game over are the UI's own rules; only
+// the starting keys and the rotation price can be overridden per run.
+
+export interface BenchConfig {
+  games: number;
+  seed: number; // Game i is dealt from seed + i, so every strategy sees the same deals
+  board: BoardConfig;
+  dealer: DealerConfig;
+  startingKeys: number;
+  rotateCost: number;
+  maxTurns: number; // Safety cap on placements per game
+  beamWidth: number;
+}
+
+export const DEFAULT_BENCH_CONFIG: BenchConfig = {
+  games: 100,
+  seed: 1,
+  board: DEFAULT_BOARD,
+  dealer: DEFAULT_DEALER,
+  startingKeys: STARTING_KEYS,
+  rotateCost: COST_ROTATE,
+  maxTurns: 1000,
+  beamWidth: DEFAULT_SOLVER_OPTIONS.beamWidth,
+};
+
+export interface GameRecord {
+  seed: number;
+  score: number;
+  placements: number;
+  linesCleared: number;
+  keysEarned: number;
+  keysSpent: number;
+  rotations: number;
+  holds: number;
+  powerUps: number;
+  finalKeys: number;
+  cause: string;
+  capped: boolean; // Stopped by maxTurns, so the score is a floor rather than a result
+  stuckShapes: string[]; // Pieces that fit nowhere when the game ended
+}
+
+// --- Playing ---
+
+// "111/100" style key, one row per slash
+export const shapeKey = (matrix: number[][]) => matrix.map(row => row.join('')).join('/');
+
+const fitsRotated = (state: GameState, matrix: number[][]) => {
+  let m = matrix;
+  for (let r = 1; r <= 3; r++) {
+    m = rotateMatrix(m);
+    if (canPlaceAnywhere(state.grid, { id: '', matrix: m, color: '' })) return true;
+  }
+  return false;
+};
+
+// Rotations are charged at the trial price instead of COST_ROTATE
+const applyAction = (state: GameState, action: GameAction, config: BenchConfig): EngineResult => {
+  if (action.type !== 'rotate' || config.rotateCost === COST_ROTATE) return gameReducer(state, action);
+  if (state.keys < config.rotateCost) return { state, events: [] };
+  const result = gameReducer({ ...state, keys: COST_ROTATE }, action);
+  return { state: { ...result.state, keys: state.keys - config.rotateCost }, events: result.events };
+};
+
+const describeEnd = (state: GameState, reason: 'over' | 'stuck' | 'cap'): { cause: string; capped: boolean; stuckShapes: string[] } => {
+  const pieces = state.holdPiece ? [...state.availablePieces, state.holdPiece] : state.availablePieces;
+  const stuck = pieces.filter(piece => !canPlaceAnywhere(state.grid, piece));
+  const stuckShapes = stuck.map(piece => shapeKey(piece.matrix));
+  if (reason === 'cap') return { cause: 'turn cap', capped: true, stuckShapes: [] };
+  if (reason === 'stuck') return { cause: 'bot found no move', capped: false, stuckShapes };
+  const cause = stuck.some(piece => fitsRotated(state, piece.matrix)) ? 'locked, a rotation would fit' : 'locked, nothing fits';
+  return { cause, capped: false, stuckShapes };
+};
+
+export const playBotGame = (strategy: BotStrategy, seed: number, config: BenchConfig): GameRecord => {
+  const { board, dealer } = config;
+  const start = gameReducer(createInitialState(0, seed, board, dealer), { type: 'newGame', seed, board, dealer }).state;
+  let state: GameState = { ...start, keys: config.startingKeys };
+  const rng = createRng(seed ^ 0x5bd1e995); // The bot's own coin flips, apart from the deal
+  const context: BotContext = { random: rng.next, rotateCost: config.rotateCost, beamWidth: config.beamWidth };
+  const record = { seed, placements: 0, linesCleared: 0, keysEarned: 0, keysSpent: 0, rotations: 0, holds: 0, powerUps: 0 };
+  let reason: 'over' | 'stuck' | 'cap' = 'over';
+
+  turns: while (!state.isGameOver) {
+    if (record.placements >= config.maxTurns) {
+      reason = 'cap';
+      break;
+    }
+    const actions = strategy.nextTurn(state, context);
+    if (actions.length === 0) {
+      reason = 'stuck';
+      break;
+    }
+    for (const action of actions) {
+      const { state: next, events } = applyAction(state, action, config);
+      if (next === state) {
+        // A bot asking for an illegal move is a bug in the bot, not a game result
+        throw new Error(`${strategy.id} played an illegal ${action.type} in game ${seed}`);
+      }
+      if (action.type === 'place') record.placements++;
+      if (action.type === 'rotate') {
+        record.rotations++;
+        record.keysSpent += config.rotateCost;
+      }
+      if (action.type === 'hold') {
+        record.holds++;
+        record.keysSpent += COST_SWAP_HOLD;
+      }
+      events.forEach(event => {
+        if (event.type === 'keysEarned') record.keysEarned += event.amount;
+        if (event.type === 'linesCleared') record.linesCleared += event.count + event.regions;
+        if (event.type === 'powerUpUsed') {
+          record.powerUps++;
+          record.keysSpent += event.cost;
+        }
+      });
+      state = next;
+      if (state.isGameOver) break turns;
+    }
+  }
+
+  return { ...record, score: state.score, finalKeys: state.keys, ...describeEnd(state, reason) };
+};
+
+// --- Reporting ---
+
+export interface Distribution {
+  mean: number;
+  stdDev: number;
+  min: number;
+  p10: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p90: number;
+  max: number;
+}
+
+export interface StrategyReport {
+  strategy: string;
+  description: string;
+  games: number;
+  capped: number; // Games stopped by maxTurns; left out of score and placements
+  msPerGame: number;
+  score: Distribution; // Finished games only
+  scoreHistogram: { from: number; to: number; count: number }[];
+  placements: Distribution; // Game length, finished games only
+  linesPerGame: number;
+  keys: {
+    earnedPerGame: number;
+    spentPerGame: number;
+    balancePerGame: number; // Earned minus spent, starting keys aside
+    finalMean: number;
+    rotationsPerGame: number;
+    holdsPerGame: number;
+    powerUpsPerGame: number;
+  };
+  causes: Record<string, number>;
+  stuckShapes: Record<string, number>;
+}
+
+export interface BenchReport {
+  config: BenchConfig;
+  strategies: StrategyReport[];
+}
+
+const HISTOGRAM_BUCKETS = 10;
+
+const round = (n: number, digits = 2) => Math.round(n * 10 ** digits) / 10 ** digits;
+const mean = (values: number[]) => (values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+export const distribution = (values: number[]): Distribution => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))] ?? 0;
+  const avg = mean(sorted);
+  return {
+    mean: round(avg),
+    stdDev: round(Math.sqrt(mean(sorted.map(v => (v - avg) ** 2)))),
+    min: sorted[0] ?? 0,
+    p10: at(0.1),
+    p25: at(0.25),
+    median: at(0.5),
+    p75: at(0.75),
+    p90: at(0.9),
+    max: sorted[sorted.length - 1] ?? 0,
+  };
+};
+
+const histogram = (values: number[]) => {
+  const max = Math.max(0, ...values);
+  const width = Math.max(1, Math.ceil((max + 1) / HISTOGRAM_BUCKETS));
+  return Array.from({ length: HISTOGRAM_BUCKETS }, (_, i) => ({
+    from: i * width,
+    to: (i + 1) * width - 1,
+    count: values.filter(v => v >= i * width && v < (i + 1) * width).length,
+  }));
+};
+
+const tally = (keys: string[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  keys.forEach(key => { counts[key] = (counts[key] ?? 0) + 1; });
+  return Object.fromEntries(Object.entries(counts).sort((a, b) => b[1] - a[1]));
+};
+
+export const summarize = (strategy: BotStrategy, records: GameRecord[], elapsedMs: number): StrategyReport => {
+  const per = (pick: (r: GameRecord) => number) => round(mean(records.map(pick)));
+  const finished = records.filter(r => !r.capped);
+  return {
+    strategy: strategy.id,
+    description: strategy.description,
+    games: records.length,
+    capped: records.length - finished.length,
+    msPerGame: round(elapsedMs / Math.max(1, records.length), 1),
+    score: distribution(finished.map(r => r.score)),
+    scoreHistogram: histogram(finished.map(r => r.score)),
+    placements: distribution(finished.map(r => r.placements)),
+    linesPerGame: per(r => r.linesCleared),
+    keys: {
+      earnedPerGame: per(r => r.keysEarned),
+      spentPerGame: per(r => r.keysSpent),
+      balancePerGame: per(r => r.keysEarned - r.keysSpent),
+      finalMean: per(r => r.finalKeys),
+      rotationsPerGame: per(r => r.rotations),
+      holdsPerGame: per(r => r.holds),
+      powerUpsPerGame: per(r => r.powerUps),
+    },
+    causes: tally(records.map(r => r.cause)),
+    stuckShapes: tally(records.flatMap(r => r.stuckShapes)),
+  };
+};
+
+// --- Text output ---
+
+const table = (headers: string[], rows: (string | number)[][]): string => {
+  const cells = [headers, ...rows.map(row => row.map(String))];
+  const widths = headers.map((_, i) => Math.max(...cells.map(row => row[i].length)));
+  const line = (row: string[]) => row.map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join('  ');
+  return [line(cells[0]), widths.map(w => '-'.repeat(w)).join('  '), ...cells.slice(1).map(line)].join('\n');
+};
+
+const percent = (count: number, total: number) => `${round((100 * count) / Math.max(1, total), 1)}%`;
+
+// Blanks out a distribution that covers no finished games
+const finishedStats = (s: StrategyReport, values: number[]) => (s.games > s.capped ? values : values.map(() => '-'));
+
+export const formatReport = (report: BenchReport): string => {
+  const { config, strategies } = report;
+  const { dealer, board } = config;
+  const sections = [
+    `${config.games} games per strategy from seed ${config.seed}, ${board.size}x${board.size}${board.regionClears ? ' with regions' : ''}, `
+      + `dealer ${dealer.shapeSet}/${dealer.curve}${dealer.bag ? '/bag' : ''}${dealer.fair ? '/fair' : ''}`
+      + `${dealer.weights ? ` weights ${dealer.weights.join(',')}` : ''}, `
+      + `${config.startingKeys} starting keys, rotation ${config.rotateCost} keys`,
+    table(
+      ['Score', 'finished', 'capped', 'mean', 'sd', 'min', 'p10', 'p25', 'median', 'p75', 'p90', 'max'],
+      strategies.map(s => [
+        s.strategy, s.games - s.capped, s.capped,
+        ...finishedStats(s, [s.score.mean, s.score.stdDev, s.score.min, s.score.p10, s.score.p25, s.score.median, s.score.p75, s.score.p90, s.score.max]),
+      ]),
+    ),
+    table(
+      ['Length', 'placements', 'median', 'p90', 'lines/game', 'ms/game'],
+      strategies.map(s => [s.strategy, ...finishedStats(s, [s.placements.mean, s.placements.median, s.placements.p90]), s.linesPerGame, s.msPerGame]),
+    ),
+    table(
+      ['Keys/game', 'earned', 'spent', 'balance', 'final', 'rotations', 'holds', 'power-ups'],
+      strategies.map(s => [
+        s.strategy, s.keys.earnedPerGame, s.keys.spentPerGame, s.keys.balancePerGame, s.keys.finalMean,
+        s.keys.rotationsPerGame, s.keys.holdsPerGame, s.keys.powerUpsPerGame,
+      ]),
+    ),
+    ...strategies.map(s => table(
+      [`Ends: ${s.strategy}`, 'games', 'share'],
+      Object.entries(s.causes).map(([cause, count]) => [cause, count, percent(count, s.games)]),
+    )),
+    ...strategies.map(s => table(
+      [`Stuck shapes: ${s.strategy}`, 'count'],
+      Object.entries(s.stuckShapes).slice(0, 8).map(([shape, count]) => [shape, count]),
+    )),
+  ];
+  return sections.join('\n\n');
+};
@@ -0,0 +1,113 @@
+import { BoardConfig, Grid, Shape } from '../types';
+import { GRID_SIZE, MIN_BOARD_SIZE, MAX_BOARD_SIZE, REGION_SIZE, REGION_POINTS } from '../constants';
+import { calculateScore } from './gameLogic';
+
+// Board rules that read the geometry from the grid itself, so the same
+// functions serve every board size and the optional 3x3 region variant.
+
+export const DEFAULT_BOARD: BoardConfig = { size: GRID_SIZE, regionClears: false };
+
+// Regions tile the board exactly, so the variant needs a multiple of 3
+export const supportsRegions = (size: number) => size % REGION_SIZE === 0;
+
+export const normalizeBoardConfig = (config: Partial<BoardConfig>): BoardConfig => {
+  const size = Math.min(MAX_BOARD_SIZE, Math.max(MIN_BOARD_SIZE, Math.round(config.size ?? GRID_SIZE)));
+  return { size, regionClears: !!config.regionClears && supportsRegions(size) };
+};
+
+export const isSameBoard = (a: BoardConfig, b: BoardConfig) =>
+  a.size === b.size && a.regionClears === b.regionClears;
+
+export const canPlacePiece = (grid: Grid, piece: Shape, x: number, y: number): boolean => {
+  for (let dy = 0; dy < piece.matrix.length; dy++) {
+    for (let dx = 0; dx < piece.matrix[dy].length; dx++) {
+      if (piece.matrix[dy][dx] !== 1) continue;
+      const gx = x + dx;
+      const gy = y + dy;
+      if (gy < 0 || gy >= grid.length || gx < 0 || gx >= grid[gy].length) return false;
+      if (grid[gy][gx] !== null) return false;
+    }
+  }
+  return true;
+};
+
+export const placePiece = (grid: Grid, piece: Shape, x: number, y: number): Grid => {
+  const next = grid.map(row => [...row]);
+  piece.matrix.forEach((row, dy) => row.forEach((v, dx) => {
+    if (v === 1) next[y + dy][x + dx] = piece.color;
+  }));
+  return next;
+};
+
+export interface ClearResult {
+  newGrid: Grid;
+  linesCleared: number;
+  regionsCleared: number;
+  clearedCells: { x: number, y: number, color: string }[];
+}
+
+// Rows, columns and (optionally) 3x3 regions are all detected on the
+// pre-clear board, so overlapping completions all count
+export const checkLines = (grid: Grid, regionClears = false): ClearResult => {
+  const size = grid.length;
+  const clear = new Set<number>();
+  let linesCleared = 0;
+  let regionsCleared = 0;
+
+  for (let i = 0; i < size; i++) {
+    if (grid[i].every(c => c !== null)) {
+      linesCleared++;
+      for (let x = 0; x < size; x++) clear.add(i * size + x);
+    }
+    if (grid.every(row => row[i] !== null)) {
+      linesCleared++;
+      for (let y = 0; y < size; y++) clear.add(y * size + i);
+    }
+  }
+
+  if (regionClears && supportsRegions(size)) {
+    for (let ry = 0; ry < size; ry += REGION_SIZE) {
+      for (let rx = 0; rx < size; rx += REGION_SIZE) {
+        const cells: number[] = [];
+        for (let y = ry; y < ry + REGION_SIZE; y++) {
+          for (let x = rx; x < rx + REGION_SIZE; x++) cells.push(y * size + x);
+        }
+        if (cells.every(i => grid[Math.floor(i / size)][i % size] !== null)) {
+          regionsCleared++;
+          cells.forEach(i => clear.add(i));
+        }
+      }
+    }
+  }
+
+  const newGrid = grid.map(row => [...row]);
+  const clearedCells: ClearResult['clearedCells'] = [];
+  clear.forEach(i => {
+    const x = i % size;
+    const y = Math.floor(i / size);
+    clearedCells.push({ x, y, color: grid[y][x] as string });
+    newGrid[y][x] = null;
+  });
+
+  return { newGrid, linesCleared, regionsCleared, clearedCells };
+};
+
+export const canPlaceAnywhere = (grid: Grid, piece: Shape): boolean => {
+  for (let y = 0; y < grid.length; y++) {
+    for (let x = 0; x < grid[y].length; x++) {
+      if (canPlacePiece(grid, piece, x, y)) return true;
+    }
+  }
+  return false;
+};
+
+export const checkGameOver = (grid: Grid, pieces: Shape[], holdPiece: Shape | null): boolean => {
+  const candidates = holdPiece ? [...pieces, holdPiece] : pieces;
+  return !candidates.some(piece => canPlaceAnywhere(grid, piece));
+};
+
+// Lines keep the original scoring; each region adds its own combo-scaled bonus
+export const calculateClearScore = (linesCleared: number, regionsCleared: number, combo: number): number => {
+  const lineScore = linesCleared > 0 ? calculateScore(linesCleared, combo) : 0;
+  return lineScore + regionsCleared * REGION_POINTS * combo;
+};
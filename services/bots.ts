@@ -0,0 +1,121 @@
+import { GameAction, GameState, PieceSource } from '../types';
+import { COST_SWAP_HOLD } from '../constants';
+import { canPlacePiece, checkLines, placePiece } from './board';
+import { getPiece } from './gameEngine';
+import { findEscapePowerUp } from './powerUps';
+import { DEFAULT_SOLVER_OPTIONS, countHoles, solve } from './solver';
+
+// Autoplayers for the benchmark (scripts/bench.ts). Each turn a strategy looks
+// at the state and returns the actions it wants: usually some rotations and a
+// placement, or parking a piece in hold. The engine applies them with exactly
+// the rules a human game runs on.
+
+export interface BotContext {
+  random: () => number;
+  rotateCost: number;
+  beamWidth: number; // Lookahead search width; wider plans better and runs slower
+}
+
+export interface BotStrategy {
+  id: string;
+  description: string;
+  nextTurn: (state: GameState, context: BotContext) => GameAction[]; // Empty when it has no move
+}
+
+interface Placement {
+  source: PieceSource;
+  x: number;
+  y: number;
+}
+
+const listPlacements = (state: GameState): Placement[] => {
+  const sources: PieceSource[] = state.availablePieces.map((_, i) => i);
+  if (state.holdPiece) sources.push('hold');
+  const placements: Placement[] = [];
+  sources.forEach(source => {
+    const piece = getPiece(state, source)!;
+    for (let y = 0; y < state.grid.length; y++) {
+      for (let x = 0; x < state.grid.length; x++) {
+        if (canPlacePiece(state.grid, piece, x, y)) placements.push({ source, x, y });
+      }
+    }
+  });
+  return placements;
+};
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+const toPlace = (p: Placement): GameAction => ({ type: 'place', source: p.source, x: p.x, y: p.y });
+
+// Shopping on a stuck board; empty when nothing affordable helps, which ends the game
+const buyEscape = (state: GameState): GameAction[] => {
+  const use = findEscapePowerUp(state);
+  return use ? [{ type: 'powerUp', ...use }] : [];
+};
+
+// --- Strategies ---
+
+const randomBot: BotStrategy = {
+  id: 'random',
+  description: 'Any legal placement, uniformly; never rotates or holds',
+  nextTurn: (state, { random }) => {
+    const placements = listPlacements(state);
+    return placements.length > 0 ? [toPlace(pick(placements, random))] : buyEscape(state);
+  },
+};
+
+// Most lines cleared this turn, then fewest holes left behind
+const greedyBot: BotStrategy = {
+  id: 'greedy',
+  description: 'Clears the most lines now, then leaves the fewest holes; never rotates or holds',
+  nextTurn: (state, { random }) => {
+    let best: Placement[] = [];
+    let bestScore = -Infinity;
+    listPlacements(state).forEach(p => {
+      const piece = getPiece(state, p.source)!;
+      const { newGrid, linesCleared, regionsCleared } = checkLines(placePiece(state.grid, piece, p.x, p.y), state.board.regionClears);
+      const score = (linesCleared + regionsCleared) * 1000 - countHoles(newGrid);
+      if (score > bestScore) {
+        best = [p];
+        bestScore = score;
+      } else if (score === bestScore) {
+        best.push(p);
+      }
+    });
+    return best.length > 0 ? [toPlace(pick(best, random))] : buyEscape(state);
+  },
+};
+
+// Beam search over the whole tray (see solver.ts), buying rotations with keys
+// and playing from hold. A piece the best plan leaves out is parked in an empty
+// hold slot, which lets the tray restock instead of locking up.
+const lookaheadBot: BotStrategy = {
+  id: 'lookahead',
+  description: 'Plans the whole tray with rotations and hold, parks pieces it cannot fit',
+  nextTurn: (state, { rotateCost, beamWidth }) => {
+    const plan = solve(
+      { grid: state.grid, availablePieces: state.availablePieces, holdPiece: state.holdPiece, keys: state.keys, regionClears: state.board.regionClears },
+      { ...DEFAULT_SOLVER_OPTIONS, rotateCost, beamWidth },
+    );
+
+    if (!state.holdPiece && state.keys >= COST_SWAP_HOLD) {
+      // Move sources are relative to the tray left by the previous moves, so replay them to find the leftover
+      const tray = [...state.availablePieces];
+      plan?.moves.forEach(move => {
+        if (move.source !== 'hold') tray.splice(move.source, 1);
+      });
+      if (tray.length > 0 && (!plan || plan.moves.length < state.availablePieces.length)) {
+        return [{ type: 'hold', source: state.availablePieces.indexOf(tray[0]) }];
+      }
+    }
+
+    const first = plan?.moves[0];
+    if (!first) return buyEscape(state);
+    const rotations: GameAction[] = Array.from({ length: first.rotations }, () => ({ type: 'rotate', source: first.source }));
+    return [...rotations, { type: 'place', source: first.source, x: first.x, y: first.y }];
+  },
+};
+
+export const BOT_STRATEGIES: BotStrategy[] = [randomBot, greedyBot, lookaheadBot];
+
+export const getBotStrategy = (id: string): BotStrategy | undefined => BOT_STRATEGIES.find(s => s.id === id);
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { GameState, Grid, Shape } from '../types';
+import { STARTING_KEYS, TRAY_SIZE } from '../constants';
+import { calculateClearScore } from './board';
+import { createInitialState, gameReducer } from './gameEngine';
+import { DEFAULT_DEALER } from './pieceDealer';
+
+const shape = (id: string, matrix: number[][]): Shape => ({ id, matrix, color: '#fff' });
+
+const DOT = shape('dot', [[1]]);
+const BAR = shape('bar', [[1, 1, 1]]);
+const SQUARE = shape('square', [[1, 1], [1, 1]]);
+
+const gridOf = (filled: (x: number, y: number) => boolean, size = 8): Grid =>
+  Array.from({ length: size }, (_, y) => Array.from({ length: size }, (_, x) => (filled(x, y) ? '#000' : null)));
+
+// An 8x8 game with a hand-picked board and tray
+const setUp = (overrides: Partial<GameState>): GameState => ({ ...createInitialState(), ...overrides });
+
+describe('newGame', () => {
+  it('deals the same tray from the same seed', () => {
+    const start = (seed: number) => gameReducer(createInitialState(), { type: 'newGame', seed, dealer: DEFAULT_DEALER }).state;
+    expect(start(42).availablePieces).toHaveLength(TRAY_SIZE);
+    expect(start(42).availablePieces).toEqual(start(42).availablePieces);
+    expect(start(42).keys).toBe(STARTING_KEYS);
+  });
+});
+
+describe('scoring', () => {
+  it('scores ten points per placed block and resets the combo', () => {
+    const state = setUp({ availablePieces: [BAR, DOT], combo: 3 });
+    const { state: next, events } = gameReducer(state, { type: 'place', source: 0, x: 2, y: 2 });
+    expect(next.score).toBe(30);
+    expect(next.combo).toBe(1);
+    expect(next.grid[2].slice(2, 5)).toEqual(['#fff', '#fff', '#fff']);
+    expect(next.availablePieces).toEqual([DOT]);
+    expect(events.map(e => e.type)).toEqual(['piecePlaced', 'comboChanged']);
+  });
+
+  it('adds the clear bonus, a key per line and a combo step when a row fills', () => {
+    const state = setUp({ grid: gridOf((x, y) => y === 7 && x > 0), availablePieces: [DOT, BAR], keys: 0 });
+    const { state: next, events } = gameReducer(state, { type: 'place', source: 0, x: 0, y: 7 });
+    expect(next.score).toBe(10 + calculateClearScore(1, 0, 1));
+    expect(next.grid[7].every(cell => cell === null)).toBe(true);
+    expect(next.keys).toBe(1);
+    expect(next.combo).toBe(2);
+    expect(next.highScore).toBe(next.score);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'linesCleared', count: 1, regions: 0 }));
+  });
+
+  it('scales a following clear by the combo', () => {
+    const state = setUp({
+      grid: gridOf((x, y) => (y === 7 && x > 0) || (y === 6 && x > 0)),
+      availablePieces: [DOT, DOT, BAR],
+    });
+    const first = gameReducer(state, { type: 'place', source: 0, x: 0, y: 7 }).state;
+    const second = gameReducer(first, { type: 'place', source: 0, x: 0, y: 6 }).state;
+    expect(second.score - first.score).toBe(10 + calculateClearScore(1, 0, 2));
+    expect(second.combo).toBe(3);
+  });
+
+  it('rejects a placement that overlaps the board', () => {
+    const state = setUp({ grid: gridOf((x, y) => x === 0 && y === 0), availablePieces: [DOT] });
+    expect(gameReducer(state, { type: 'place', source: 0, x: 0, y: 0 }).state).toBe(state);
+  });
+});
+
+describe('game over', () => {
+  // Every fourth diagonal is empty: no full line, and no room for anything wider than a dot
+  const CHECKED = gridOf((x, y) => (x + y) % 4 !== 0);
+
+  it('ends the game when no piece fits and the keys buy no way out', () => {
+    const state = setUp({ grid: CHECKED, availablePieces: [DOT, SQUARE], keys: 0 });
+    const { state: next, events } = gameReducer(state, { type: 'place', source: 0, x: 0, y: 0 });
+    expect(next.isGameOver).toBe(true);
+    expect(events).toContainEqual({ type: 'gameOver', score: next.score });
+    expect(gameReducer(next, { type: 'place', source: 0, x: 0, y: 0 }).state).toBe(next);
+  });
+
+  it('keeps going while a power-up the player can afford would free a piece', () => {
+    const state = setUp({ grid: CHECKED, availablePieces: [DOT, SQUARE], keys: 5 });
+    const next = gameReducer(state, { type: 'place', source: 0, x: 0, y: 0 }).state;
+    expect(next.isGameOver).toBe(false);
+
+    const bombed = gameReducer(next, { type: 'powerUp', powerUp: 'bomb', x: 3, y: 3 }).state;
+    expect(bombed.keys).toBe(0);
+    expect(gameReducer(bombed, { type: 'place', source: 0, x: 2, y: 2 }).state.score).toBeGreaterThan(next.score);
+  });
+
+  it('counts the hold piece as a way out', () => {
+    const state = setUp({ grid: CHECKED, availablePieces: [DOT, SQUARE], holdPiece: DOT, keys: 0 });
+    expect(gameReducer(state, { type: 'place', source: 0, x: 0, y: 0 }).state.isGameOver).toBe(false);
+  });
+});
+
+describe('garbage', () => {
+  const start = (variant: 'versus' | 'survival') =>
+    gameReducer(createInitialState(), { type: 'newGame', seed: 9, dealer: DEFAULT_DEALER, variant }).state;
+
+  it('leaves a versus deck in step with the opponent who took no garbage', () => {
+    const clean = start('versus');
+    const hit = gameReducer(clean, { type: 'garbage', rows: 2 }).state;
+    expect(hit.garbageRows).toBe(2);
+    expect(hit.grid[7].some(cell => cell === null)).toBe(true);
+    expect(hit.rngState).toBe(clean.rngState);
+    expect(hit.garbageRngState).not.toBe(clean.garbageRngState);
+  });
+
+  it('is only taken in versus', () => {
+    const survival = start('survival');
+    expect(gameReducer(survival, { type: 'garbage', rows: 1 }).state).toBe(survival);
+  });
+});
@@ -0,0 +1,367 @@
+import {
+  BoardConfig, DealerConfig, GameAction, GameEvent, GameSnapshot, GameState, GameVariant, LineAxis, PieceSource, PowerUp, Shape
+} from '../types';
+import {
+  COST_ROTATE, COST_SWAP_HOLD, COST_UNDO, UNDO_LIMIT, STARTING_KEYS, TRAY_SIZE,
+  createEmptyGrid
+} from '../constants';
+import { rotateMatrix } from './gameLogic';
+import {
+  DEFAULT_BOARD, canPlacePiece, placePiece, checkLines, checkGameOver
+} from './board';
+import { UNIFORM_DEALER, dealTray } from './pieceDealer';
+import { getGarbageInterval, getStartingClock, getTimeBonus, hasClock, keepsHistory, raiseGarbage, scoreClear } from './modes';
+import { FILLER_BLOCK, canEscapeWithPowerUp, canUsePowerUp, getPowerUpCells, getPowerUpInfo } from './powerUps';
+
+// Pure, framework-free game rules. Every action produces the next state plus
+// the events a front end may want to react to (FX, haptics, persistence).
+// Board geometry lives in the state, so the rules never assume a variant.
+
+export interface EngineResult {
+  state: GameState;
+  events: GameEvent[];
+}
+
+// Offsets the garbage stream from the deal's, which starts at the seed itself
+const GARBAGE_STREAM = 0x9e3779b9;
+
+export const createInitialState = (
+  highScore = 0, seed = 0, board: BoardConfig = DEFAULT_BOARD, dealer: DealerConfig = UNIFORM_DEALER,
+  variant: GameVariant = 'standard'
+): GameState => ({
+  board,
+  seed,
+  rngState: seed,
+  garbageRngState: (seed ^ GARBAGE_STREAM) >>> 0,
+  dealer,
+  bag: [],
+  variant,
+  clockMs: getStartingClock(variant),
+  garbageRows: 0,
+  grid: createEmptyGrid(board.size),
+  score: 0,
+  highScore,
+  keys: STARTING_KEYS,
+  availablePieces: [],
+  holdPiece: null,
+  isGameOver: false,
+  combo: 1,
+  pieceQueue: null,
+  undoStack: [],
+  redoStack: [],
+});
+
+export const countBlocks = (matrix: number[][]): number =>
+  matrix.flat().reduce((acc, v) => acc + v, 0);
+
+export const getPiece = (state: GameState, source: PieceSource): Shape | null => {
+  if (source === 'hold') return state.holdPiece;
+  return state.availablePieces[source] ?? null;
+};
+
+// Board cells covered by a piece whose top-left sits at (x, y)
+export const getPieceCells = (piece: Shape, x: number, y: number): { x: number, y: number }[] => {
+  const cells: { x: number, y: number }[] = [];
+  piece.matrix.forEach((row, dy) => row.forEach((v, dx) => {
+    if (v === 1) cells.push({ x: x + dx, y: y + dy });
+  }));
+  return cells;
+};
+
+// Deals a fresh tray from the state's PRNG, so the same seed and dealer always yield the same sequence.
+// Puzzles deal their fixed queue instead and simply run dry.
+const dealPieces = (state: GameState): GameState => {
+  if (state.pieceQueue) {
+    return {
+      ...state,
+      availablePieces: state.pieceQueue.slice(0, TRAY_SIZE),
+      pieceQueue: state.pieceQueue.slice(TRAY_SIZE),
+    };
+  }
+  return { ...state, ...dealTray(state) };
+};
+
+// Game over is always evaluated against the state being returned,
+// so no check can ever see a stale grid or hold slot. A stuck board
+// stays playable while an affordable power-up would free a piece.
+const resolveGameOver = (state: GameState, events: GameEvent[]): EngineResult => {
+  if (state.isGameOver || !checkGameOver(state.grid, state.availablePieces, state.holdPiece)) return { state, events };
+
+  // Zen never ends on a stuck tray: it is swapped for one with a piece that fits
+  if (state.variant === 'zen') {
+    const reshuffled = { ...state, ...dealTray({ ...state, dealer: { ...state.dealer, fair: true } }) };
+    if (!checkGameOver(reshuffled.grid, reshuffled.availablePieces, reshuffled.holdPiece)) {
+      events.push({ type: 'trayReshuffled' });
+      return { state: reshuffled, events };
+    }
+  }
+  if (canEscapeWithPowerUp(state)) return { state, events };
+
+  events.push({ type: 'gameOver', score: state.score });
+  return { state: { ...state, isGameOver: true }, events };
+};
+
+// Refill the tray once it runs dry
+const restockIfEmpty = (state: GameState): GameState =>
+  state.availablePieces.length === 0 ? dealPieces(state) : state;
+
+const unchanged = (state: GameState): EngineResult => ({ state, events: [] });
+
+// Drops a piece onto the grid and settles it: scoring, clears, keys and combo.
+// The caller decides where the piece came from.
+const settlePiece = (state: GameState, piece: Shape, x: number, y: number, events: GameEvent[]): GameState => {
+  // 1. Place Piece & score placement
+  const placedGrid = placePiece(state.grid, piece, x, y);
+  let turnPoints = countBlocks(piece.matrix) * 10;
+  events.push({ type: 'piecePlaced', cells: getPieceCells(piece, x, y), color: piece.color });
+
+  // 2. Check Lines
+  const { newGrid, linesCleared, regionsCleared, clearedCells } = checkLines(placedGrid, state.board.regionClears);
+  const cleared = linesCleared + regionsCleared;
+
+  // 3. Combo & Bonuses
+  let { keys, combo, clockMs } = state;
+  if (cleared > 0) {
+    turnPoints += scoreClear(state.variant, linesCleared, regionsCleared, combo, clearedCells);
+    const bonus = getTimeBonus(state.variant, cleared, combo);
+    if (bonus > 0) {
+      clockMs += bonus;
+      events.push({ type: 'timeAdded', ms: bonus });
+    }
+    keys += cleared;
+    combo += 1;
+    events.push({ type: 'linesCleared', count: linesCleared, regions: regionsCleared, color: piece.color, cells: clearedCells });
+    events.push({ type: 'keysEarned', amount: cleared });
+  } else {
+    combo = 1;
+  }
+  if (combo !== state.combo) events.push({ type: 'comboChanged', combo });
+
+  const score = state.score + turnPoints;
+  return { ...state, grid: newGrid, score, highScore: Math.max(state.highScore, score), keys, combo, clockMs };
+};
+
+const place = (state: GameState, source: PieceSource, x: number, y: number): EngineResult => {
+  const piece = getPiece(state, source);
+  if (!piece || !canPlacePiece(state.grid, piece, x, y)) return unchanged(state);
+
+  const events: GameEvent[] = [];
+  const settled = settlePiece(state, piece, x, y, events);
+
+  // 4. Remove from Source
+  const next = restockIfEmpty({
+    ...settled,
+    holdPiece: source === 'hold' ? null : state.holdPiece,
+    availablePieces: source === 'hold'
+      ? state.availablePieces
+      : state.availablePieces.filter((_, i) => i !== source),
+  });
+
+  return resolveGameOver(next, events);
+};
+
+const hold = (state: GameState, source: number): EngineResult => {
+  const piece = state.availablePieces[source];
+  if (!piece || state.keys < COST_SWAP_HOLD) return unchanged(state);
+
+  // Swap puts the old hold back into the same tray slot, otherwise the tray shrinks
+  const availablePieces = state.holdPiece
+    ? state.availablePieces.map((p, i) => (i === source ? state.holdPiece as Shape : p))
+    : state.availablePieces.filter((_, i) => i !== source);
+
+  const next = restockIfEmpty({ ...state, keys: state.keys - COST_SWAP_HOLD, holdPiece: piece, availablePieces });
+  return resolveGameOver(next, []);
+};
+
+const rotate = (state: GameState, source: PieceSource): EngineResult => {
+  const piece = getPiece(state, source);
+  if (!piece || state.keys < COST_ROTATE) return unchanged(state);
+
+  const rotated: Shape = { ...piece, matrix: rotateMatrix(piece.matrix) };
+  const next: GameState = {
+    ...state,
+    keys: state.keys - COST_ROTATE,
+    holdPiece: source === 'hold' ? rotated : state.holdPiece,
+    availablePieces: source === 'hold'
+      ? state.availablePieces
+      : state.availablePieces.map((p, i) => (i === source ? rotated : p)),
+  };
+  // A rotation can open up a placement but never close one, so no game over check
+  return { state: next, events: [] };
+};
+
+// --- Power-ups ---
+
+const applyPowerUp = (state: GameState, powerUp: PowerUp, x: number, y: number, axis?: LineAxis): EngineResult => {
+  if (!canUsePowerUp(state, powerUp, x, y, axis)) return unchanged(state);
+
+  const { cost } = getPowerUpInfo(powerUp);
+  const paid: GameState = { ...state, keys: state.keys - cost };
+  const events: GameEvent[] = [{ type: 'powerUpUsed', powerUp, cost }];
+
+  switch (powerUp) {
+    case 'reroll':
+      return resolveGameOver(dealPieces(paid), events);
+    case 'filler': {
+      // Scores and clears like any placement, so it can also extend a combo
+      return resolveGameOver(settlePiece(paid, FILLER_BLOCK, x, y, events), events);
+    }
+    default: {
+      // Destroyers score nothing and leave the combo untouched
+      const grid = paid.grid.map(row => [...row]);
+      getPowerUpCells(grid, powerUp, x, y, axis).forEach(c => {
+        grid[c.y][c.x] = null;
+      });
+      return resolveGameOver({ ...paid, grid }, events);
+    }
+  }
+};
+
+// --- Garbage & clock ---
+
+// Pushes `rows` garbage rows up from the bottom. Overflowing the top of the
+// board ends the game even if power-ups are affordable. Versus players share
+// a seed and must keep sharing a deck however many rows each takes, so their
+// gaps come from the garbage stream; Survival keeps drawing from the deal's
+// PRNG, as its recorded games always have.
+const pushGarbage = (state: GameState, rows: number, events: GameEvent[]): EngineResult => {
+  const separate = state.variant === 'versus';
+  let next = state;
+  for (let i = 0; i < rows; i++) {
+    const { grid, rngState, toppedOut } = raiseGarbage(next.grid, separate ? next.garbageRngState : next.rngState);
+    next = { ...next, grid, garbageRows: next.garbageRows + 1, ...(separate ? { garbageRngState: rngState } : { rngState }) };
+    if (toppedOut) {
+      events.push({ type: 'garbageRisen', rows: i + 1 }, { type: 'gameOver', score: next.score });
+      return { state: { ...next, isGameOver: true }, events };
+    }
+  }
+  if (rows > 0) events.push({ type: 'garbageRisen', rows });
+  return resolveGameOver(next, events);
+};
+
+// Blitz runs out; Survival pushes up a garbage row whenever its countdown expires
+const tick = (state: GameState, ms: number): EngineResult => {
+  if (!hasClock(state.variant) || ms <= 0) return unchanged(state);
+  const events: GameEvent[] = [];
+
+  if (state.variant === 'blitz') {
+    const clockMs = Math.max(0, state.clockMs - ms);
+    if (clockMs > 0) return { state: { ...state, clockMs }, events };
+    events.push({ type: 'gameOver', score: state.score });
+    return { state: { ...state, clockMs, isGameOver: true }, events };
+  }
+
+  // Each row resets the countdown to an interval that shrinks with the rows pushed so far
+  let clockMs = state.clockMs - ms;
+  let rows = 0;
+  while (clockMs <= 0) {
+    rows++;
+    clockMs += getGarbageInterval(state.garbageRows + rows);
+  }
+  return pushGarbage({ ...state, clockMs }, rows, events);
+};
+
+// --- Undo / Redo ---
+
+const takeSnapshot = (state: GameState): GameSnapshot => ({
+  grid: state.grid,
+  availablePieces: state.availablePieces,
+  holdPiece: state.holdPiece,
+  score: state.score,
+  keys: state.keys,
+  combo: state.combo,
+  rngState: state.rngState,
+  bag: state.bag,
+  pieceQueue: state.pieceQueue,
+});
+
+// The undo fee is paid out of the restored balance, so keys earned by the undone move can't fund it
+export const canUndo = (state: GameState): boolean => {
+  const last = state.undoStack[state.undoStack.length - 1];
+  return !!last && last.keys >= COST_UNDO;
+};
+
+export const canRedo = (state: GameState): boolean => state.redoStack.length > 0;
+
+// Any accepted move becomes undoable and invalidates the redo branch
+const recordMove = (prev: GameState, result: EngineResult): EngineResult => {
+  if (result.state === prev || !keepsHistory(prev.variant)) return result;
+  return {
+    ...result,
+    state: {
+      ...result.state,
+      undoStack: [...prev.undoStack, takeSnapshot(prev)].slice(-UNDO_LIMIT),
+      redoStack: [],
+    },
+  };
+};
+
+// Undo also works from a game over, which is how a misplaced final piece is taken back
+const undo = (state: GameState): EngineResult => {
+  if (!canUndo(state)) return unchanged(state);
+  const snapshot = state.undoStack[state.undoStack.length - 1];
+  return {
+    state: {
+      ...state,
+      ...snapshot,
+      keys: snapshot.keys - COST_UNDO,
+      isGameOver: false,
+      undoStack: state.undoStack.slice(0, -1),
+      redoStack: [...state.redoStack, takeSnapshot(state)],
+    },
+    events: [],
+  };
+};
+
+// Redo restores the move but not the fee paid to undo it
+const redo = (state: GameState): EngineResult => {
+  if (!canRedo(state)) return unchanged(state);
+  const snapshot = state.redoStack[state.redoStack.length - 1];
+  const next: GameState = {
+    ...state,
+    ...snapshot,
+    keys: Math.max(0, snapshot.keys - COST_UNDO),
+    undoStack: [...state.undoStack, takeSnapshot(state)].slice(-UNDO_LIMIT),
+    redoStack: state.redoStack.slice(0, -1),
+  };
+  return resolveGameOver(next, []);
+};
+
+export const gameReducer = (state: GameState, action: GameAction): EngineResult => {
+  if (action.type === 'newGame') {
+    const fresh = createInitialState(
+      action.highScore ?? state.highScore, action.seed, action.board ?? DEFAULT_BOARD, action.dealer ?? UNIFORM_DEALER,
+      action.variant ?? 'standard'
+    );
+    const start = action.puzzle
+      ? { ...fresh, grid: action.puzzle.grid, keys: action.puzzle.keys, pieceQueue: action.puzzle.pieces }
+      : fresh;
+    return resolveGameOver(dealPieces(start), []);
+  }
+  if (action.type === 'undo') return undo(state);
+
+  if (state.isGameOver) return unchanged(state);
+
+  switch (action.type) {
+    case 'spawn':
+      // Only restocks an empty tray; a free redeal would be a reroll without the fee
+      return state.availablePieces.length === 0 ? resolveGameOver(dealPieces(state), []) : unchanged(state);
+    case 'place':
+      return recordMove(state, place(state, action.source, action.x, action.y));
+    case 'hold':
+      return recordMove(state, hold(state, action.source));
+    case 'rotate':
+      return recordMove(state, rotate(state, action.source));
+    case 'powerUp':
+      return recordMove(state, applyPowerUp(state, action.powerUp, action.x, action.y, action.axis));
+    case 'redo':
+      return redo(state);
+    case 'tick':
+      return tick(state, action.ms);
+    case 'garbage':
+      // Attacks only exist between versus boards
+      return action.rows > 0 && state.variant === 'versus' ? pushGarbage(state, action.rows, []) : unchanged(state);
+    default:
+      return unchanged(state);
+  }
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { GameAction, GameConfig, GameState } from '../types';
+import { COST_UNDO } from '../constants';
+import { DEFAULT_BOARD } from './board';
+import { createInitialState, gameReducer } from './gameEngine';
+import { DEFAULT_DEALER } from './pieceDealer';
+import { getStartAction } from './replay';
+import { accumulateStats, createGameStats, getKeptActions, recountStats } from './gameStats';
+
+const place = (x: number): GameAction => ({ type: 'place', source: 0, x, y: 0 });
+
+describe('getKeptActions', () => {
+  it('drops an undone move along with what the engine did after it', () => {
+    expect(getKeptActions([place(0), { type: 'spawn' }, { type: 'undo' }, place(1)])).toEqual([place(1)]);
+  });
+
+  it('brings a move back on redo until a new move replaces it', () => {
+    const undone: GameAction[] = [place(0), place(1), { type: 'undo' }, { type: 'undo' }];
+    expect(getKeptActions([...undone, { type: 'redo' }])).toEqual([place(0)]);
+    expect(getKeptActions([...undone, { type: 'redo' }, place(2), { type: 'redo' }])).toEqual([place(0), place(2)]);
+  });
+});
+
+describe('recountStats', () => {
+  const config: GameConfig = { mode: 'classic', seed: 21, board: DEFAULT_BOARD, dealer: DEFAULT_DEALER };
+
+  // Places the first piece at the first spot it fits
+  const firstPlacement = (state: GameState): GameAction => {
+    for (let y = 0; y < state.board.size; y++) {
+      for (let x = 0; x < state.board.size; x++) {
+        const action: GameAction = { type: 'place', source: 0, x, y };
+        if (gameReducer(state, action).state !== state) return action;
+      }
+    }
+    throw new Error('no piece fits');
+  };
+
+  it('counts only the moves that stayed on the board', () => {
+    let state = gameReducer(createInitialState(), getStartAction(config)).state;
+    let stats = createGameStats(state, 'classic', 0);
+    const log: GameAction[] = [];
+    const apply = (action: GameAction) => {
+      const { state: next, events } = gameReducer(state, action);
+      expect(next).not.toBe(state);
+      stats = accumulateStats(stats, action, state, next, events, 0);
+      log.push(action);
+      state = next;
+    };
+    apply(firstPlacement(state));
+    apply({ type: 'undo' });
+    apply({ type: 'hold', source: 0 });
+    apply(firstPlacement(state));
+
+    expect(stats.piecesPlaced).toBe(2);
+    const recounted = recountStats(stats, config, log);
+    expect(recounted).toMatchObject({ piecesPlaced: 1, holdsUsed: 1, keysSpent: COST_UNDO, id: stats.id });
+    expect(recounted.heatmap.flat().reduce((a, b) => a + b, 0)).toBe(state.grid.flat().filter(cell => cell !== null).length);
+  });
+});
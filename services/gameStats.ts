@@ -0,0 +1,231 @@
+import { GameAction, GameConfig, GameEvent, GameMode, GameRecord, GameState, GameStats } from '../types';
+import { COST_UNDO } from '../constants';
+import { createInitialState, gameReducer, getPiece, getPieceCells } from './gameEngine';
+import { getDateKey } from './random';
+import { getStartAction } from './replay';
+
+// Per-game statistics. Tracking is a pure fold over accepted actions, the
+// same way the engine folds actions into state; the summaries below feed the
+// stats dashboard.
+
+const IDLE_CAP_MS = 60_000; // Longer pauses count as one minute of play
+
+export const createGameStats = (state: GameState, mode: GameMode, now: number = Date.now()): GameStats => ({
+  id: `${mode}-${state.seed.toString(36)}-${now.toString(36)}`,
+  mode,
+  board: state.board,
+  seed: state.seed,
+  startedAt: new Date(now).toISOString(),
+  durationMs: 0,
+  lastActionAt: now,
+  piecesPlaced: 0,
+  linesBySize: {},
+  regionsCleared: 0,
+  bestCombo: state.combo,
+  keysEarned: 0,
+  keysSpent: 0,
+  holdsUsed: 0,
+  hintsRequested: 0,
+  powerUpsUsed: 0,
+  heatmap: state.grid.map(row => row.map(() => 0)),
+});
+
+// Everything but the clock
+const countAction = (stats: GameStats, action: GameAction, prev: GameState, next: GameState, events: GameEvent[]): GameStats => {
+  const s: GameStats = {
+    ...stats,
+    bestCombo: Math.max(stats.bestCombo, next.combo),
+    linesBySize: { ...stats.linesBySize },
+  };
+
+  let earned = 0;
+  events.forEach(event => {
+    if (event.type === 'keysEarned') earned += event.amount;
+    if (event.type === 'linesCleared') {
+      if (event.count > 0) s.linesBySize[event.count] = (s.linesBySize[event.count] ?? 0) + 1;
+      s.regionsCleared += event.regions;
+    }
+    if (event.type === 'powerUpUsed') s.powerUpsUsed += 1;
+  });
+  s.keysEarned += earned;
+
+  switch (action.type) {
+    case 'undo':
+      s.keysSpent += COST_UNDO;
+      break;
+    case 'redo':
+      break; // Replays a move already counted
+    default:
+      // Whatever the move cost is the balance drop once its own earnings are set aside
+      s.keysSpent += Math.max(0, prev.keys + earned - next.keys);
+  }
+
+  if (action.type === 'hold') s.holdsUsed += 1;
+  if (action.type === 'place') {
+    const piece = getPiece(prev, action.source);
+    if (piece) {
+      s.piecesPlaced += 1;
+      s.heatmap = stats.heatmap.map(row => [...row]);
+      getPieceCells(piece, action.x, action.y).forEach(c => {
+        if (s.heatmap[c.y]?.[c.x] !== undefined) s.heatmap[c.y][c.x] += 1;
+      });
+    }
+  }
+  return s;
+};
+
+export const accumulateStats = (
+  stats: GameStats,
+  action: GameAction,
+  prev: GameState,
+  next: GameState,
+  events: GameEvent[],
+  now: number = Date.now(),
+): GameStats => countAction({
+  ...stats,
+  durationMs: stats.durationMs + Math.min(Math.max(0, now - stats.lastActionAt), IDLE_CAP_MS),
+  lastActionAt: now,
+}, action, prev, next, events);
+
+// The actions the final board is built from. Undo takes back the last move
+// together with whatever the engine did after it, redo brings both back, and
+// a new move drops anything that could still have been redone.
+export const getKeptActions = (actions: GameAction[]): GameAction[] => {
+  const kept: GameAction[][] = [[]]; // One entry per move, led by the actions before the first
+  const undone: GameAction[][] = [];
+  actions.forEach(action => {
+    switch (action.type) {
+      case 'undo':
+        if (kept.length > 1) undone.push(kept.pop()!);
+        return;
+      case 'redo':
+        if (undone.length > 0) kept.push(undone.pop()!);
+        return;
+      case 'place':
+      case 'hold':
+      case 'rotate':
+      case 'powerUp':
+        kept.push([action]);
+        undone.length = 0;
+        return;
+      default:
+        kept[kept.length - 1].push(action);
+    }
+  });
+  return kept.flat();
+};
+
+// Counts the moves again over the kept actions only, so a clear that was
+// taken back doesn't count. Time and hints stay as tracked, and every undo
+// fee was really paid.
+export const recountStats = (stats: GameStats, config: GameConfig, actions: GameAction[]): GameStats => {
+  let state = gameReducer(createInitialState(), getStartAction(config)).state;
+  const { piecesPlaced, linesBySize, regionsCleared, bestCombo, keysEarned, holdsUsed, powerUpsUsed, heatmap } = createGameStats(state, stats.mode);
+  const undos = actions.filter(a => a.type === 'undo').length;
+  let counted: GameStats = {
+    ...stats, piecesPlaced, linesBySize, regionsCleared, bestCombo, keysEarned, holdsUsed, powerUpsUsed, heatmap,
+    keysSpent: undos * COST_UNDO,
+  };
+  getKeptActions(actions).forEach(action => {
+    const { state: next, events } = gameReducer(state, action);
+    counted = countAction(counted, action, state, next, events);
+    state = next;
+  });
+  return counted;
+};
+
+export const recordHintRequest = (stats: GameStats): GameStats => ({ ...stats, hintsRequested: stats.hintsRequested + 1 });
+
+export const finishGameStats = (stats: GameStats, state: GameState, now: number = Date.now()): GameRecord => {
+  const { lastActionAt, ...rest } = stats;
+  return { ...rest, score: state.score, endedAt: new Date(now).toISOString() };
+};
+
+export const countLinesCleared = (record: GameRecord): number =>
+  Object.entries(record.linesBySize).reduce((acc, [size, count]) => acc + Number(size) * count, 0);
+
+// --- Summaries ---
+
+export interface StatsSummary {
+  games: number;
+  bestScore: number;
+  averageScore: number;
+  averageDurationMs: number;
+  averagePieces: number;
+  averageLines: number;
+  bestCombo: number;
+  keysEarned: number;
+  keysSpent: number;
+  holdsUsed: number;
+  hintsRequested: number;
+  linesBySize: Record<number, number>;
+}
+
+const average = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+export const summarizeRecords = (records: GameRecord[]): StatsSummary => {
+  const linesBySize: Record<number, number> = {};
+  records.forEach(r => Object.entries(r.linesBySize).forEach(([size, count]) => {
+    linesBySize[Number(size)] = (linesBySize[Number(size)] ?? 0) + count;
+  }));
+  const total = (pick: (r: GameRecord) => number) => records.reduce((acc, r) => acc + pick(r), 0);
+
+  return {
+    games: records.length,
+    bestScore: Math.max(0, ...records.map(r => r.score)),
+    averageScore: average(records.map(r => r.score)),
+    averageDurationMs: average(records.map(r => r.durationMs)),
+    averagePieces: average(records.map(r => r.piecesPlaced)),
+    averageLines: average(records.map(countLinesCleared)),
+    bestCombo: Math.max(1, ...records.map(r => r.bestCombo)),
+    keysEarned: total(r => r.keysEarned),
+    keysSpent: total(r => r.keysSpent),
+    holdsUsed: total(r => r.holdsUsed),
+    hintsRequested: total(r => r.hintsRequested),
+    linesBySize,
+  };
+};
+
+export interface Streaks {
+  currentDays: number; // Consecutive days up to today (or yesterday) with a finished game
+  bestDays: number;
+  bestImproving: number; // Longest run of games each scoring above the one before
+}
+
+const DAY_MS = 86_400_000;
+
+export const getStreaks = (records: GameRecord[], today: Date = new Date()): Streaks => {
+  const sorted = [...records].sort((a, b) => a.endedAt.localeCompare(b.endedAt));
+
+  // Day streaks over local calendar days
+  const days = [...new Set(sorted.map(r => getDateKey(new Date(r.endedAt))))];
+  const dayIndex = (key: string) => Math.round(new Date(`${key}T00:00:00`).getTime() / DAY_MS);
+  let bestDays = 0;
+  let run = 0;
+  days.forEach((key, i) => {
+    run = i > 0 && dayIndex(key) - dayIndex(days[i - 1]) === 1 ? run + 1 : 1;
+    bestDays = Math.max(bestDays, run);
+  });
+  const lastGap = days.length ? dayIndex(getDateKey(today)) - dayIndex(days[days.length - 1]) : Infinity;
+  const currentDays = lastGap <= 1 ? run : 0;
+
+  let bestImproving = 0;
+  let climb = 0;
+  sorted.forEach((r, i) => {
+    climb = i > 0 && r.score > sorted[i - 1].score ? climb + 1 : 1;
+    bestImproving = Math.max(bestImproving, climb);
+  });
+
+  return { currentDays, bestDays, bestImproving };
+};
+
+// Sums placement counts for games played on a board of the given size
+export const aggregateHeatmap = (records: GameRecord[], size: number): number[][] => {
+  const heat = Array.from({ length: size }, () => Array(size).fill(0));
+  records
+    .filter(r => r.board.size === size && r.heatmap.length === size)
+    .forEach(r => r.heatmap.forEach((row, y) => row.forEach((count, x) => {
+      heat[y][x] += count;
+    })));
+  return heat;
+};
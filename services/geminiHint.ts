@@ -0,0 +1,137 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { BoardConfig, Grid, HintMove, PieceSource, Shape } from '../types';
+import { COST_ROTATE } from '../constants';
+import { rotateMatrix } from './gameLogic';
+
+// Structured Gemini hint: the model must answer with a single move we can
+// validate and draw, not free text the player has to interpret.
+
+export interface StructuredAIHint {
+  move: HintMove;
+  rationale: string;
+}
+
+export interface StructuredHintInput {
+  board: BoardConfig;
+  grid: Grid;
+  availablePieces: Shape[];
+  holdPiece: Shape | null;
+  keys: number;
+}
+
+const MODEL = 'gemini-2.5-flash';
+
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    piece: {
+      type: Type.STRING,
+      description: 'Tray piece number starting at 1, or "hold" for the hold piece',
+    },
+    rotations: {
+      type: Type.INTEGER,
+      description: 'Which listed rotation of the piece to use (0-3)',
+    },
+    x: { type: Type.INTEGER, description: 'Column of the piece matrix top-left cell, 0-based' },
+    y: { type: Type.INTEGER, description: 'Row of the piece matrix top-left cell, 0-based' },
+    rationale: { type: Type.STRING, description: 'One short sentence explaining the move' },
+  },
+  required: ['piece', 'rotations', 'x', 'y', 'rationale'],
+};
+
+const formatGrid = (grid: Grid) =>
+  grid.map((row, y) => `${y}: ${row.map(c => (c ? '#' : '.')).join('')}`).join('\n');
+
+const formatMatrix = (matrix: number[][]) => matrix.map(row => row.join('')).join(' / ');
+
+// Every orientation is spelled out, so the model never has to guess the rotation direction
+const formatPiece = (label: string, piece: Shape) => {
+  const lines = [`${label}:`];
+  let matrix = piece.matrix;
+  for (let r = 0; r < 4; r++) {
+    lines.push(`  rotation ${r}: ${formatMatrix(matrix)}`);
+    matrix = rotateMatrix(matrix);
+  }
+  return lines.join('\n');
+};
+
+const buildPrompt = (input: StructuredHintInput, feedback: string[]) => {
+  const pieces = input.availablePieces.map((p, i) => formatPiece(`Piece ${i + 1}`, p));
+  if (input.holdPiece) pieces.push(formatPiece('Hold', input.holdPiece));
+
+  return [
+    `You are an expert at a ${input.grid.length}x${input.grid.length} block puzzle.`,
+    'Filling a full row or column clears it. Pieces can not overlap filled cells (#) or leave the board.',
+    ...(input.board.regionClears ? ['Filling any of the 3x3 regions (aligned to multiples of 3) clears it too.'] : []),
+    `Each rotation costs ${COST_ROTATE} keys; the player has ${input.keys} keys.`,
+    'Board (row: columns 0..n):',
+    formatGrid(input.grid),
+    'Pieces (matrix rows separated by /, 1 = block):',
+    ...pieces,
+    'Suggest the single best next move.',
+    ...feedback,
+  ].join('\n');
+};
+
+type Fields = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Fields => !!v && typeof v === 'object';
+const isInt = (v: unknown): v is number => Number.isInteger(v);
+
+// "1".."n" for the tray or "hold"; "1.5", "2nd" and the like are not a piece
+const parseSource = (piece: unknown): PieceSource | null => {
+  if (piece === 'hold') return 'hold';
+  if (typeof piece !== 'string' || !/^\d+$/.test(piece.trim())) return null;
+  const index = Number(piece) - 1;
+  return index >= 0 ? index : null;
+};
+
+const parseMove = (text: string): StructuredAIHint | null => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isObject(raw)) return null;
+  const source = parseSource(raw.piece);
+  const { rotations, x, y } = raw;
+  if (source === null || !isInt(rotations) || !isInt(x) || !isInt(y)) return null;
+  return {
+    move: { source, rotations: ((rotations % 4) + 4) % 4, x, y },
+    rationale: typeof raw.rationale === 'string' ? raw.rationale : '',
+  };
+};
+
+// validate returns why a move is illegal, or null when it can be played.
+// Rejected answers are fed back into the prompt for another attempt.
+export const getStructuredAIHint = async (
+  input: StructuredHintInput,
+  validate: (move: HintMove) => string | null,
+  maxAttempts = 3,
+): Promise<StructuredAIHint | null> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const feedback: string[] = [];
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const response = await ai.models.generateContent({
+      model: MODEL,
+      contents: buildPrompt(input, feedback),
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: RESPONSE_SCHEMA,
+      },
+    });
+
+    const hint = parseMove(response.text ?? '');
+    if (!hint) {
+      feedback.push('Your previous answer did not match the required JSON fields. Try again.');
+      continue;
+    }
+
+    const problem = validate(hint.move);
+    if (!problem) return hint;
+    feedback.push(`Your previous suggestion ${JSON.stringify(hint.move)} is invalid: ${problem}. Suggest a different move.`);
+  }
+  return null;
+};
@@ -0,0 +1,54 @@
+import { BoardConfig, DealerConfig, GameMode } from '../types';
+import { getDateKey } from './random';
+import { DEFAULT_BOARD, isSameBoard } from './board';
+import { UNIFORM_DEALER, getModeDealer, isSameDealer } from './pieceDealer';
+
+const CLASSIC_KEY = 'qblock_highscore';
+const DAILY_KEY = 'qblock_daily_best'; // { date, score }, resets with the calendar day
+
+interface DailyBest {
+  date: string;
+  score: number;
+}
+
+const readDailyBest = (): DailyBest | null => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(DAILY_KEY) || 'null');
+    if (parsed && typeof parsed.date === 'string' && typeof parsed.score === 'number') return parsed;
+  } catch {
+    // Corrupt entry, treat as no best yet
+  }
+  return null;
+};
+
+// Each mode, board variant and dealer keeps its own best. Keys without a dealer
+// suffix date from before dealers could be configured, when every game was
+// dealt uniformly, so they stay with the uniform dealer; the default dealer
+// starts a best of its own.
+const getEndlessKey = (mode: GameMode, board: BoardConfig, dealer: DealerConfig) => {
+  const base = mode === 'classic' ? CLASSIC_KEY : `${CLASSIC_KEY}_${mode}`;
+  const sized = isSameBoard(board, DEFAULT_BOARD) ? base : `${base}_${board.size}${board.regionClears ? 'r' : ''}`;
+  if (isSameDealer(dealer, UNIFORM_DEALER)) return sized;
+  return `${sized}_${dealer.shapeSet}-${dealer.curve}${dealer.bag ? '-bag' : ''}${dealer.fair ? '-fair' : ''}`;
+};
+
+export const getBestScore = (mode: GameMode, board: BoardConfig = DEFAULT_BOARD, dealer: DealerConfig = getModeDealer(mode, {})): number => {
+  if (mode === 'puzzle') return 0; // Puzzles keep per-level results (services/puzzles)
+  if (mode === 'daily') {
+    const best = readDailyBest();
+    return best && best.date === getDateKey() ? best.score : 0;
+  }
+  const stored = localStorage.getItem(getEndlessKey(mode, board, dealer));
+  return stored ? parseInt(stored) || 0 : 0;
+};
+
+export const saveBestScore = (
+  mode: GameMode, score: number, board: BoardConfig = DEFAULT_BOARD, dealer: DealerConfig = getModeDealer(mode, {})
+) => {
+  if (mode === 'puzzle') return;
+  if (mode === 'daily') {
+    localStorage.setItem(DAILY_KEY, JSON.stringify({ date: getDateKey(), score }));
+  } else {
+    localStorage.setItem(getEndlessKey(mode, board, dealer), score.toString());
+  }
+};
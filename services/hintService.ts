@@ -0,0 +1,144 @@
+import { GameState, Hint, HintMove, Shape } from '../types';
+import { COST_ROTATE } from '../constants';
+import { rotateMatrix } from './gameLogic';
+import { canPlacePiece } from './board';
+import { getPiece, getPieceCells } from './gameEngine';
+import { solve, SolverInput, SolverResult } from './solver';
+import type { SolverRequest, SolverResponse } from './solver.worker';
+import { getStructuredAIHint } from './geminiHint';
+
+// Picks the hint provider: Gemini when a key is configured, otherwise (or when
+// the call fails) the local solver running in a Web Worker.
+
+export const isGeminiConfigured = (): boolean => {
+  const key = process.env.GEMINI_API_KEY;
+  return !!key && key !== 'PLACEHOLDER_API_KEY';
+};
+
+// --- Move Validation ---
+
+// The piece a hint move refers to, already flipped into its suggested orientation
+export const getHintPiece = (state: GameState, move: HintMove): Shape | null => {
+  const piece = getPiece(state, move.source);
+  if (!piece) return null;
+  let matrix = piece.matrix;
+  for (let r = 0; r < move.rotations; r++) matrix = rotateMatrix(matrix);
+  return { ...piece, matrix };
+};
+
+// Returns why a move can't be played right now, or null if it can
+export const validateHintMove = (state: GameState, move: HintMove): string | null => {
+  const piece = getHintPiece(state, move);
+  if (!piece) return move.source === 'hold' ? 'the hold slot is empty' : `there is no piece ${Number(move.source) + 1}`;
+  if (move.rotations * COST_ROTATE > state.keys) return `rotating costs ${move.rotations * COST_ROTATE} keys but only ${state.keys} are available`;
+  if (!canPlacePiece(state.grid, piece, move.x, move.y)) return 'the piece overlaps filled cells or leaves the board there';
+  return null;
+};
+
+// A hint only reads the board, the pieces and the keys to rotate them. The
+// engine keeps those references on a clock tick, so a tick leaves a hint valid.
+export const isSameHintPosition = (a: GameState, b: GameState): boolean =>
+  a.grid === b.grid && a.availablePieces === b.availablePieces && a.holdPiece === b.holdPiece
+  && a.keys === b.keys && a.isGameOver === b.isGameOver;
+
+export const getHintCells = (state: GameState, move: HintMove): { x: number, y: number }[] => {
+  const piece = getHintPiece(state, move);
+  return piece && !validateHintMove(state, move) ? getPieceCells(piece, move.x, move.y) : [];
+};
+
+// --- Local Solver (Web Worker) ---
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 0;
+const pending = new Map<number, { input: SolverInput; resolve: (result: SolverResult | null) => void }>();
+
+// A worker that failed to load or to answer is dropped for good; whatever it
+// still owed is solved inline, as are all later requests
+const dropWorker = () => {
+  worker?.terminate();
+  worker = null;
+  workerFailed = true;
+  const owed = [...pending.values()];
+  pending.clear();
+  owed.forEach(({ input, resolve }) => resolve(solve(input)));
+};
+
+const getWorker = (): Worker | null => {
+  if (worker || workerFailed || typeof Worker === 'undefined') return worker;
+  try {
+    worker = new Worker(new URL('./solver.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<SolverResponse>) => {
+      pending.get(e.data.id)?.resolve(e.data.result);
+      pending.delete(e.data.id);
+    };
+    worker.onerror = e => {
+      e.preventDefault();
+      dropWorker();
+    };
+    worker.onmessageerror = dropWorker;
+  } catch {
+    worker = null;
+    workerFailed = true;
+  }
+  return worker;
+};
+
+export const solveInBackground = (input: SolverInput): Promise<SolverResult | null> => {
+  const w = getWorker();
+  // No worker support: solve inline rather than not at all
+  if (!w) return Promise.resolve(solve(input));
+
+  return new Promise(resolve => {
+    const request: SolverRequest = { id: nextRequestId++, input };
+    pending.set(request.id, { input, resolve });
+    w.postMessage(request);
+  });
+};
+
+const describeSource = (move: HintMove) =>
+  move.source === 'hold' ? 'the hold piece' : `piece ${move.source + 1}`;
+
+const describeMove = (move: HintMove) => {
+  const flip = move.rotations > 0
+    ? `flip ${describeSource(move)} ${move.rotations}x (${move.rotations * COST_ROTATE} keys), then drop it`
+    : `drop ${describeSource(move)}`;
+  return `${flip} at column ${move.x + 1}, row ${move.y + 1}`;
+};
+
+export const describeSolution = (result: SolverResult): string => {
+  const steps = result.moves.map(describeMove).join(', then ');
+  const outcome = result.linesCleared > 0
+    ? `clears ${result.linesCleared} line${result.linesCleared > 1 ? 's' : ''} or region${result.linesCleared > 1 ? 's' : ''}`
+    : 'keeps the board open';
+  const holes = result.holes > 0 ? ` with ${result.holes} hole${result.holes > 1 ? 's' : ''} left` : ' with no holes';
+  return `${steps.charAt(0).toUpperCase()}${steps.slice(1)}. This ${outcome}${holes}.`;
+};
+
+export const getLocalHint = async (state: GameState): Promise<Hint> => {
+  const result = await solveInBackground({
+    grid: state.grid,
+    availablePieces: state.availablePieces,
+    holdPiece: state.holdPiece,
+    keys: state.keys,
+    regionClears: state.board.regionClears,
+  });
+  if (!result) {
+    return { moves: [], rationale: 'No piece fits anywhere. Time to spend keys or start over.', provider: 'local' };
+  }
+  return { moves: result.moves, rationale: describeSolution(result), provider: 'local' };
+};
+
+// Offline the request could only fail, so it goes straight to the solver
+export const getHint = async (state: GameState, online = true): Promise<Hint> => {
+  if (!online || !isGeminiConfigured()) return getLocalHint(state);
+
+  try {
+    const hint = await getStructuredAIHint(state, move => validateHintMove(state, move));
+    if (hint) return { moves: [hint.move], rationale: hint.rationale, provider: 'gemini' };
+  } catch {
+    // Network or quota failure, fall through to the local solver
+  }
+  // Also reached when the model kept suggesting illegal moves
+  return getLocalHint(state);
+};
@@ -0,0 +1,102 @@
+import { InputAction, KeyBindings } from '../types';
+
+const BINDINGS_KEY = 'qblock_keybindings';
+
+export const INPUT_ACTIONS: { action: InputAction, label: string }[] = [
+  { action: 'cursorUp', label: 'Move Up' },
+  { action: 'cursorDown', label: 'Move Down' },
+  { action: 'cursorLeft', label: 'Move Left' },
+  { action: 'cursorRight', label: 'Move Right' },
+  { action: 'nextPiece', label: 'Next Piece' },
+  { action: 'prevPiece', label: 'Previous Piece' },
+  { action: 'selectHold', label: 'Pick Hold' },
+  { action: 'rotate', label: 'Flip' },
+  { action: 'hold', label: 'Hold' },
+  { action: 'confirm', label: 'Drop / Confirm' },
+  { action: 'cancel', label: 'Cancel' },
+  { action: 'undo', label: 'Undo' },
+  { action: 'redo', label: 'Redo' },
+  { action: 'hint', label: 'Hint' },
+];
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  cursorUp: ['ArrowUp', 'KeyW'],
+  cursorDown: ['ArrowDown', 'KeyS'],
+  cursorLeft: ['ArrowLeft', 'KeyA'],
+  cursorRight: ['ArrowRight', 'KeyD'],
+  nextPiece: ['KeyE'],
+  prevPiece: ['KeyQ'],
+  selectHold: ['KeyH'],
+  rotate: ['KeyR'],
+  hold: ['KeyC'],
+  confirm: ['Enter', 'Space'],
+  cancel: ['Escape'],
+  undo: ['KeyZ'],
+  redo: ['KeyY'],
+  hint: ['KeyI'],
+};
+
+// Standard Gamepad API mapping (Xbox layout names)
+export const GAMEPAD_BUTTONS: Record<number, InputAction> = {
+  0: 'confirm', // A
+  1: 'cancel', // B
+  2: 'rotate', // X
+  3: 'hold', // Y
+  4: 'prevPiece', // LB
+  5: 'nextPiece', // RB
+  6: 'undo', // LT
+  7: 'redo', // RT
+  8: 'selectHold', // Back / View
+  9: 'hint', // Start / Menu
+  12: 'cursorUp',
+  13: 'cursorDown',
+  14: 'cursorLeft',
+  15: 'cursorRight',
+};
+
+// Directions auto-repeat while held; everything else fires once per press
+export const REPEATABLE_ACTIONS: InputAction[] = ['cursorUp', 'cursorDown', 'cursorLeft', 'cursorRight'];
+
+export const findActionForKey = (bindings: KeyBindings, code: string): InputAction | null => {
+  const entry = INPUT_ACTIONS.find(({ action }) => bindings[action].includes(code));
+  return entry ? entry.action : null;
+};
+
+// A key drives one action only, so binding it removes it everywhere else
+export const rebindKey = (bindings: KeyBindings, action: InputAction, code: string): KeyBindings => {
+  const next = {} as KeyBindings;
+  INPUT_ACTIONS.forEach(({ action: a }) => {
+    next[a] = bindings[a].filter(c => c !== code);
+  });
+  next[action] = [code];
+  return next;
+};
+
+export const loadKeyBindings = (): KeyBindings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(BINDINGS_KEY) || 'null');
+    if (!stored || typeof stored !== 'object') return DEFAULT_KEY_BINDINGS;
+    // Start from the defaults so actions added later still get a key
+    const merged = { ...DEFAULT_KEY_BINDINGS };
+    INPUT_ACTIONS.forEach(({ action }) => {
+      const codes = stored[action];
+      if (Array.isArray(codes) && codes.every(c => typeof c === 'string')) merged[action] = codes;
+    });
+    return merged;
+  } catch {
+    return DEFAULT_KEY_BINDINGS;
+  }
+};
+
+export const saveKeyBindings = (bindings: KeyBindings) => {
+  localStorage.setItem(BINDINGS_KEY, JSON.stringify(bindings));
+};
+
+// "KeyR" -> "R", "ArrowUp" -> "↑"
+export const formatKeyCode = (code: string): string => {
+  const arrows: Record<string, string> = { ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→' };
+  if (arrows[code]) return arrows[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  return code;
+};
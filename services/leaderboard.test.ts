@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { GameAction, GameMode, GameState, LeaderboardEntry } from '../types';
+import { COST_ROTATE } from '../constants';
+import { DEFAULT_BOARD } from './board';
+import { getBotStrategy } from './bots';
+import { createInitialState, gameReducer } from './gameEngine';
+import { DEFAULT_SOLVER_OPTIONS } from './solver';
+import { DEFAULT_DEALER, getModeDealer } from './pieceDealer';
+import { getVariant } from './modes';
+import { createRng, getDailySeed } from './random';
+import { createReplay, serializeReplay } from './replay';
+import {
+  LEADERBOARD_SIZE, SEED_LIFETIME_MS, acceptScore, createMemoryBackend, getTableId, restoreEntries, verifyReplay,
+} from './leaderboard';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+// A finished game played by the random bot, with every action the engine took
+const playGame = (mode: GameMode, seed: number) => {
+  const dealer = getModeDealer(mode, {});
+  const bot = getBotStrategy('random')!;
+  const context = { random: createRng(seed).next, rotateCost: COST_ROTATE, beamWidth: DEFAULT_SOLVER_OPTIONS.beamWidth };
+  let state: GameState = gameReducer(createInitialState(), { type: 'newGame', seed, dealer, variant: getVariant(mode) }).state;
+  const actions: GameAction[] = [];
+  while (!state.isGameOver) {
+    const turn = bot.nextTurn(state, context);
+    if (turn.length === 0) throw new Error('bot stopped before the game ended');
+    turn.forEach(action => {
+      state = gameReducer(state, action).state;
+      actions.push(action);
+    });
+  }
+  return { config: { mode, seed, board: DEFAULT_BOARD, dealer }, actions, score: state.score };
+};
+
+const toText = (game: ReturnType<typeof playGame>, overrides: { actions?: GameAction[]; score?: number } = {}) =>
+  serializeReplay(createReplay(game.config, overrides.actions ?? game.actions, overrides.score ?? game.score));
+
+const classic = playGame('classic', 7);
+
+describe('verifyReplay', () => {
+  it('accepts a finished game and files it under its table', () => {
+    const verification = verifyReplay(toText(classic), NOW);
+    expect(verification).toMatchObject({ ok: true, table: getTableId('classic', DEFAULT_BOARD) });
+  });
+
+  it('rejects a claimed score the moves do not reach', () => {
+    expect(verifyReplay(toText(classic, { score: classic.score + 10 }), NOW)).toMatchObject({ ok: false });
+  });
+
+  it('rejects a game that is not over', () => {
+    expect(verifyReplay(toText(classic, { actions: classic.actions.slice(0, -1) }), NOW)).toEqual({ ok: false, reason: 'The game is not over' });
+  });
+
+  it('rejects a forged move log', () => {
+    const forged = classic.actions.map((action, i) => (i === 0 && action.type === 'place' ? { ...action, x: -1 } : action));
+    expect(verifyReplay(toText(classic, { actions: forged }), NOW)).toEqual({ ok: false, reason: 'Move 1 is not legal' });
+  });
+
+  it('rejects moves only the engine can make, even where the engine takes them', () => {
+    const withGarbage = [{ type: 'garbage', rows: 1 } as GameAction, ...classic.actions];
+    expect(verifyReplay(toText(classic, { actions: withGarbage }), NOW)).toEqual({ ok: false, reason: 'Move 1 is not one a player can make' });
+    const withTick = [{ type: 'tick', ms: 1000 } as GameAction, ...classic.actions];
+    expect(verifyReplay(toText(classic, { actions: withTick }), NOW)).toMatchObject({ ok: false });
+  });
+
+  it('rejects a game that used undo, which would show the next tray', () => {
+    const [first, ...rest] = classic.actions;
+    const withUndo = [first, { type: 'undo' } as GameAction, { type: 'redo' } as GameAction, ...rest];
+    expect(verifyReplay(toText(classic, { actions: withUndo }), NOW)).toEqual({ ok: false, reason: 'Games that used undo are not ranked' });
+  });
+
+  it('rejects unranked modes and non-standard dealers', () => {
+    expect(verifyReplay(serializeReplay(createReplay({ ...classic.config, mode: 'zen' }, classic.actions, classic.score)), NOW)).toMatchObject({ ok: false });
+    expect(verifyReplay(serializeReplay(createReplay({ ...classic.config, mode: 'blitz' }, classic.actions, classic.score)), NOW)).toMatchObject({ ok: false });
+    const uniform = serializeReplay(createReplay({ ...classic.config, dealer: { ...DEFAULT_DEALER, bag: false } }, classic.actions, classic.score));
+    expect(verifyReplay(uniform, NOW)).toMatchObject({ ok: false });
+  });
+
+  it("only takes a daily on today's seed", () => {
+    const today = playGame('daily', getDailySeed(NOW));
+    expect(verifyReplay(toText(today), NOW)).toMatchObject({ ok: true, table: 'daily:2025-06-01' });
+    expect(verifyReplay(toText(today), new Date('2025-06-05T12:00:00Z'))).toMatchObject({ ok: false });
+  });
+});
+
+describe('acceptScore', () => {
+  const submit = (entries: LeaderboardEntry[], profileId: string, replay = toText(classic)) =>
+    acceptScore(entries, { profileId, name: `Player ${profileId}`, replay }, NOW);
+
+  it('ranks a verified score', () => {
+    const { entries, result } = submit([], 'a');
+    expect(result).toMatchObject({ status: 'accepted', rank: 1, entry: { score: classic.score, name: 'Player a' } });
+    expect(entries).toHaveLength(1);
+  });
+
+  it('turns a forged replay away without touching the tables', () => {
+    const start = submit([], 'a').entries;
+    const { entries, result } = submit(start, 'b', toText(classic, { score: classic.score * 2 }));
+    expect(result.status).toBe('rejected');
+    expect(entries).toBe(start);
+  });
+
+  it('keeps one entry per player and game', () => {
+    const once = submit([], 'a').entries;
+    const twice = submit(once, 'a');
+    expect(twice.entries).toBe(once);
+    expect(twice.result).toMatchObject({ status: 'accepted', rank: 1 });
+  });
+
+  it(`keeps only the top ${LEADERBOARD_SIZE}`, () => {
+    const games = Array.from({ length: LEADERBOARD_SIZE + 2 }, (_, i) => playGame('classic', 100 + i));
+    const entries = games.reduce<LeaderboardEntry[]>((acc, game, i) => submit(acc, `p${i}`, toText(game)).entries, []);
+    const best = games.map(g => g.score).sort((a, b) => b - a).slice(0, LEADERBOARD_SIZE);
+    expect(entries.map(e => e.score).sort((a, b) => b - a)).toEqual(best);
+  });
+
+  it('drops stored entries whose score was edited', () => {
+    const { entries } = submit([], 'a');
+    expect(restoreEntries(entries, NOW)).toHaveLength(1);
+    expect(restoreEntries([{ ...entries[0], score: entries[0].score + 100 }], NOW)).toEqual([]);
+  });
+});
+
+describe('memory backend', () => {
+  const submission = (game: ReturnType<typeof playGame>) => ({ profileId: 'a', name: 'Player a', replay: toText(game) });
+
+  it('only ranks Classic games on a seed it issued', async () => {
+    const backend = createMemoryBackend({ now: () => NOW });
+    expect(await backend.submit(submission(classic))).toMatchObject({ status: 'rejected' });
+    const seed = await backend.issueSeed();
+    expect(await backend.submit(submission(playGame('classic', seed)))).toMatchObject({ status: 'accepted', rank: 1 });
+  });
+
+  it('turns a seed away once it has expired', async () => {
+    let now = NOW;
+    const backend = createMemoryBackend({ now: () => now });
+    const seed = await backend.issueSeed();
+    now = new Date(NOW.getTime() + SEED_LIFETIME_MS + 1);
+    expect(await backend.submit(submission(playGame('classic', seed)))).toMatchObject({ status: 'rejected' });
+  });
+});
@@ -0,0 +1,294 @@
+import { BoardConfig, GameAction, GameMode, GameVariant, LeaderboardEntry, Replay, ScoreSubmission, SubmitResult } from '../types';
+import { createInitialState, gameReducer } from './gameEngine';
+import { DEFAULT_BOARD, isSameBoard } from './board';
+import { UNIFORM_DEALER, getModeDealer, isSameDealer } from './pieceDealer';
+import { getModeInfo, getVariant, hasClock } from './modes';
+import { getDailySeed, getDateKey, randomSeed } from './random';
+import { parseReplay } from './replay';
+import { normalizeProfileName } from './profiles';
+
+// Named top-10 tables, one per mode and board (and per day for the daily).
+// A score is only ever taken together with its replay: the backend plays the
+// seed and the move log through the engine and accepts the score only when
+// the game is legal, finished and ends on exactly that score. Stored entries
+// keep their replay, so they can be checked again and watched.
+//
+// A replay cannot show when its moves were made, so only modes without a clock
+// are ranked, and the seed must be one the player could not pick: the daily's,
+// or a Classic seed the backend issued shortly before. Undo is not allowed,
+// since the deal is seeded and undo would let a player look at the next tray.
+
+export const LEADERBOARD_SIZE = 10;
+export const RANKED_MODES: GameMode[] = ['classic', 'daily']; // Zen never ends, puzzles keep stars, clocks can't be checked
+export const SEED_LIFETIME_MS = 6 * 60 * 60 * 1000; // How long an issued Classic seed can be played for
+const MAX_REPLAY_ACTIONS = 20000; // Bounds the work a single submission can cost a server
+const DAILY_RETENTION_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LEADERBOARD_KEY = 'qblock_leaderboard';
+
+// --- Tables ---
+
+// "classic:8", "survival:9r", "daily:2025-06-01"
+export const getTableId = (mode: GameMode, board: BoardConfig = DEFAULT_BOARD, date: string = getDateKey()): string =>
+  mode === 'daily' ? `daily:${date}` : `${mode}:${board.size}${board.regionClears ? 'r' : ''}`;
+
+export const isRankedMode = (mode: GameMode) => RANKED_MODES.includes(mode);
+
+// Best first; ties go to whoever got there first
+const compareEntries = (a: LeaderboardEntry, b: LeaderboardEntry) =>
+  b.score - a.score || a.submittedAt.localeCompare(b.submittedAt);
+
+const rankTable = (entries: LeaderboardEntry[], table: string) =>
+  entries.filter(e => e.table === table).sort(compareEntries);
+
+// --- Verification ---
+
+export type Verification =
+  | { ok: true; replay: Replay; table: string }
+  | { ok: false; reason: string };
+
+const reject = (reason: string): Verification => ({ ok: false, reason });
+
+// Players on either side of midnight (or of the date line) are still on their own day's daily
+const findDailyDate = (seed: number, now: Date): string | null => {
+  for (const offset of [0, -1, 1]) {
+    const date = new Date(now.getTime() + offset * DAY_MS);
+    if (getDailySeed(date) === seed) return getDateKey(date);
+  }
+  return null;
+};
+
+// Only what the game's own controls can send in this variant. The engine
+// would take more (a restock, a garbage row), and each of those moves the deal.
+const isPlayerAction = (action: GameAction, variant: GameVariant): boolean => {
+  switch (action.type) {
+    case 'place':
+    case 'hold':
+    case 'rotate':
+    case 'powerUp':
+    case 'undo':
+    case 'redo':
+      return true;
+    case 'tick':
+      return hasClock(variant);
+    case 'garbage':
+      return variant === 'versus';
+    default:
+      return false;
+  }
+};
+
+export const verifyReplay = (text: string, now: Date = new Date()): Verification => {
+  let replay: Replay;
+  try {
+    replay = parseReplay(text);
+  } catch (err) {
+    return reject(err instanceof Error ? err.message : 'Invalid replay');
+  }
+  const { mode, seed, board, dealer } = replay.config;
+  if (!isRankedMode(mode)) return reject(`${getModeInfo(mode).label} games are not ranked`);
+  // The mode's own dealer: the daily's fixed one, otherwise the default
+  if (!isSameDealer(dealer ?? UNIFORM_DEALER, getModeDealer(mode, {}))) return reject('Only games with the standard dealer are ranked');
+  if (replay.actions.length > MAX_REPLAY_ACTIONS) return reject('Replay is too long');
+
+  let table = getTableId(mode, board);
+  if (mode === 'daily') {
+    const date = findDailyDate(seed, now);
+    if (!date || !isSameBoard(board, DEFAULT_BOARD)) return reject("Not a game of today's Daily Challenge");
+    table = getTableId(mode, board, date);
+  }
+
+  // Same start as buildReplayFrames, but every action must be a player's and one the engine accepts
+  const variant = getVariant(mode);
+  let state = gameReducer(createInitialState(), { type: 'newGame', seed, board, dealer, variant }).state;
+  for (let i = 0; i < replay.actions.length; i++) {
+    const { type } = replay.actions[i];
+    if (type === 'undo' || type === 'redo') return reject('Games that used undo are not ranked');
+    if (!isPlayerAction(replay.actions[i], variant)) return reject(`Move ${i + 1} is not one a player can make`);
+    const next = gameReducer(state, replay.actions[i]).state;
+    if (next === state) return reject(`Move ${i + 1} is not legal`);
+    state = next;
+  }
+  if (!state.isGameOver) return reject('The game is not over');
+  if (state.score !== replay.finalScore) return reject(`Claimed ${replay.finalScore} points but the moves score ${state.score}`);
+  return { ok: true, replay, table };
+};
+
+// --- Backends ---
+
+export interface LeaderboardBackend {
+  id: string;
+  label: string;
+  issueSeed: () => Promise<number>; // A seed for a ranked Classic game
+  submit: (submission: ScoreSubmission) => Promise<SubmitResult>;
+  getTop: (table: string, limit?: number) => Promise<LeaderboardEntry[]>;
+}
+
+// When each Classic seed was issued, for acceptScore
+export type IssuedSeeds = Map<number, number>;
+
+export interface MemoryBackendOptions {
+  entries?: LeaderboardEntry[]; // Already verified, e.g. by restoreEntries
+  now?: () => Date;
+  onChange?: (entries: LeaderboardEntry[]) => void;
+}
+
+const createEntryId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+// Verifies a submission against the current tables. Each player keeps one
+// entry per game. Without issued seeds (restoring entries that were checked
+// when they came in) a Classic seed is not checked.
+export const acceptScore = (
+  entries: LeaderboardEntry[], submission: ScoreSubmission, now: Date, issued?: IssuedSeeds,
+): { entries: LeaderboardEntry[]; result: SubmitResult } => {
+  const name = normalizeProfileName(typeof submission.name === 'string' ? submission.name : '');
+  if (!name) return { entries, result: { status: 'rejected', reason: 'A player name is required' } };
+  if (typeof submission.profileId !== 'string' || !submission.profileId || submission.profileId.length > 64) {
+    return { entries, result: { status: 'rejected', reason: 'Invalid profile' } };
+  }
+  if (typeof submission.replay !== 'string') return { entries, result: { status: 'rejected', reason: 'A replay is required' } };
+
+  const verification = verifyReplay(submission.replay, now);
+  if (verification.ok === false) return { entries, result: { status: 'rejected', reason: verification.reason } };
+  const { replay, table } = verification;
+  if (issued && replay.config.mode === 'classic') {
+    const issuedAt = issued.get(replay.config.seed);
+    if (issuedAt === undefined || now.getTime() - issuedAt > SEED_LIFETIME_MS) {
+      return { entries, result: { status: 'rejected', reason: 'Classic games are only ranked on a recent seed from the leaderboard' } };
+    }
+  }
+
+  const previous = entries.find(e => e.table === table && e.profileId === submission.profileId && e.seed === replay.config.seed);
+  if (previous && previous.score >= replay.finalScore) {
+    const rank = rankTable(entries, table).indexOf(previous) + 1;
+    return { entries, result: { status: 'accepted', entry: previous, rank } };
+  }
+
+  const entry: LeaderboardEntry = {
+    id: createEntryId(),
+    table,
+    profileId: submission.profileId,
+    name,
+    score: replay.finalScore,
+    seed: replay.config.seed,
+    submittedAt: now.toISOString(),
+    replay: submission.replay,
+  };
+  const kept = rankTable([...entries.filter(e => e !== previous), entry], table).slice(0, LEADERBOARD_SIZE);
+  const rank = kept.indexOf(entry) + 1;
+  if (rank === 0 && !previous) return { entries, result: { status: 'accepted', entry, rank: null } };
+  return {
+    entries: [...entries.filter(e => e.table !== table), ...kept],
+    result: { status: 'accepted', entry, rank: rank || null },
+  };
+};
+
+export const createMemoryBackend = ({ entries = [], now = () => new Date(), onChange }: MemoryBackendOptions = {}): LeaderboardBackend => {
+  let stored = entries;
+  const issued: IssuedSeeds = new Map();
+  return {
+    id: 'memory',
+    label: 'This device',
+    issueSeed: async () => {
+      const issuedAt = now().getTime();
+      issued.forEach((at, seed) => { if (issuedAt - at > SEED_LIFETIME_MS) issued.delete(seed); });
+      let seed = randomSeed();
+      while (issued.has(seed)) seed = randomSeed();
+      issued.set(seed, issuedAt);
+      return seed;
+    },
+    submit: async submission => {
+      const outcome = acceptScore(stored, submission, now(), issued);
+      if (outcome.entries !== stored) {
+        stored = outcome.entries;
+        onChange?.(stored);
+      }
+      return outcome.result;
+    },
+    getTop: async (table, limit = LEADERBOARD_SIZE) => rankTable(stored, table).slice(0, limit),
+  };
+};
+
+const isEntry = (raw: unknown): raw is LeaderboardEntry => {
+  const e = raw as LeaderboardEntry;
+  return !!e && typeof e === 'object' && typeof e.id === 'string' && typeof e.table === 'string' && typeof e.profileId === 'string'
+    && typeof e.name === 'string' && Number.isInteger(e.score) && Number.isInteger(e.seed)
+    && typeof e.submittedAt === 'string' && !isNaN(Date.parse(e.submittedAt)) && typeof e.replay === 'string';
+};
+
+// Loads stored entries, checking every replay again: an entry whose score,
+// table or moves were edited by hand is dropped. Old daily tables are pruned.
+export const restoreEntries = (raw: unknown, now: Date = new Date()): LeaderboardEntry[] => {
+  if (!Array.isArray(raw)) return [];
+  const oldestDaily = getDateKey(new Date(now.getTime() - DAILY_RETENTION_DAYS * DAY_MS));
+  let entries: LeaderboardEntry[] = [];
+  raw.filter(isEntry).forEach(candidate => {
+    if (candidate.table.startsWith('daily:') && candidate.table.slice(6) < oldestDaily) return;
+    const { entries: next, result } = acceptScore(entries, candidate, new Date(candidate.submittedAt));
+    if (result.status === 'accepted' && result.entry.table === candidate.table && result.entry.score === candidate.score) {
+      entries = next.map(e => (e === result.entry ? { ...candidate, name: e.name } : e));
+    }
+  });
+  return entries;
+};
+
+// Keeps the tables in localStorage on this device
+export const createLocalBackend = (): LeaderboardBackend => {
+  let entries: LeaderboardEntry[] = [];
+  try {
+    entries = restoreEntries(JSON.parse(localStorage.getItem(LEADERBOARD_KEY) || '[]'));
+  } catch {
+    // Corrupt storage, start with empty tables
+  }
+  return createMemoryBackend({
+    entries,
+    onChange: next => {
+      try {
+        localStorage.setItem(LEADERBOARD_KEY, JSON.stringify(next));
+      } catch {
+        // Storage full; the tables still work for this session
+      }
+    },
+  });
+};
+
+// Talks to server/leaderboard.ts, or anything that speaks the same two routes
+export const createHttpBackend = (baseUrl: string): LeaderboardBackend => {
+  const url = baseUrl.replace(/\/+$/, '');
+  const request = async (path: string, init?: RequestInit) => {
+    const response = await fetch(`${url}${path}`, init);
+    // Rejected scores come back as 422 with the reason in the body
+    if (!response.ok && response.status !== 422) throw new Error(`Leaderboard server answered ${response.status}`);
+    return response.json();
+  };
+  return {
+    id: 'http',
+    label: url.replace(/^https?:\/\//, ''),
+    issueSeed: async () => {
+      const result = await request('/seeds', { method: 'POST' });
+      if (!Number.isInteger(result?.seed)) throw new Error('Unexpected answer from the leaderboard server');
+      return result.seed as number;
+    },
+    submit: async submission => {
+      const result = await request('/scores', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(submission),
+      });
+      if (result?.status !== 'accepted' && result?.status !== 'rejected') throw new Error('Unexpected answer from the leaderboard server');
+      return result as SubmitResult;
+    },
+    getTop: async (table, limit = LEADERBOARD_SIZE) => {
+      const entries = await request(`/scores?table=${encodeURIComponent(table)}&limit=${limit}`);
+      return Array.isArray(entries) ? entries.filter(isEntry) : [];
+    },
+  };
+};
+
+let backend: LeaderboardBackend | null = null;
+
+// LEADERBOARD_URL from .env.local selects a server, otherwise scores stay on this device
+export const getLeaderboardBackend = (): LeaderboardBackend => {
+  if (!backend) backend = process.env.LEADERBOARD_URL ? createHttpBackend(process.env.LEADERBOARD_URL) : createLocalBackend();
+  return backend;
+};
@@ -0,0 +1,89 @@
+import { CellColor, GameMode, GameVariant, Grid } from '../types';
+import {
+  BLITZ_CLEAR_BONUS_MS, BLITZ_COMBO_BONUS_MS, BLITZ_DURATION_MS, GARBAGE_COLOR, GARBAGE_POINTS,
+  SURVIVAL_INTERVAL_MS, SURVIVAL_MIN_INTERVAL_MS, SURVIVAL_SPEEDUP_MS
+} from '../constants';
+import { calculateClearScore } from './board';
+import { createRng } from './random';
+
+// Mode catalogue plus the variant rules the engine consults: clocks, scoring
+// tweaks and the garbage rows of Survival.
+
+export interface ModeInfo {
+  id: GameMode;
+  label: string;
+  description: string;
+  variant: GameVariant;
+}
+
+export const MODES: ModeInfo[] = [
+  { id: 'classic', label: 'Classic', description: 'Endless play until the board locks up', variant: 'standard' },
+  { id: 'daily', label: 'Daily', description: "Everyone plays today's sequence", variant: 'standard' },
+  { id: 'puzzle', label: 'Puzzle', description: 'Hand-made levels with goals', variant: 'standard' },
+  { id: 'blitz', label: 'Blitz', description: 'Beat the clock. Clears add time and score double', variant: 'blitz' },
+  { id: 'zen', label: 'Zen', description: 'No game over: a stuck tray is reshuffled. Clears score half', variant: 'zen' },
+  { id: 'survival', label: 'Survival', description: 'Garbage rows rise from below. Clearing garbage pays extra', variant: 'survival' },
+];
+
+// Picked from the start screen; daily and puzzles have their own entry points
+export const SELECTABLE_MODES: GameMode[] = ['classic', 'blitz', 'zen', 'survival'];
+
+export const getModeInfo = (mode: GameMode): ModeInfo => MODES.find(m => m.id === mode) as ModeInfo;
+
+export const getVariant = (mode: GameMode): GameVariant => getModeInfo(mode).variant;
+
+// --- Clock ---
+
+export const hasClock = (variant: GameVariant) => variant === 'blitz' || variant === 'survival';
+
+// Undo would hand back time, lift garbage or take back a move the opponent already answered
+export const keepsHistory = (variant: GameVariant) => variant === 'standard' || variant === 'zen';
+
+export const getStartingClock = (variant: GameVariant): number =>
+  variant === 'blitz' ? BLITZ_DURATION_MS : variant === 'survival' ? SURVIVAL_INTERVAL_MS : 0;
+
+export const getTimeBonus = (variant: GameVariant, cleared: number, combo: number): number =>
+  variant === 'blitz' && cleared > 0 ? cleared * BLITZ_CLEAR_BONUS_MS + (combo - 1) * BLITZ_COMBO_BONUS_MS : 0;
+
+export const getGarbageInterval = (rowsPushed: number): number =>
+  Math.max(SURVIVAL_MIN_INTERVAL_MS, SURVIVAL_INTERVAL_MS - rowsPushed * SURVIVAL_SPEEDUP_MS);
+
+// --- Scoring ---
+
+const CLEAR_MULTIPLIERS: Record<GameVariant, number> = { standard: 1, blitz: 2, zen: 0.5, survival: 1, versus: 1 };
+
+export const scoreClear = (
+  variant: GameVariant, linesCleared: number, regionsCleared: number, combo: number, clearedCells: { color: string }[]
+): number => {
+  const base = Math.round(calculateClearScore(linesCleared, regionsCleared, combo) * CLEAR_MULTIPLIERS[variant]);
+  if (variant !== 'survival') return base;
+  return base + clearedCells.filter(c => c.color === GARBAGE_COLOR).length * GARBAGE_POINTS;
+};
+
+// --- Garbage ---
+
+export interface GarbageResult {
+  grid: Grid;
+  rngState: number;
+  toppedOut: boolean; // The top row had blocks in it, which would be pushed off the board
+}
+
+// Shifts the board up one row and fills the bottom row with garbage, leaving
+// 1 to size / 3 random gaps so the new row never completes by itself.
+export const raiseGarbage = (grid: Grid, rngState: number): GarbageResult => {
+  const size = grid.length;
+  const rng = createRng(rngState);
+  const row: CellColor[] = Array(size).fill(GARBAGE_COLOR);
+  const gaps = 1 + Math.floor(rng.next() * Math.max(1, Math.floor(size / 3)));
+  for (let placed = 0; placed < gaps;) {
+    const x = Math.floor(rng.next() * size);
+    if (row[x] === null) continue;
+    row[x] = null;
+    placed++;
+  }
+  return {
+    grid: [...grid.slice(1).map(r => [...r]), row],
+    rngState: rng.state(),
+    toppedOut: grid[0].some(c => c !== null),
+  };
+};
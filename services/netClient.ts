@@ -0,0 +1,147 @@
+import { ConnectionStatus } from '../types';
+import {
+  ClientMessage, JoinRequest, MAX_NAME_LENGTH, PROTOCOL_VERSION, RelayedMessage, RelayedPayload, ServerMessage, isRelayed,
+  parseServerMessage
+} from './netProtocol';
+
+// Relay connection with automatic reconnects. Outgoing messages are numbered
+// and kept, so after a drop the client rejoins with its session token, resends
+// whatever the relay missed and is sent whatever it missed in turn. Callers
+// only ever see each opponent message once, in order.
+
+const RECONNECT_BASE_MS = 500;
+const RECONNECT_MAX_MS = 8000;
+const MAX_RECONNECT_ATTEMPTS = 8;
+
+export interface RelayHandlers {
+  onMessage: (message: ServerMessage) => void;
+  onStatus: (status: ConnectionStatus, reason?: string) => void;
+}
+
+export interface RelayConnection {
+  send: (payload: RelayedPayload) => void;
+  close: () => void;
+}
+
+export const connectToRelay = (url: string, join: JoinRequest, handlers: RelayHandlers): RelayConnection => {
+  const outbox: RelayedMessage[] = [];
+  let socket: WebSocket | null = null;
+  let session: string | undefined;
+  let seen = 0; // Opponent messages handled so far
+  let welcomed = false;
+  let everWelcomed = false;
+  let attempts = 0;
+  let closed = false;
+  let retryTimer = 0;
+
+  const write = (ws: WebSocket, message: ClientMessage) => ws.send(JSON.stringify(message));
+
+  const finish = (reason?: string) => {
+    closed = true;
+    window.clearTimeout(retryTimer);
+    handlers.onStatus('closed', reason);
+  };
+
+  const open = () => {
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(url);
+    } catch {
+      finish(`Invalid relay address: ${url}`);
+      return;
+    }
+    socket = ws;
+    welcomed = false;
+    handlers.onStatus(everWelcomed ? 'reconnecting' : 'connecting');
+
+    ws.onopen = () => write(ws, { type: 'join', v: PROTOCOL_VERSION, ...join, session, seen });
+
+    ws.onmessage = event => {
+      if (socket !== ws || typeof event.data !== 'string') return;
+      const message = parseServerMessage(event.data);
+      if (!message) return;
+      if (message.type === 'welcome') {
+        session = message.session;
+        welcomed = everWelcomed = true;
+        attempts = 0;
+        outbox.slice(message.received).forEach(m => write(ws, m));
+        handlers.onStatus('open');
+      } else if (message.type === 'error') {
+        // The relay refused us; retrying would only be refused again
+        handlers.onMessage(message);
+        socket = null;
+        ws.close();
+        finish(message.message);
+        return;
+      } else if (isRelayed(message)) {
+        if (message.seq <= seen) return;
+        seen = message.seq;
+      }
+      handlers.onMessage(message);
+    };
+
+    ws.onclose = () => {
+      if (socket !== ws || closed) return;
+      socket = null;
+      if (!everWelcomed) {
+        finish(`Could not reach the relay at ${url}`);
+        return;
+      }
+      if (attempts >= MAX_RECONNECT_ATTEMPTS) {
+        finish('Lost the connection to the relay');
+        return;
+      }
+      handlers.onStatus('reconnecting');
+      retryTimer = window.setTimeout(open, Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempts));
+      attempts++;
+    };
+  };
+
+  open();
+
+  return {
+    send: payload => {
+      const message = { ...payload, seq: outbox.length + 1 } as RelayedMessage;
+      outbox.push(message);
+      // While offline the message waits in the outbox until the next welcome
+      if (welcomed && socket?.readyState === WebSocket.OPEN) write(socket, message);
+    },
+    close: () => {
+      if (closed) return;
+      const ws = socket;
+      socket = null;
+      ws?.close();
+      finish();
+    },
+  };
+};
+
+// --- Preferences ---
+
+const ONLINE_KEY = 'qblock_online';
+
+export interface OnlinePreferences {
+  name: string;
+  relayUrl: string;
+}
+
+// RELAY_URL from .env.local, else the bundled relay on this host
+export const getDefaultRelayUrl = (): string =>
+  process.env.RELAY_URL || `ws://${window.location.hostname || 'localhost'}:8787`;
+
+export const loadOnlinePreferences = (): OnlinePreferences => {
+  const defaults = { name: 'Player', relayUrl: getDefaultRelayUrl() };
+  try {
+    const stored = JSON.parse(localStorage.getItem(ONLINE_KEY) || 'null');
+    return {
+      name: typeof stored?.name === 'string' && stored.name.trim() ? stored.name.slice(0, MAX_NAME_LENGTH) : defaults.name,
+      relayUrl: typeof stored?.relayUrl === 'string' && stored.relayUrl ? stored.relayUrl : defaults.relayUrl,
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveOnlinePreferences = (preferences: OnlinePreferences) => {
+  localStorage.setItem(ONLINE_KEY, JSON.stringify(preferences));
+};
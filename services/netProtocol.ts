@@ -0,0 +1,134 @@
+import { BoardConfig, GameState, OnlineRules, VersusSide } from '../types';
+import { EncodedAction } from './replay';
+import { isSameBoard, normalizeBoardConfig } from './board';
+import { hashSeed } from './random';
+
+// Wire format for online matches; server/PROTOCOL.md is the full reference.
+// Every frame is one JSON object. After joining, everything a player sends
+// is numbered from 1 and relayed to the opponent in order, which is what
+// lets a reconnecting client resend and catch up without gaps.
+
+export const PROTOCOL_VERSION = 1;
+
+export const MAX_NAME_LENGTH = 16;
+
+// --- Messages ---
+
+export type RelayedPayload =
+  | { type: 'move'; action: EncodedAction } // Same tuples as replays
+  | { type: 'hash'; hash: number } // hashState after the sender's latest move
+  | { type: 'garbage'; rows: number } // Attack the receiver has to apply
+  | { type: 'result'; score: number }; // The sender's board locked up
+
+export type RelayedMessage = RelayedPayload & { seq: number };
+
+export interface JoinRequest {
+  room: string;
+  name: string;
+  rules: OnlineRules; // Only used when the join creates the room
+  board: BoardConfig;
+}
+
+export type ClientMessage =
+  | JoinRequest & { type: 'join'; v: number; session?: string; seen: number }
+  | RelayedMessage;
+
+export interface OpponentInfo {
+  name: string;
+  connected: boolean;
+}
+
+export interface Welcome {
+  type: 'welcome';
+  room: string;
+  side: VersusSide; // 0 created the room
+  session: string; // Rejoin token
+  seed: number;
+  rules: OnlineRules;
+  board: BoardConfig;
+  received: number; // How many of this player's messages the relay holds
+  opponent: OpponentInfo | null;
+}
+
+export type ServerMessage =
+  | Welcome
+  | { type: 'opponent' } & OpponentInfo
+  | { type: 'error'; message: string }
+  | RelayedMessage;
+
+// --- Parsing ---
+
+const isInt = (v: unknown): v is number => Number.isInteger(v);
+const isRules = (v: unknown): v is OnlineRules => v === 'race' || v === 'garbage';
+
+type Fields = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Fields => !!v && typeof v === 'object';
+
+const parseOpponent = (raw: unknown): OpponentInfo | null =>
+  isObject(raw) && typeof raw.name === 'string' && typeof raw.connected === 'boolean' ? { name: raw.name, connected: raw.connected } : null;
+
+const parseBoard = (raw: unknown): BoardConfig | null => {
+  if (!isObject(raw) || !isInt(raw.size) || typeof raw.regionClears !== 'boolean') return null;
+  const config = { size: raw.size, regionClears: raw.regionClears };
+  const board = normalizeBoardConfig(config);
+  return isSameBoard(board, config) ? board : null;
+};
+
+// Null for anything malformed; the client ignores those frames
+export const parseServerMessage = (text: string): ServerMessage | null => {
+  let m: unknown;
+  try {
+    m = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isObject(m)) return null;
+  switch (m.type) {
+    case 'welcome': {
+      const board = parseBoard(m.board);
+      if (!board || !isRules(m.rules) || (m.side !== 0 && m.side !== 1)) return null;
+      if (typeof m.room !== 'string' || typeof m.session !== 'string' || !isInt(m.seed) || !isInt(m.received)) return null;
+      return {
+        type: 'welcome', room: m.room, side: m.side, session: m.session, seed: m.seed >>> 0, rules: m.rules, board,
+        received: m.received, opponent: m.opponent === null ? null : parseOpponent(m.opponent),
+      };
+    }
+    case 'opponent': {
+      const info = parseOpponent(m);
+      return info && { type: 'opponent', ...info };
+    }
+    case 'error':
+      return typeof m.message === 'string' ? { type: 'error', message: m.message } : null;
+  }
+  if (!isInt(m.seq) || m.seq < 1) return null;
+  switch (m.type) {
+    case 'move': return Array.isArray(m.action) ? { type: 'move', seq: m.seq, action: m.action as EncodedAction } : null;
+    case 'hash': return isInt(m.hash) ? { type: 'hash', seq: m.seq, hash: m.hash } : null;
+    case 'garbage': return isInt(m.rows) && m.rows > 0 ? { type: 'garbage', seq: m.seq, rows: m.rows } : null;
+    case 'result': return isInt(m.score) ? { type: 'result', seq: m.seq, score: m.score } : null;
+  }
+  return null;
+};
+
+export const isRelayed = (m: ServerMessage): m is RelayedMessage => 'seq' in m;
+
+// --- Desync detection ---
+
+// Both clients hash the same board: the sender its own, the receiver its
+// replay of the sender's moves. Different hashes mean the two simulations
+// have drifted apart.
+export const hashState = (state: GameState): number =>
+  hashSeed(`${state.score}|${state.grid.map(row => row.map(c => c ?? '.').join(',')).join('/')}`);
+
+// --- Rooms ---
+
+const ROOM_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I
+export const ROOM_CODE_LENGTH = 4;
+
+export const createRoomCode = (): string =>
+  Array.from({ length: ROOM_CODE_LENGTH }, () => ROOM_ALPHABET[Math.floor(Math.random() * ROOM_ALPHABET.length)]).join('');
+
+export const normalizeRoomCode = (input: string): string => input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const isRoomCode = (code: string) => /^[A-Z0-9]{4,8}$/.test(code);
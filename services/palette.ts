@@ -0,0 +1,42 @@
+import { Shape } from '../types';
+import { COLORS } from '../constants';
+
+// Color-independent piece identity: every piece color also has a name, a
+// glyph and a high-contrast stand-in. Game state keeps the original colors;
+// these only change how they are shown, as does the active theme's palette.
+
+interface ColorIdentity {
+  name: string;
+  glyph: string;
+  highContrast: string;
+}
+
+const IDENTITIES: ColorIdentity[] = [
+  { name: 'cyan', glyph: '●', highContrast: '#00b4ff' },
+  { name: 'violet', glyph: '▲', highContrast: '#ffffff' },
+  { name: 'rose', glyph: '✕', highContrast: '#ff3b30' },
+  { name: 'emerald', glyph: '■', highContrast: '#00e676' },
+  { name: 'amber', glyph: '◆', highContrast: '#ffe600' },
+];
+
+const indexOf = (color: string): number => COLORS.findIndex(c => c.toLowerCase() === color.toLowerCase());
+
+const identityOf = (color: string): ColorIdentity | null => {
+  const index = indexOf(color);
+  return index >= 0 ? IDENTITIES[index % IDENTITIES.length] : null;
+};
+
+export const getColorName = (color: string): string => identityOf(color)?.name ?? 'block';
+
+export const getColorGlyph = (color: string): string => identityOf(color)?.glyph ?? '';
+
+// High contrast wins over the theme; colors outside COLORS (filler blocks) stay as they are
+export const getDisplayColor = (color: string, highContrast: boolean, palette: string[] = COLORS): string => {
+  if (highContrast) return identityOf(color)?.highContrast ?? color;
+  return palette[indexOf(color)] ?? color;
+};
+
+export const getDisplayShape = (shape: Shape, highContrast: boolean, palette: string[] = COLORS): Shape => {
+  const color = getDisplayColor(shape.color, highContrast, palette);
+  return color === shape.color ? shape : { ...shape, color };
+};
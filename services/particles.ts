@@ -0,0 +1,118 @@
+import { Particle } from '../types';
+
+// Pooled particle simulation for the board's effect layer. Particles are
+// preallocated and recycled: live ones sit at the front of the pool, and a
+// dead one is swapped with the last live one, so nothing is allocated while
+// effects run. When the pool is full new particles are simply dropped.
+
+export const MAX_PARTICLES = 600;
+const DRAG = 0.92; // Velocity kept per 1/60 s
+
+export interface ParticlePool {
+  items: Particle[];
+  active: number;
+  nextId: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const createParticlePool = (capacity = MAX_PARTICLES): ParticlePool => ({
+  items: Array.from({ length: capacity }, () => ({ id: 0, x: 0, y: 0, color: '', vx: 0, vy: 0, life: 0, decay: 1, size: 1, gravity: 0 })),
+  active: 0,
+  nextId: 1,
+});
+
+interface EmitOptions {
+  count: number;
+  speed: [number, number]; // px/s range
+  size: [number, number];
+  decay: [number, number];
+  gravity: number;
+  lift?: number; // Extra upward px/s, so bursts arc instead of falling flat
+}
+
+const between = ([min, max]: [number, number]) => min + Math.random() * (max - min);
+
+export const emit = (pool: ParticlePool, origin: Point, color: string, options: EmitOptions) => {
+  for (let i = 0; i < options.count && pool.active < pool.items.length; i++) {
+    const p = pool.items[pool.active++];
+    const angle = Math.random() * Math.PI * 2;
+    const speed = between(options.speed);
+    p.id = pool.nextId++;
+    p.x = origin.x;
+    p.y = origin.y;
+    p.color = color;
+    p.vx = Math.cos(angle) * speed;
+    p.vy = Math.sin(angle) * speed - (options.lift ?? 0);
+    p.life = 1;
+    p.decay = between(options.decay);
+    p.size = between(options.size);
+    p.gravity = options.gravity;
+  }
+};
+
+// Advances every live particle by dt seconds and recycles the dead ones
+export const updateParticles = (pool: ParticlePool, dt: number) => {
+  const drag = Math.pow(DRAG, dt * 60);
+  let i = 0;
+  while (i < pool.active) {
+    const p = pool.items[i];
+    p.life -= p.decay * dt;
+    if (p.life <= 0) {
+      pool.active--;
+      pool.items[i] = pool.items[pool.active];
+      pool.items[pool.active] = p;
+      continue; // Re-check the particle swapped into slot i
+    }
+    p.vx *= drag;
+    p.vy = p.vy * drag + p.gravity * dt;
+    p.x += p.vx * dt;
+    p.y += p.vy * dt;
+    i++;
+  }
+};
+
+export const drawParticles = (ctx: CanvasRenderingContext2D, pool: ParticlePool) => {
+  for (let i = 0; i < pool.active; i++) {
+    const p = pool.items[i];
+    const size = p.size * (0.4 + 0.6 * p.life); // Shrink as they fade
+    ctx.globalAlpha = Math.max(0, p.life);
+    ctx.fillStyle = p.color;
+    ctx.fillRect(p.x - size / 2, p.y - size / 2, size, size);
+  }
+  ctx.globalAlpha = 1;
+};
+
+// --- Effects ---
+// `quality` (0-1) comes from the frame budget and thins every effect out evenly.
+
+// Bigger clears and longer combos hit harder, up to 3x
+export const getClearIntensity = (lines: number, combo: number): number =>
+  Math.min(3, 1 + 0.25 * Math.max(0, lines - 1) + 0.35 * Math.max(0, combo - 1));
+
+// Every cleared block bursts into shards of the piece that cleared it
+export const shatterCells = (pool: ParticlePool, centers: Point[], cellSize: number, color: string, intensity: number, quality: number) => {
+  const count = Math.max(1, Math.round(6 * intensity * quality));
+  centers.forEach(center => emit(pool, center, color, {
+    count,
+    speed: [60 * intensity, 200 * intensity],
+    size: [cellSize * 0.12, cellSize * 0.3],
+    decay: [0.9, 1.6],
+    gravity: 700,
+    lift: 120,
+  }));
+};
+
+export const sparkCells = (pool: ParticlePool, centers: Point[], cellSize: number, color: string, quality: number) => {
+  const count = Math.max(1, Math.round(2 * quality));
+  centers.forEach(center => emit(pool, center, color, {
+    count,
+    speed: [30, 110],
+    size: [cellSize * 0.06, cellSize * 0.12],
+    decay: [2.2, 3.5],
+    gravity: 0,
+  }));
+};
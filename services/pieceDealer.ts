@@ -0,0 +1,200 @@
+import { DealerConfig, DifficultyCurve, GameMode, GameState, Shape, ShapeSet } from '../types';
+import { GAME_MODES, MIRRORED_L_TEMPLATE, PENTOMINO_TEMPLATES, SHAPE_TEMPLATES, TRAY_SIZE, createShape } from '../constants';
+import { canPlaceAnywhere } from './board';
+import { createRng } from './random';
+
+// Random trays. Each shape set gives its templates a weight, the difficulty
+// curve scales those weights by shape size as the score rises, bags deal a
+// shuffled batch before refilling, and the fairness check swaps in a shape
+// that fits when a tray would otherwise be dead on arrival. Everything draws
+// from the state's PRNG, so a seed plus a config always deals the same game.
+
+interface ShapeTemplate {
+  matrix: number[][];
+  weight: number;
+}
+
+export interface ShapeSetInfo {
+  id: ShapeSet;
+  label: string;
+  description: string;
+  templates: ShapeTemplate[];
+}
+
+const weighted = (matrices: number[][][], weight = 1): ShapeTemplate[] => matrices.map(matrix => ({ matrix, weight }));
+
+// Index 0 is the dot and 8 the 3x3 square (see SHAPE_TEMPLATES)
+const TUNED_CLASSIC = SHAPE_TEMPLATES.map((matrix, i) => ({ matrix, weight: i === 0 ? 0.6 : i === 8 ? 0.5 : 1 }));
+
+export const SHAPE_SETS: ShapeSetInfo[] = [
+  {
+    id: 'classic', label: 'Classic', description: 'The original shapes',
+    templates: weighted(SHAPE_TEMPLATES),
+  },
+  {
+    id: 'extended', label: 'Extended', description: 'Adds the mirrored L, fewer dots and big squares',
+    templates: [...TUNED_CLASSIC, ...weighted([MIRRORED_L_TEMPLATE])],
+  },
+  {
+    id: 'pentomino', label: 'Pentomino', description: 'Extended plus five-block shapes',
+    templates: [...TUNED_CLASSIC, ...weighted([MIRRORED_L_TEMPLATE]), ...weighted(PENTOMINO_TEMPLATES, 0.5)],
+  },
+];
+
+export const getShapeSet = (id: ShapeSet): ShapeSetInfo => SHAPE_SETS.find(s => s.id === id) as ShapeSetInfo;
+
+// What games without a config (older saves and replays) were dealt with
+export const UNIFORM_DEALER: DealerConfig = { shapeSet: 'classic', bag: false, curve: 'none', fair: false };
+export const DEFAULT_DEALER: DealerConfig = { shapeSet: 'classic', bag: true, curve: 'gentle', fair: true };
+
+// --- Difficulty ---
+
+// Difficulty runs from `from` to `to` over the first `span` points
+const CURVES: Record<DifficultyCurve, { label: string; from: number; to: number; span: number } | null> = {
+  none: null,
+  gentle: { label: 'Gentle', from: 0.3, to: 0.8, span: 6000 },
+  steep: { label: 'Steep', from: 0.2, to: 1, span: 2500 },
+};
+
+export const DIFFICULTY_CURVES = Object.keys(CURVES) as DifficultyCurve[];
+
+export const getCurveLabel = (curve: DifficultyCurve): string => CURVES[curve]?.label ?? 'Off';
+
+// 0 (easy) to 1 (hard); null when the curve is off
+export const getDifficulty = (curve: DifficultyCurve, score: number): number | null => {
+  const c = CURVES[curve];
+  if (!c) return null;
+  return c.from + (c.to - c.from) * Math.min(1, score / c.span);
+};
+
+// Small shapes get rarer and big ones more common as difficulty rises; 0.5 leaves weights as they are
+const sizeFactor = (matrix: number[][], difficulty: number): number => {
+  const blocks = matrix.flat().filter(v => v === 1).length;
+  if (blocks <= 2) return 1.5 - difficulty;
+  if (blocks >= 5) return 0.5 + difficulty;
+  return 1;
+};
+
+export const getShapeWeights = (dealer: DealerConfig, score: number): number[] => {
+  const difficulty = getDifficulty(dealer.curve, score);
+  return getShapeSet(dealer.shapeSet).templates.map((t, i) => {
+    const weight = dealer.weights?.[i] ?? t.weight;
+    return difficulty === null ? weight : weight * sizeFactor(t.matrix, difficulty);
+  });
+};
+
+// --- Dealing ---
+
+const BAG_COPIES = 2; // Copies per unit of weight, so weights still show inside a bag
+
+const pickWeighted = (weights: number[], random: () => number): number => {
+  let target = random() * weights.reduce((sum, w) => sum + w, 0);
+  for (let i = 0; i < weights.length; i++) {
+    target -= weights[i];
+    if (target < 0) return i;
+  }
+  // Only reached through rounding at the very top: fall back to the last pickable shape
+  let last = weights.length - 1;
+  while (last > 0 && weights[last] <= 0) last--;
+  return last;
+};
+
+const fillBag = (weights: number[], random: () => number): number[] => {
+  const bag: number[] = [];
+  weights.forEach((w, i) => {
+    // A zero weight (only possible with custom weights) keeps the shape out entirely
+    for (let n = w > 0 ? Math.max(1, Math.round(w * BAG_COPIES)) : 0; n > 0; n--) bag.push(i);
+  });
+  for (let i = bag.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [bag[i], bag[j]] = [bag[j], bag[i]];
+  }
+  return bag;
+};
+
+export const dealTray = (state: GameState): Pick<GameState, 'availablePieces' | 'rngState' | 'bag'> => {
+  const { dealer, grid } = state;
+  const templates = getShapeSet(dealer.shapeSet).templates;
+  const weights = getShapeWeights(dealer, state.score);
+  const rng = createRng(state.rngState);
+  let bag = state.bag;
+
+  const draw = (): number => {
+    if (!dealer.bag) return pickWeighted(weights, rng.next);
+    if (bag.length === 0) bag = fillBag(weights, rng.next);
+    const index = bag[bag.length - 1];
+    bag = bag.slice(0, -1);
+    return index;
+  };
+
+  const availablePieces = Array.from({ length: TRAY_SIZE }, () => createShape(templates[draw()].matrix, rng.next));
+
+  // A dead tray swaps one piece for a shape that fits, picked by the same weights.
+  // The swap comes from outside the bag, so the bag's contents are untouched.
+  if (dealer.fair && !availablePieces.some(piece => canPlaceAnywhere(grid, piece))) {
+    const fitting = weights.map((w, i) => {
+      const shape: Shape = { id: '', matrix: templates[i].matrix, color: '' };
+      return canPlaceAnywhere(grid, shape) ? w : 0;
+    });
+    if (fitting.some(w => w > 0)) {
+      const slot = Math.floor(rng.next() * TRAY_SIZE);
+      availablePieces[slot] = createShape(templates[pickWeighted(fitting, rng.next)].matrix, rng.next);
+    }
+  }
+
+  return { availablePieces, rngState: rng.state(), bag };
+};
+
+// --- Config ---
+
+// Null for anything that is not a complete, known config. Custom weights never come from storage
+export const parseDealerConfig = (raw: unknown): DealerConfig | null => {
+  const d = raw as DealerConfig;
+  if (!d || typeof d !== 'object') return null;
+  if (!SHAPE_SETS.some(s => s.id === d.shapeSet) || !(d.curve in CURVES)) return null;
+  if (typeof d.bag !== 'boolean' || typeof d.fair !== 'boolean') return null;
+  return { shapeSet: d.shapeSet, bag: d.bag, curve: d.curve, fair: d.fair };
+};
+
+export const isSameDealer = (a: DealerConfig, b: DealerConfig) =>
+  a.shapeSet === b.shapeSet && a.bag === b.bag && a.curve === b.curve && a.fair === b.fair
+  && (a.weights ?? []).join() === (b.weights ?? []).join();
+
+// Valid bag entries index into the dealer's shape set
+export const isValidBag = (bag: unknown, dealer: DealerConfig): bag is number[] => {
+  const count = getShapeSet(dealer.shapeSet).templates.length;
+  return Array.isArray(bag) && bag.every(i => Number.isInteger(i) && i >= 0 && i < count);
+};
+
+// --- Preferences ---
+
+const DEALER_PREFERENCES_KEY = 'qblock_dealer';
+
+export type DealerPreferences = Partial<Record<GameMode, DealerConfig>>;
+
+// Everyone plays the same daily, so its rules are not up to the player. It keeps the dealer it
+// launched with, so a date deals the same pieces it always has. Puzzles deal a fixed queue.
+const FIXED_DEALERS: Partial<Record<GameMode, DealerConfig>> = { daily: UNIFORM_DEALER };
+
+export const isDealerSelectable = (mode: GameMode) => mode !== 'puzzle' && !FIXED_DEALERS[mode];
+
+export const getModeDealer = (mode: GameMode, preferences: DealerPreferences): DealerConfig =>
+  FIXED_DEALERS[mode] ?? preferences[mode] ?? DEFAULT_DEALER;
+
+export const loadDealerPreferences = (): DealerPreferences => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(DEALER_PREFERENCES_KEY) || '{}');
+    const preferences: DealerPreferences = {};
+    Object.entries(stored ?? {}).forEach(([mode, raw]) => {
+      const dealer = parseDealerConfig(raw);
+      if (dealer && GAME_MODES.includes(mode as GameMode) && isDealerSelectable(mode as GameMode)) preferences[mode as GameMode] = dealer;
+    });
+    return preferences;
+  } catch {
+    return {};
+  }
+};
+
+export const saveDealerPreferences = (preferences: DealerPreferences) => {
+  localStorage.setItem(DEALER_PREFERENCES_KEY, JSON.stringify(preferences));
+};
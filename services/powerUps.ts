@@ -0,0 +1,123 @@
+import { GameState, Grid, LineAxis, PowerUp, Shape } from '../types';
+import { COST_BOMB, COST_FILLER, COST_LINE_ERASER, COST_REROLL, FILLER_COLOR } from '../constants';
+import { canPlaceAnywhere, checkLines, placePiece } from './board';
+import { dealTray } from './pieceDealer';
+
+// Shop catalogue plus the targeting rules shared by the engine and the board UI
+
+export interface PowerUpInfo {
+  id: PowerUp;
+  label: string;
+  description: string;
+  cost: number;
+  targeted: boolean; // Needs a board cell before it can fire
+}
+
+export const POWER_UPS: PowerUpInfo[] = [
+  { id: 'bomb', label: 'Bomb', description: 'Clear a 3x3 area', cost: COST_BOMB, targeted: true },
+  { id: 'lineEraser', label: 'Eraser', description: 'Clear one row or column', cost: COST_LINE_ERASER, targeted: true },
+  { id: 'reroll', label: 'Reroll', description: 'Deal a fresh tray', cost: COST_REROLL, targeted: false },
+  { id: 'filler', label: 'Filler', description: 'Drop a single block', cost: COST_FILLER, targeted: true },
+];
+
+export const getPowerUpInfo = (powerUp: PowerUp): PowerUpInfo =>
+  POWER_UPS.find(p => p.id === powerUp) as PowerUpInfo;
+
+// What the filler drops
+export const FILLER_BLOCK: Shape = { id: 'filler', matrix: [[1]], color: FILLER_COLOR };
+
+// Puzzles are solved with the pieces they deal and versus is a straight race; the shop is closed
+export const arePowerUpsAllowed = (state: GameState): boolean => state.pieceQueue === null && state.variant !== 'versus';
+
+// Cells affected when aiming at (x, y); empty when the aim is off the board
+export const getPowerUpCells = (
+  grid: Grid, powerUp: PowerUp, x: number, y: number, axis: LineAxis = 'row'
+): { x: number, y: number }[] => {
+  const size = grid.length;
+  if (x < 0 || y < 0 || x >= size || y >= size) return [];
+
+  switch (powerUp) {
+    case 'bomb': {
+      const cells: { x: number, y: number }[] = [];
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const cx = x + dx;
+          const cy = y + dy;
+          if (cx >= 0 && cy >= 0 && cx < size && cy < size) cells.push({ x: cx, y: cy });
+        }
+      }
+      return cells;
+    }
+    case 'lineEraser':
+      return Array.from({ length: size }, (_, i) => (axis === 'row' ? { x: i, y } : { x, y: i }));
+    case 'filler':
+      return [{ x, y }];
+    default:
+      return [];
+  }
+};
+
+// Keys aside, a power-up must actually change something: destroyers need a
+// filled cell in range and the filler needs an empty target
+export const canUsePowerUp = (
+  state: GameState, powerUp: PowerUp, x: number, y: number, axis: LineAxis = 'row'
+): boolean => {
+  if (state.isGameOver || !arePowerUpsAllowed(state) || state.keys < getPowerUpInfo(powerUp).cost) return false;
+  if (powerUp === 'reroll') return true;
+
+  const cells = getPowerUpCells(state.grid, powerUp, x, y, axis);
+  if (powerUp === 'filler') return cells.length === 1 && state.grid[y][x] === null;
+  return cells.some(c => state.grid[c.y][c.x] !== null);
+};
+
+// --- Escape check ---
+
+const fitsSomewhere = (grid: Grid, pieces: Shape[]) => pieces.some(piece => canPlaceAnywhere(grid, piece));
+
+// The grid right after firing at (x, y), before any piece is placed
+const applyToGrid = (state: GameState, powerUp: PowerUp, x: number, y: number, axis: LineAxis): Grid => {
+  if (powerUp === 'filler') return checkLines(placePiece(state.grid, FILLER_BLOCK, x, y), state.board.regionClears).newGrid;
+  const grid = state.grid.map(row => [...row]);
+  getPowerUpCells(grid, powerUp, x, y, axis).forEach(c => {
+    grid[c.y][c.x] = null;
+  });
+  return grid;
+};
+
+export interface PowerUpUse {
+  powerUp: PowerUp;
+  x: number;
+  y: number;
+  axis: LineAxis;
+}
+
+// The cheapest affordable power-up that would free a piece on a stuck board,
+// or null. Each tool is tried on every target, one use deep; a reroll is
+// judged by the tray it would really deal, since the deal comes from the
+// state's PRNG.
+export const findEscapePowerUp = (state: GameState): PowerUpUse | null => {
+  if (!arePowerUpsAllowed(state)) return null;
+  const held = state.holdPiece ? [state.holdPiece] : [];
+  const pieces = [...state.availablePieces, ...held];
+  const size = state.grid.length;
+
+  for (const { id, cost } of [...POWER_UPS].sort((a, b) => a.cost - b.cost)) {
+    if (state.keys < cost) continue;
+    if (id === 'reroll') {
+      if (fitsSomewhere(state.grid, [...dealTray(state).availablePieces, ...held])) return { powerUp: id, x: 0, y: 0, axis: 'row' };
+      continue;
+    }
+    const axes: LineAxis[] = id === 'lineEraser' ? ['row', 'column'] : ['row'];
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        for (const axis of axes) {
+          if (canUsePowerUp(state, id, x, y, axis) && fitsSomewhere(applyToGrid(state, id, x, y, axis), pieces)) return { powerUp: id, x, y, axis };
+        }
+      }
+    }
+  }
+  return null;
+};
+
+// A stuck board only ends the game once no affordable power-up would free a piece
+export const canEscapeWithPowerUp = (state: GameState): boolean => findEscapePowerUp(state) !== null;
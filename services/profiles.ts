@@ -0,0 +1,82 @@
+import { Profile } from '../types';
+import { MAX_NAME_LENGTH } from './netProtocol';
+
+// Local player profiles. Scores are submitted under the active profile's
+// name; at least one profile always exists.
+
+const PROFILES_KEY = 'qblock_profiles';
+const DEFAULT_NAME = 'Player';
+
+export interface ProfileStore {
+  profiles: Profile[];
+  activeId: string;
+}
+
+export const normalizeProfileName = (name: string) => name.trim().slice(0, MAX_NAME_LENGTH);
+
+const createId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+const newProfile = (name: string): Profile => ({
+  id: createId(),
+  name: normalizeProfileName(name) || DEFAULT_NAME,
+  createdAt: new Date().toISOString(),
+});
+
+const isProfile = (raw: unknown): raw is Profile => {
+  const p = raw as Profile;
+  return !!p && typeof p === 'object' && typeof p.id === 'string' && typeof p.name === 'string' && typeof p.createdAt === 'string'
+    && normalizeProfileName(p.name).length > 0;
+};
+
+export const saveProfiles = (store: ProfileStore) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(store));
+};
+
+// Saved straight away: leaderboard entries point at the id, which must survive a reload
+const createDefaultStore = (): ProfileStore => {
+  const profile = newProfile(DEFAULT_NAME);
+  const store = { profiles: [profile], activeId: profile.id };
+  try {
+    saveProfiles(store);
+  } catch {
+    // Storage unavailable; the profile lasts for this session
+  }
+  return store;
+};
+
+export const loadProfiles = (): ProfileStore => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILES_KEY) || 'null') as Partial<Record<keyof ProfileStore, unknown>> | null;
+    const profiles = Array.isArray(stored?.profiles) ? (stored.profiles as unknown[]).filter(isProfile) : [];
+    if (profiles.length === 0) return createDefaultStore();
+    const activeId = profiles.find(p => p.id === stored?.activeId)?.id ?? profiles[0].id;
+    return { profiles, activeId };
+  } catch {
+    return createDefaultStore();
+  }
+};
+
+export const getActiveProfile = (store: ProfileStore): Profile =>
+  store.profiles.find(p => p.id === store.activeId) ?? store.profiles[0];
+
+// New profiles become the active one
+export const addProfile = (store: ProfileStore, name: string): ProfileStore => {
+  const profile = newProfile(name);
+  return { profiles: [...store.profiles, profile], activeId: profile.id };
+};
+
+export const renameProfile = (store: ProfileStore, id: string, name: string): ProfileStore => {
+  const normalized = normalizeProfileName(name);
+  if (!normalized) return store;
+  return { ...store, profiles: store.profiles.map(p => (p.id === id ? { ...p, name: normalized } : p)) };
+};
+
+// Scores already on the leaderboard keep the name they were submitted under
+export const removeProfile = (store: ProfileStore, id: string): ProfileStore => {
+  const profiles = store.profiles.filter(p => p.id !== id);
+  if (profiles.length === 0) return store;
+  return { profiles, activeId: store.activeId === id ? profiles[0].id : store.activeId };
+};
+
+export const selectProfile = (store: ProfileStore, id: string): ProfileStore =>
+  store.profiles.some(p => p.id === id) ? { ...store, activeId: id } : store;
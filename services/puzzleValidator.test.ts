@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { getStarterPack, parseLevel } from './puzzles';
+import { validateLevel, validateLevels } from './puzzleValidator';
+
+// One bottom row short of two cells, and a domino to finish it
+const level = (overrides: Record<string, unknown> = {}) => parseLevel({
+  id: 'test',
+  goal: { type: 'clearAll' },
+  grid: ['......', '......', '......', '......', '......', 'cccc..'],
+  pieces: [[[1, 1]]],
+  stars: [80, 120],
+  ...overrides,
+});
+
+describe('validateLevels', () => {
+  it('proves every starter level solvable', () => {
+    const reports = validateLevels(getStarterPack());
+    expect(reports.filter(r => r.solvable !== true)).toEqual([]);
+  });
+
+  it('finds a solution when the level ships without one', () => {
+    const report = validateLevel(level());
+    expect(report).toMatchObject({ id: 'test', solvable: true, problems: [] });
+    expect(report.solution).toEqual([{ type: 'place', source: 0, x: 4, y: 5 }]);
+  });
+
+  it('reports a bundled solution that does not win, then searches anyway', () => {
+    const report = validateLevel(level({ solution: [['p', 0, 0, 0]] }));
+    expect(report.solvable).toBe(true);
+    expect(report.problems).toEqual(['bundled solution does not win the level']);
+  });
+
+  it('proves a level unsolvable when no sequence wins', () => {
+    const report = validateLevel(level({ pieces: [[[1]]] }));
+    expect(report.solvable).toBe(false);
+    expect(report.problems).toEqual(['no sequence of moves wins the level']);
+  });
+
+  it('rejects broken structure before searching', () => {
+    const report = validateLevel(level({ grid: ['......', '......', '......', '......', '......', 'cccccc'] }));
+    expect(report).toMatchObject({ solvable: false, problems: ['a row or column starts full'] });
+  });
+
+  it('gives up without a verdict when the search budget runs out', () => {
+    const report = validateLevel(level({ pieces: [[[1]], [[1]], [[1]]] }), 5);
+    expect(report.solvable).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+import { GameAction, GameState, PieceSource, PuzzleLevel } from '../types';
+import { COST_ROTATE } from '../constants';
+import { canPlacePiece } from './board';
+import { createInitialState, gameReducer, getPiece } from './gameEngine';
+import { rotateMatrix } from './gameLogic';
+import { createPuzzleStart, evaluatePuzzle } from './puzzles';
+
+// Proves puzzle levels can be won. A level's own solution is replayed through
+// the real engine; without one, a bounded depth-first search looks for a win
+// using placements, holds and rotations (never power-ups or undo).
+
+export const DEFAULT_SEARCH_NODES = 200_000;
+
+export interface LevelReport {
+  id: string;
+  solvable: boolean | null; // null: search budget ran out before a verdict
+  problems: string[];
+  solution?: GameAction[];
+}
+
+export const startLevel = (level: PuzzleLevel): GameState =>
+  gameReducer(createInitialState(), createPuzzleStart(level)).state;
+
+// Structural checks the parser can't make on its own
+export const checkLevelStructure = (level: PuzzleLevel): string[] => {
+  const problems: string[] = [];
+  const size = level.board.size;
+  const filled = level.grid.flat().filter(c => c !== null).length;
+
+  const fullRow = level.grid.some(row => row.every(c => c !== null));
+  const fullColumn = level.grid[0].some((_, x) => level.grid.every(row => row[x] !== null));
+  if (fullRow || fullColumn) problems.push('a row or column starts full');
+  if (level.pieces.some(p => p.matrix.length > size || p.matrix[0].length > size)) problems.push('a piece is larger than the board');
+  if (level.goal.type === 'clearAll' && filled === 0) problems.push('clear-all goal on an empty board');
+  if (level.goal.type === 'clearCells' && level.goal.cells.some(([x, y]) => level.grid[y][x] === null)) {
+    problems.push('a marked cell starts empty');
+  }
+  if (level.goal.type === 'score' && level.goal.pieces > level.pieces.length) problems.push('score goal allows more pieces than the level deals');
+  return problems;
+};
+
+export const replaySolution = (level: PuzzleLevel, actions: GameAction[]): boolean => {
+  let state = startLevel(level);
+  for (const action of actions) {
+    const next = gameReducer(state, action).state;
+    if (next === state) return false; // Illegal step
+    state = next;
+    const { status } = evaluatePuzzle(level, state);
+    if (status === 'won') return true;
+    if (status === 'lost') return false;
+  }
+  return false;
+};
+
+const stateKey = (level: PuzzleLevel, state: GameState): string => [
+  state.grid.map(row => row.map(c => (c ? 1 : 0)).join('')).join('/'),
+  state.availablePieces.map(p => `${p.id}:${p.matrix.map(r => r.join('')).join('|')}`).join(','),
+  state.holdPiece ? `${state.holdPiece.id}:${state.holdPiece.matrix.map(r => r.join('')).join('|')}` : '-',
+  state.keys,
+  level.goal.type === 'score' ? state.score : '',
+].join(' ');
+
+// Every legal follow-up: optional rotations, then a placement; or moving a tray piece to hold
+const expand = (state: GameState): GameAction[][] => {
+  const sequences: GameAction[][] = [];
+  const sources: PieceSource[] = state.availablePieces.map((_, i) => i);
+  if (state.holdPiece) sources.push('hold');
+
+  sources.forEach(source => {
+    let piece = getPiece(state, source);
+    const seen = new Set<string>();
+    for (let turns = 0; piece && turns < 4 && turns * COST_ROTATE <= state.keys; turns++) {
+      const signature = JSON.stringify(piece.matrix);
+      if (!seen.has(signature)) {
+        seen.add(signature);
+        const rotations: GameAction[] = Array.from({ length: turns }, () => ({ type: 'rotate', source }));
+        for (let y = 0; y < state.grid.length; y++) {
+          for (let x = 0; x < state.grid.length; x++) {
+            if (canPlacePiece(state.grid, piece, x, y)) sequences.push([...rotations, { type: 'place', source, x, y }]);
+          }
+        }
+      }
+      piece = { ...piece, matrix: rotateMatrix(piece.matrix) };
+    }
+    if (typeof source === 'number') sequences.push([{ type: 'hold', source }]);
+  });
+  return sequences;
+};
+
+// undefined: the search budget ran out; null: proven unsolvable
+export const findSolution = (level: PuzzleLevel, maxNodes = DEFAULT_SEARCH_NODES): GameAction[] | null | undefined => {
+  // A visited state has already been fully explored without a win
+  const visited = new Set<string>();
+  let nodes = 0;
+  let outOfBudget = false;
+
+  const search = (state: GameState, path: GameAction[]): GameAction[] | null => {
+    const { status } = evaluatePuzzle(level, state);
+    if (status === 'won') return path;
+    if (status === 'lost') return null;
+    const key = stateKey(level, state);
+    if (visited.has(key)) return null;
+    visited.add(key);
+
+    for (const sequence of expand(state)) {
+      if (++nodes > maxNodes) {
+        outOfBudget = true;
+        return null;
+      }
+      const next = sequence.reduce((s, action) => gameReducer(s, action).state, state);
+      const found = search(next, [...path, ...sequence]);
+      if (found || outOfBudget) return found;
+    }
+    return null;
+  };
+
+  const solution = search(startLevel(level), []);
+  return solution ?? (outOfBudget ? undefined : null);
+};
+
+export const validateLevel = (level: PuzzleLevel, maxNodes = DEFAULT_SEARCH_NODES): LevelReport => {
+  const problems = checkLevelStructure(level);
+  if (problems.length > 0) return { id: level.id, solvable: false, problems };
+
+  if (level.solution) {
+    if (replaySolution(level, level.solution)) return { id: level.id, solvable: true, problems, solution: level.solution };
+    problems.push('bundled solution does not win the level');
+  }
+
+  const solution = findSolution(level, maxNodes);
+  if (solution) return { id: level.id, solvable: true, problems, solution };
+  if (solution === null) return { id: level.id, solvable: false, problems: [...problems, 'no sequence of moves wins the level'] };
+  return { id: level.id, solvable: null, problems: [...problems, `no solution found within ${maxNodes} moves searched`] };
+};
+
+export const validateLevels = (levels: PuzzleLevel[], maxNodes = DEFAULT_SEARCH_NODES): LevelReport[] =>
+  levels.map(level => validateLevel(level, maxNodes));
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { decodeLevelCode, encodeLevelCode, isSharedLevelId, parseLevel } from './puzzles';
+
+const ROWS_6 = ['......', '......', '..c...', '......', '......', 'cccc..'];
+const ROWS_9 = ['.........', '.........', '.........', '...ccc...', '...c.c...', '...ccc...', '.........', '.........', 'ccccccc..'];
+
+// Parsed under the id a decoded level gets, which also names its pieces
+const level = (overrides: Record<string, unknown>) => parseLevel({
+  id: 'shared',
+  name: 'Test Level',
+  grid: ROWS_6,
+  pieces: [[[1, 1]], [[1, 0], [1, 1]]],
+  keys: 3,
+  goal: { type: 'clearAll' },
+  stars: [80, 120],
+  ...overrides,
+});
+
+describe('level codes', () => {
+  it.each([
+    ['clear all', level({})],
+    ['score', level({ goal: { type: 'score', points: 200, pieces: 4 } })],
+    ['clear cells', level({ goal: { type: 'clearCells', cells: [[2, 2], [0, 5]] } })],
+    ['a region board', level({ grid: ROWS_9, regionClears: true, goal: { type: 'clearCells', cells: [[4, 4]] } })],
+  ])('decodes a %s level to the one encoded', (_, original) => {
+    const code = encodeLevelCode(original);
+    expect(code).toMatch(/^[A-Za-z0-9_-]+$/);
+    const decoded = decodeLevelCode(code);
+    expect(isSharedLevelId(decoded.id)).toBe(true);
+    expect({ ...decoded, id: original.id }).toEqual(original);
+  });
+
+  it('rejects a code that is not a level with a readable reason', () => {
+    expect(() => decodeLevelCode('not a level code!')).toThrow('level code is not readable');
+    expect(() => decodeLevelCode(btoa('{"name":"x"}'))).toThrow('level code is not readable');
+  });
+
+  it('rejects a tuple of the wrong length', () => {
+    const code = encodeLevelCode(level({}));
+    const tuple = JSON.parse(atob(code.replace(/-/g, '+').replace(/_/g, '/')));
+    const shortCode = btoa(JSON.stringify(tuple.slice(0, 6)));
+    expect(() => decodeLevelCode(shortCode)).toThrow('level code is not readable');
+  });
+
+  it('runs a decoded level through the same checks as an authored one', () => {
+    const code = encodeLevelCode(level({}));
+    const tuple = JSON.parse(atob(code.replace(/-/g, '+').replace(/_/g, '/')));
+    tuple[6] = [120, 80];
+    expect(() => decodeLevelCode(btoa(JSON.stringify(tuple)))).toThrow('stars must be two ascending scores');
+  });
+});
@@ -0,0 +1,308 @@
+import { BoardConfig, GameAction, GameState, Grid, PuzzleBest, PuzzleGoal, PuzzleLevel, PuzzleOutcome, Shape } from '../types';
+import { COLORS, MAX_BOARD_SIZE, MIN_BOARD_SIZE } from '../constants';
+import { supportsRegions } from './board';
+import { decodeAction } from './replay';
+import starterPackFile from '../levels/starter-pack.json';
+
+// Authored puzzles. Levels are plain JSON so they can be written by hand:
+//
+//   grid    rows of '.' (empty) or a color letter: c v r e a
+//   pieces  SHAPE_TEMPLATES-style 0/1 matrices, dealt in order
+//   goal    { type: 'clearAll' } | { type: 'score', points, pieces } | { type: 'clearCells', cells: [[x, y]] }
+//   stars   scores for the second and third star
+//   solution  optional replay-encoded actions proving the level can be won
+
+const PROGRESS_KEY = 'qblock_puzzles';
+
+const GRID_COLORS: Record<string, string> = { c: COLORS[0], v: COLORS[1], r: COLORS[2], e: COLORS[3], a: COLORS[4] };
+const GRID_LETTERS: Record<string, string> = Object.fromEntries(Object.entries(GRID_COLORS).map(([ch, color]) => [color, ch]));
+
+// Query parameter that opens a shared level, e.g. ?level=<code>
+export const LEVEL_CODE_PARAM = 'level';
+const SHARED_ID_PREFIX = 'code:';
+
+const fail = (reason: string): never => {
+  throw new Error(reason);
+};
+
+const isInt = (v: unknown): v is number => Number.isInteger(v);
+
+type Fields = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Fields => !!v && typeof v === 'object';
+
+const parseGrid = (rows: unknown): Grid => {
+  if (!Array.isArray(rows) || rows.length < MIN_BOARD_SIZE || rows.length > MAX_BOARD_SIZE) fail('grid has an unsupported size');
+  const size = (rows as unknown[]).length;
+  return (rows as unknown[]).map(row => {
+    if (typeof row !== 'string' || row.length !== size) fail('grid must be square');
+    return [...(row as string)].map(ch => {
+      if (ch === '.') return null;
+      return GRID_COLORS[ch] ?? fail(`unknown grid character "${ch}"`);
+    });
+  });
+};
+
+const parsePiece = (matrix: unknown, index: number, levelId: string): Shape => {
+  if (!Array.isArray(matrix) || matrix.length === 0) fail(`piece ${index + 1} has no rows`);
+  const width = (matrix as unknown[][])[0]?.length;
+  (matrix as unknown[]).forEach(row => {
+    if (!Array.isArray(row) || row.length !== width || row.some(v => v !== 0 && v !== 1)) fail(`piece ${index + 1} is malformed`);
+  });
+  if (!(matrix as number[][]).flat().includes(1)) fail(`piece ${index + 1} is empty`);
+  return { id: `${levelId}-${index}`, matrix: matrix as number[][], color: COLORS[index % COLORS.length] };
+};
+
+const parseGoal = (raw: unknown, size: number): PuzzleGoal => {
+  const goal: Fields = isObject(raw) ? raw : {};
+  switch (goal.type) {
+    case 'clearAll':
+      return { type: 'clearAll' };
+    case 'score':
+      if (!isInt(goal.points) || goal.points <= 0 || !isInt(goal.pieces) || goal.pieces <= 0) break;
+      return { type: 'score', points: goal.points, pieces: goal.pieces };
+    case 'clearCells': {
+      if (!Array.isArray(goal.cells) || goal.cells.length === 0) break;
+      const cells = (goal.cells as unknown[]).map(c => {
+        if (!Array.isArray(c) || !isInt(c[0]) || !isInt(c[1]) || c[0] < 0 || c[1] < 0 || c[0] >= size || c[1] >= size) {
+          fail(`goal cell ${JSON.stringify(c)} is off the board`);
+        }
+        return [c[0], c[1]] as [number, number];
+      });
+      return { type: 'clearCells', cells };
+    }
+  }
+  return fail(`invalid goal ${JSON.stringify(raw)}`);
+};
+
+// Throws with a readable reason on anything malformed
+export const parseLevel = (raw: unknown): PuzzleLevel => {
+  if (!isObject(raw)) return fail('level is not an object');
+  const id = typeof raw.id === 'string' && raw.id ? raw.id : fail('level has no id');
+  try {
+    const grid = parseGrid(raw.grid);
+    const regionClears = raw.regionClears === true;
+    if (regionClears && !supportsRegions(grid.length)) fail('region clears need a board size divisible by 3');
+    const pieces = raw.pieces;
+    if (!Array.isArray(pieces) || pieces.length === 0) fail('level has no pieces');
+    const keys = raw.keys ?? 0;
+    if (!isInt(keys) || keys < 0) return fail('keys must be a non-negative integer');
+    const stars = raw.stars;
+    if (!Array.isArray(stars) || !isInt(stars[0]) || !isInt(stars[1]) || stars[0] > stars[1]) fail('stars must be two ascending scores');
+
+    return {
+      id,
+      name: typeof raw.name === 'string' ? raw.name : id,
+      board: { size: grid.length, regionClears },
+      grid,
+      pieces: (pieces as unknown[]).map((m, i) => parsePiece(m, i, id)),
+      keys,
+      goal: parseGoal(raw.goal, grid.length),
+      stars: [stars[0], stars[1]],
+      solution: Array.isArray(raw.solution) ? (raw.solution as unknown[]).map(decodeAction) : undefined,
+    };
+  } catch (err) {
+    throw new Error(`Level "${id}": ${err instanceof Error ? err.message : 'unreadable'}`);
+  }
+};
+
+// Parsed on first use; replay.ts imports this module too
+let starterPack: PuzzleLevel[] | null = null;
+
+export const getStarterPack = (): PuzzleLevel[] => {
+  if (!starterPack) starterPack = starterPackFile.levels.map(parseLevel);
+  return starterPack;
+};
+
+// Shared levels carry their whole definition in the id, so replays and saves of them stay self-contained
+export const getLevel = (id: string): PuzzleLevel | null => {
+  if (isSharedLevelId(id)) {
+    try {
+      return decodeLevelCode(id.slice(SHARED_ID_PREFIX.length));
+    } catch {
+      return null;
+    }
+  }
+  return getStarterPack().find(l => l.id === id) ?? null;
+};
+
+// The engine action that sets a level up; the seed is irrelevant since nothing is random
+export const createPuzzleStart = (level: PuzzleLevel, highScore = 0): GameAction => ({
+  type: 'newGame',
+  seed: 0,
+  highScore,
+  board: level.board,
+  puzzle: { grid: level.grid, pieces: level.pieces, keys: level.keys },
+});
+
+// --- Goals ---
+
+// Pieces only ever leave play by being placed
+export const countPiecesPlaced = (level: PuzzleLevel, state: GameState): number =>
+  level.pieces.length - (state.pieceQueue?.length ?? 0) - state.availablePieces.length - (state.holdPiece ? 1 : 0);
+
+export const getGoalCells = (level: PuzzleLevel): { x: number, y: number }[] =>
+  level.goal.type === 'clearCells' ? level.goal.cells.map(([x, y]) => ({ x, y })) : [];
+
+export const describeGoal = (goal: PuzzleGoal): string => {
+  switch (goal.type) {
+    case 'clearAll': return 'Clear every block';
+    case 'score': return `Score ${goal.points} in ${goal.pieces} pieces`;
+    case 'clearCells': return `Clear the ${goal.cells.length} marked cells`;
+  }
+};
+
+const isGoalMet = (level: PuzzleLevel, state: GameState): boolean => {
+  const { goal } = level;
+  switch (goal.type) {
+    case 'clearAll':
+      return state.grid.every(row => row.every(cell => cell === null));
+    case 'score':
+      return state.score >= goal.points && countPiecesPlaced(level, state) <= goal.pieces;
+    case 'clearCells':
+      return goal.cells.every(([x, y]) => state.grid[y][x] === null);
+  }
+};
+
+export const getStars = (level: PuzzleLevel, score: number): number =>
+  1 + (score >= level.stars[0] ? 1 : 0) + (score >= level.stars[1] ? 1 : 0);
+
+export const evaluatePuzzle = (level: PuzzleLevel, state: GameState): PuzzleOutcome => {
+  if (isGoalMet(level, state)) return { status: 'won', stars: getStars(level, state.score) };
+  const outOfPieces = level.goal.type === 'score' && countPiecesPlaced(level, state) >= level.goal.pieces;
+  if (state.isGameOver || outOfPieces) return { status: 'lost', stars: 0 };
+  return { status: 'playing', stars: 0 };
+};
+
+// --- Progress ---
+
+const isPuzzleBest = (v: unknown): v is PuzzleBest => isObject(v) && isInt(v.stars) && isInt(v.score);
+
+export const loadPuzzleProgress = (): Record<string, PuzzleBest> => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(PROGRESS_KEY) || 'null');
+    if (!isObject(stored)) return {};
+    const entries: [string, unknown][] = Object.entries(stored);
+    return Object.fromEntries(entries.filter((entry): entry is [string, PuzzleBest] => isPuzzleBest(entry[1])));
+  } catch {
+    return {};
+  }
+};
+
+// Keeps the best stars and best score independently
+export const savePuzzleResult = (levelId: string, stars: number, score: number): Record<string, PuzzleBest> => {
+  const progress = loadPuzzleProgress();
+  const previous = progress[levelId];
+  progress[levelId] = {
+    stars: Math.max(previous?.stars ?? 0, stars),
+    score: Math.max(previous?.score ?? 0, score),
+  };
+  localStorage.setItem(PROGRESS_KEY, JSON.stringify(progress));
+  return progress;
+};
+
+// Each level opens once the one before it has been won
+export const isLevelUnlocked = (levels: PuzzleLevel[], index: number, progress: Record<string, PuzzleBest>): boolean =>
+  index === 0 || (progress[levels[index - 1]?.id]?.stars ?? 0) > 0;
+
+// --- Share codes ---
+//
+// A level code is the level's JSON form squeezed into a tuple (grid rows
+// run-length encoded, piece rows as 0/1 strings) and base64url-encoded, so it
+// can sit in a URL as is. Decoding goes back through parseLevel, so a shared
+// level gets exactly the checks an authored one does.
+
+type EncodedGoal = ['a'] | ['s', number, number] | ['c', ...number[]];
+type EncodedLevel = [name: string, grid: string, regionClears: 0 | 1, pieces: string, keys: number, goal: EncodedGoal, stars: [number, number]];
+
+export const isSharedLevelId = (id: string): boolean => id.startsWith(SHARED_ID_PREFIX);
+
+// "....cc." -> "4.2c."
+const encodeRow = (row: string): string => row.replace(/(.)\1+/g, run => `${run.length}${run[0]}`);
+const decodeRow = (row: string): string => row.replace(/(\d+)(\D)/g, (_, count, ch) => ch.repeat(Number(count)));
+
+const toBase64Url = (text: string): string =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (code: string): string =>
+  new TextDecoder().decode(Uint8Array.from(atob(code.replace(/-/g, '+').replace(/_/g, '/')), ch => ch.charCodeAt(0)));
+
+export const encodeLevelCode = (level: PuzzleLevel): string => {
+  const grid = level.grid
+    .map(row => encodeRow(row.map(cell => (cell === null ? '.' : GRID_LETTERS[cell] ?? fail('grid uses a color levels cannot store'))).join('')))
+    .join('/');
+  const pieces = level.pieces.map(p => p.matrix.map(row => row.join('')).join('.')).join(',');
+  const { goal } = level;
+  const encodedGoal: EncodedGoal =
+    goal.type === 'clearAll' ? ['a'] : goal.type === 'score' ? ['s', goal.points, goal.pieces] : ['c', ...goal.cells.flat()];
+  const tuple: EncodedLevel = [level.name, grid, level.board.regionClears ? 1 : 0, pieces, level.keys, encodedGoal, level.stars];
+  return toBase64Url(JSON.stringify(tuple));
+};
+
+// Throws with a readable reason; the decoded level's id is derived from the code
+export const decodeLevelCode = (code: string): PuzzleLevel => {
+  let tuple: EncodedLevel;
+  try {
+    tuple = JSON.parse(fromBase64Url(code.trim()));
+  } catch {
+    return fail('level code is not readable');
+  }
+  if (!Array.isArray(tuple) || tuple.length !== 7) fail('level code is not readable');
+  const [name, grid, regionClears, pieces, keys, goal, stars] = tuple;
+  if (typeof grid !== 'string' || typeof pieces !== 'string' || !Array.isArray(goal)) fail('level code is not readable');
+
+  const [goalType, ...params] = goal;
+  const cells: [number, number][] = [];
+  for (let i = 0; i + 1 < params.length; i += 2) cells.push([params[i] as number, params[i + 1] as number]);
+  const level = parseLevel({
+    id: 'shared', // Keeps the code itself out of error messages
+
+    name,
+    grid: grid.split('/').map(decodeRow),
+    regionClears: regionClears === 1,
+    pieces: pieces.split(',').map(p => p.split('.').map(row => [...row].map(Number))),
+    keys,
+    goal: goalType === 'a' ? { type: 'clearAll' } : goalType === 's' ? { type: 'score', points: params[0], pieces: params[1] } : { type: 'clearCells', cells },
+    stars,
+  });
+  return { ...level, id: `${SHARED_ID_PREFIX}${code.trim()}` };
+};
+
+// --- Editor drafts ---
+
+const DRAFT_KEY = 'qblock_editor_draft';
+export const DRAFT_LEVEL_ID = 'draft';
+
+// Pieces are colored by queue position, the same way parseLevel colors them
+export const toLevelPieces = (matrices: number[][][]): Shape[] =>
+  matrices.map((matrix, i) => ({ id: `${DRAFT_LEVEL_ID}-${i}`, matrix, color: COLORS[i % COLORS.length] }));
+
+export const createBlankLevel = (board: BoardConfig): PuzzleLevel => ({
+  id: DRAFT_LEVEL_ID,
+  name: 'My Level',
+  board,
+  grid: Array.from({ length: board.size }, () => Array(board.size).fill(null)),
+  pieces: toLevelPieces([[[1]]]),
+  keys: 0,
+  goal: { type: 'clearAll' },
+  stars: [0, 0],
+});
+
+// Drafts are stored as level codes; one that no longer decodes is dropped
+export const loadLevelDraft = (): PuzzleLevel | null => {
+  const code = localStorage.getItem(DRAFT_KEY);
+  if (!code) return null;
+  try {
+    return { ...decodeLevelCode(code), id: DRAFT_LEVEL_ID };
+  } catch {
+    return null;
+  }
+};
+
+export const saveLevelDraft = (level: PuzzleLevel) => {
+  try {
+    localStorage.setItem(DRAFT_KEY, encodeLevelCode(level));
+  } catch {
+    // Unencodable draft or storage full; the last good draft stays
+  }
+};
@@ -0,0 +1,42 @@
+// Seedable PRNG (mulberry32). The whole generator state is a single uint32,
+// so it can live inside GameState and be carried through the reducer.
+
+export interface Rng {
+  next: () => number; // [0, 1), same contract as Math.random
+  state: () => number;
+}
+
+export const createRng = (state: number): Rng => {
+  let s = state >>> 0;
+  return {
+    next: () => {
+      s = (s + 0x6d2b79f5) >>> 0;
+      let t = s;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    state: () => s,
+  };
+};
+
+// FNV-1a, turns any string (a date, a shared code) into a seed
+export const hashSeed = (input: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
+
+// Local calendar date, so everyone in a timezone shares the same puzzle day
+export const getDateKey = (date: Date = new Date()): string => {
+  const m = (date.getMonth() + 1).toString().padStart(2, '0');
+  const d = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${m}-${d}`;
+};
+
+export const getDailySeed = (date: Date = new Date()): number => hashSeed(`daily-${getDateKey(date)}`);
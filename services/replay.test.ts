@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { BoardConfig, GameAction, GameConfig, GameState } from '../types';
+import { COST_ROTATE } from '../constants';
+import { getBotStrategy } from './bots';
+import { createInitialState, gameReducer } from './gameEngine';
+import { getModeDealer } from './pieceDealer';
+import { getVariant } from './modes';
+import { createRng } from './random';
+import { DEFAULT_SOLVER_OPTIONS } from './solver';
+import { buildReplayFrames, createReplay, decodeAction, encodeAction, parseReplay, serializeReplay } from './replay';
+
+const ACTIONS: GameAction[] = [
+  { type: 'place', source: 2, x: 3, y: 4 },
+  { type: 'place', source: 'hold', x: 0, y: 7 },
+  { type: 'hold', source: 1 },
+  { type: 'rotate', source: 0 },
+  { type: 'rotate', source: 'hold' },
+  { type: 'powerUp', powerUp: 'bomb', x: 1, y: 2 },
+  { type: 'powerUp', powerUp: 'lineEraser', x: 0, y: 5, axis: 'row' },
+  { type: 'powerUp', powerUp: 'lineEraser', x: 5, y: 0, axis: 'column' },
+  { type: 'powerUp', powerUp: 'reroll', x: 0, y: 0 },
+  { type: 'powerUp', powerUp: 'filler', x: 6, y: 6 },
+  { type: 'spawn' },
+  { type: 'tick', ms: 1000 },
+  { type: 'garbage', rows: 2 },
+  { type: 'undo' },
+  { type: 'redo' },
+];
+
+// The random bot's game, with an undo and redo after its first move and, in clock modes, a tick after every move
+const playGame = (config: GameConfig, moves: number) => {
+  const bot = getBotStrategy('random')!;
+  const context = { random: createRng(config.seed).next, rotateCost: COST_ROTATE, beamWidth: DEFAULT_SOLVER_OPTIONS.beamWidth };
+  let state: GameState = gameReducer(createInitialState(), {
+    type: 'newGame', seed: config.seed, board: config.board, dealer: config.dealer, variant: getVariant(config.mode),
+  }).state;
+  const actions: GameAction[] = [];
+  const apply = (action: GameAction) => {
+    state = gameReducer(state, action).state;
+    actions.push(action);
+  };
+  while (!state.isGameOver && actions.length < moves) {
+    bot.nextTurn(state, context).forEach(apply);
+    if (actions.length === 1) [{ type: 'undo' }, { type: 'redo' }].forEach(action => apply(action as GameAction));
+    if (config.mode === 'survival') apply({ type: 'tick', ms: 1500 });
+  }
+  return { replay: createReplay(config, actions, state.score), state };
+};
+
+const REGIONS: BoardConfig = { size: 9, regionClears: true };
+
+describe('replay encoding', () => {
+  it('decodes every action to what was encoded', () => {
+    ACTIONS.forEach(action => expect(decodeAction(encodeAction(action))).toEqual(action));
+    expect(encodeAction({ type: 'newGame', seed: 1 })).toBeNull();
+  });
+
+  it('rejects a malformed action tuple', () => {
+    expect(() => decodeAction(['p', 0, 1])).toThrow('Invalid replay action');
+    expect(() => decodeAction(['u', 'x', 1, 1])).toThrow('Invalid power-up');
+    expect(() => decodeAction(['t', 0])).toThrow('Invalid replay action');
+  });
+
+  it.each([
+    { mode: 'classic', seed: 11, board: REGIONS, dealer: getModeDealer('classic', {}) },
+    { mode: 'zen', seed: 12, board: { size: 8, regionClears: false } },
+    { mode: 'survival', seed: 13, board: { size: 8, regionClears: false }, dealer: getModeDealer('survival', {}) },
+  ] as GameConfig[])('rebuilds the same $mode game from its serialized replay', config => {
+    const { replay, state } = playGame(config, 60);
+    const parsed = parseReplay(serializeReplay(replay));
+    expect(parsed.config).toEqual(config);
+    expect(parsed.actions).toEqual(replay.actions);
+    expect(parsed.finalScore).toBe(state.score);
+    const frames = buildReplayFrames(parsed);
+    expect(frames).toHaveLength(replay.actions.length + 1);
+    expect(frames[frames.length - 1]).toEqual(state);
+  });
+});
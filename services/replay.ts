@@ -0,0 +1,189 @@
+import { DifficultyCurve, GameAction, GameConfig, GameMode, GameState, PieceSource, PowerUp, Replay, ShapeSet } from '../types';
+import { createInitialState, gameReducer } from './gameEngine';
+import { DEFAULT_BOARD, normalizeBoardConfig } from './board';
+import { parseDealerConfig } from './pieceDealer';
+import { getVariant } from './modes';
+import { GAME_MODES } from '../constants';
+import { createPuzzleStart, getLevel, isSharedLevelId } from './puzzles';
+
+export const REPLAY_VERSION = 1;
+
+// Compact wire format: short keys and one tuple per action, e.g. ["p",0,3,4]
+type EncodedSource = number | 'H';
+type EncodedPowerUp = 'b' | 'e' | 'n' | 'f';
+type EncodedAxis = 'r' | 'c';
+export type EncodedAction =
+  | ['p', EncodedSource, number, number]
+  | ['h', number]
+  | ['r', EncodedSource]
+  | ['u', EncodedPowerUp, number, number, EncodedAxis?]
+  | ['s']
+  | ['t', number]
+  | ['g', number]
+  | ['z']
+  | ['y'];
+
+interface EncodedReplay {
+  v: number;
+  m: GameMode;
+  s: number;
+  f: number;
+  t: string;
+  b?: [number, 0 | 1]; // Board size and region clears; absent means the default board
+  d?: [ShapeSet, 0 | 1, DifficultyCurve, 0 | 1]; // Shape set, bag, curve, fairness; absent means the uniform dealer
+  l?: string; // Puzzle level id
+  a: EncodedAction[];
+}
+
+const encodeSource = (source: PieceSource): EncodedSource => (source === 'hold' ? 'H' : source);
+
+const decodeSource = (raw: unknown): PieceSource => {
+  if (raw === 'H') return 'hold';
+  if (Number.isInteger(raw) && (raw as number) >= 0) return raw as number;
+  throw new Error(`Invalid piece source: ${JSON.stringify(raw)}`);
+};
+
+const POWER_UP_CODES: Record<PowerUp, EncodedPowerUp> = { bomb: 'b', lineEraser: 'e', reroll: 'n', filler: 'f' };
+
+const decodePowerUp = (raw: unknown): PowerUp => {
+  const entry = Object.entries(POWER_UP_CODES).find(([, code]) => code === raw);
+  if (!entry) throw new Error(`Invalid power-up: ${JSON.stringify(raw)}`);
+  return entry[0] as PowerUp;
+};
+
+const isInt = (v: unknown): v is number => Number.isInteger(v);
+
+export const encodeAction = (action: GameAction): EncodedAction | null => {
+  switch (action.type) {
+    case 'place': return ['p', encodeSource(action.source), action.x, action.y];
+    case 'hold': return ['h', action.source];
+    case 'rotate': return ['r', encodeSource(action.source)];
+    case 'powerUp': {
+      const encoded: EncodedAction = ['u', POWER_UP_CODES[action.powerUp], action.x, action.y];
+      if (action.axis) encoded.push(action.axis === 'column' ? 'c' : 'r');
+      return encoded;
+    }
+    case 'spawn': return ['s'];
+    case 'tick': return ['t', action.ms];
+    case 'garbage': return ['g', action.rows];
+    case 'undo': return ['z'];
+    case 'redo': return ['y'];
+    default: return null; // newGame is implied by the config
+  }
+};
+
+export const decodeAction = (raw: unknown): GameAction => {
+  if (!Array.isArray(raw)) throw new Error('Invalid replay action');
+  const [tag, a, b, c, d] = raw;
+  switch (tag) {
+    case 'p':
+      if (!isInt(b) || !isInt(c)) break;
+      return { type: 'place', source: decodeSource(a), x: b, y: c };
+    case 'h':
+      if (!isInt(a)) break;
+      return { type: 'hold', source: a };
+    case 'r':
+      return { type: 'rotate', source: decodeSource(a) };
+    case 'u': {
+      if (!isInt(b) || !isInt(c) || (d !== undefined && d !== 'r' && d !== 'c')) break;
+      const action: GameAction = { type: 'powerUp', powerUp: decodePowerUp(a), x: b, y: c };
+      if (d) action.axis = d === 'c' ? 'column' : 'row';
+      return action;
+    }
+    case 's':
+      return { type: 'spawn' };
+    case 't':
+      if (!isInt(a) || a <= 0) break;
+      return { type: 'tick', ms: a };
+    case 'g':
+      if (!isInt(a) || a <= 0) break;
+      return { type: 'garbage', rows: a };
+    case 'z':
+      return { type: 'undo' };
+    case 'y':
+      return { type: 'redo' };
+  }
+  throw new Error(`Invalid replay action: ${JSON.stringify(raw)}`);
+};
+
+export const createReplay = (config: GameConfig, actions: GameAction[], finalScore: number): Replay => ({
+  version: REPLAY_VERSION,
+  config,
+  actions: actions.filter(a => a.type !== 'newGame'),
+  finalScore,
+  recordedAt: new Date().toISOString(),
+});
+
+export const serializeReplay = (replay: Replay): string => {
+  const { dealer } = replay.config;
+  const encoded: EncodedReplay = {
+    v: replay.version,
+    m: replay.config.mode,
+    s: replay.config.seed,
+    f: replay.finalScore,
+    t: replay.recordedAt,
+    b: [replay.config.board.size, replay.config.board.regionClears ? 1 : 0],
+    d: dealer && [dealer.shapeSet, dealer.bag ? 1 : 0, dealer.curve, dealer.fair ? 1 : 0],
+    l: replay.config.levelId,
+    a: replay.actions.map(encodeAction).filter((a): a is EncodedAction => a !== null),
+  };
+  return JSON.stringify(encoded);
+};
+
+// Throws on anything that is not a replay this build can play back
+export const parseReplay = (text: string): Replay => {
+  let raw: Partial<EncodedReplay>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+  if (!raw || typeof raw !== 'object') throw new Error('Replay file is empty');
+  if (raw.v !== REPLAY_VERSION) throw new Error(`Unsupported replay version: ${raw.v}`);
+  if (!GAME_MODES.includes(raw.m as GameMode)) throw new Error(`Unknown game mode: ${raw.m}`);
+  if (!isInt(raw.s) || !isInt(raw.f) || !Array.isArray(raw.a)) throw new Error('Replay file is missing fields');
+  if (raw.b !== undefined && (!Array.isArray(raw.b) || !isInt(raw.b[0]))) throw new Error('Invalid board settings');
+  const board = raw.b ? normalizeBoardConfig({ size: raw.b[0], regionClears: raw.b[1] === 1 }) : DEFAULT_BOARD;
+  const d = raw.d;
+  const dealer = d === undefined
+    ? undefined
+    : Array.isArray(d) ? parseDealerConfig({ shapeSet: d[0], bag: d[1] === 1, curve: d[2], fair: d[3] === 1 }) : null;
+  if (dealer === null) throw new Error('Invalid dealer settings');
+  if (raw.m === 'puzzle' && (typeof raw.l !== 'string' || !getLevel(raw.l))) throw new Error(`Unknown puzzle level: ${raw.l}`);
+
+  return {
+    version: raw.v,
+    config: {
+      mode: raw.m as GameMode, seed: raw.s, board,
+      ...(dealer ? { dealer } : {}),
+      ...(raw.m === 'puzzle' ? { levelId: raw.l } : {}),
+    },
+    actions: raw.a.map(decodeAction),
+    finalScore: raw.f,
+    recordedAt: typeof raw.t === 'string' ? raw.t : '',
+  };
+};
+
+// The newGame a recorded game started from
+export const getStartAction = ({ mode, seed, board, dealer, levelId }: GameConfig): GameAction => {
+  const level = levelId ? getLevel(levelId) : null;
+  return level ? createPuzzleStart(level) : { type: 'newGame', seed, board, dealer, variant: getVariant(mode) };
+};
+
+// Re-simulates the game; frames[i] is the state after the first i actions
+export const buildReplayFrames = (replay: Replay): GameState[] => {
+  let state = gameReducer(createInitialState(), getStartAction(replay.config)).state;
+  const frames = [state];
+  for (const action of replay.actions) {
+    state = gameReducer(state, action).state;
+    frames.push(state);
+  }
+  return frames;
+};
+
+// Shared level ids hold the whole level code, far too long for a file name
+const getReplayLabel = ({ levelId, seed }: GameConfig): string =>
+  levelId ? (isSharedLevelId(levelId) ? 'shared' : levelId) : seed.toString(36);
+
+export const getReplayFileName = (replay: Replay): string =>
+  `qblock-${replay.config.mode}-${getReplayLabel(replay.config)}-${replay.finalScore}.json`;
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GameAction, GameState } from '../types';
+import { createInitialState, gameReducer } from './gameEngine';
+import { UNIFORM_DEALER } from './pieceDealer';
+import { encodeAction } from './replay';
+import { SAVE_VERSION, loadSession, saveSession } from './savedGame';
+
+const SAVE_KEY = 'qblock_session';
+
+// Classic on the uniform dealer, one move in, so the history has an entry to migrate
+const START = gameReducer(createInitialState(), { type: 'newGame', seed: 5, dealer: UNIFORM_DEALER }).state;
+const MOVE: GameAction = { type: 'place', source: 0, x: 0, y: 0 };
+const PLAYED = gameReducer(START, MOVE).state;
+
+// Drops the fields a save version did not have yet, as that version wrote them
+const legacyState = (state: GameState, version: number): Record<string, unknown> => {
+  const { pieceQueue, dealer, bag, variant, clockMs, garbageRows, garbageRngState, ...v1 } = state;
+  const strip = (entry: object, keep: Record<string, unknown>) => ({ ...entry, pieceQueue: undefined, bag: undefined, ...keep });
+  const history = (keep: Record<string, unknown>) => ({
+    undoStack: state.undoStack.map(entry => strip(entry, keep)),
+    redoStack: state.redoStack.map(entry => strip(entry, keep)),
+  });
+  if (version === 1) return { ...v1, ...history({}) };
+  if (version === 2) return { ...v1, pieceQueue, ...history({ pieceQueue: null }) };
+  if (version === 3) return { ...v1, pieceQueue, dealer, bag, ...history({ pieceQueue: null, bag: [] }) };
+  return { ...state, garbageRngState: undefined };
+};
+
+const store = (save: unknown) => localStorage.setItem(SAVE_KEY, typeof save === 'string' ? save : JSON.stringify(save));
+
+const fileOf = (version: number, state: unknown) => ({
+  version, mode: 'classic', state, actions: [encodeAction(MOVE)], savedAt: '2025-06-01T12:00:00.000Z',
+});
+
+beforeEach(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('loadSession', () => {
+  it('loads what saveSession wrote', () => {
+    saveSession({ mode: 'classic', state: PLAYED, actions: [MOVE] });
+    const loaded = loadSession();
+    expect(loaded.status).toBe('ok');
+    if (loaded.status !== 'ok') return;
+    expect(loaded.session.state).toEqual(PLAYED);
+    expect(loaded.session.actions).toEqual([MOVE]);
+  });
+
+  it.each([1, 2, 3, 4])(`upgrades a version %i save to version ${SAVE_VERSION}`, version => {
+    store(fileOf(version, legacyState(PLAYED, version)));
+    const loaded = loadSession();
+    expect(loaded.status).toBe('ok');
+    if (loaded.status !== 'ok') return;
+    const { state, actions } = loaded.session;
+    expect(state).toMatchObject({
+      grid: PLAYED.grid,
+      availablePieces: PLAYED.availablePieces,
+      score: PLAYED.score,
+      rngState: PLAYED.rngState,
+      pieceQueue: null,
+      dealer: UNIFORM_DEALER,
+      bag: [],
+      variant: 'standard',
+      clockMs: 0,
+      garbageRows: 0,
+    });
+    expect(state.garbageRngState).toBe(0);
+    expect(state.undoStack).toHaveLength(1);
+    expect(state.undoStack[0]).toMatchObject({ grid: START.grid, pieceQueue: null, bag: [] });
+    expect(actions).toEqual([MOVE]);
+  });
+
+  it('reports a corrupt save as invalid', () => {
+    store('{"version": 5, "mode"');
+    expect(loadSession()).toEqual({ status: 'invalid', reason: 'save is not valid JSON' });
+    store({ ...fileOf(SAVE_VERSION, PLAYED), state: { ...PLAYED, grid: [[null]] } });
+    expect(loadSession()).toMatchObject({ status: 'invalid' });
+    store({ ...fileOf(SAVE_VERSION, PLAYED), state: { ...PLAYED, undoStack: [{ grid: PLAYED.grid }] } });
+    expect(loadSession()).toMatchObject({ status: 'invalid' });
+  });
+
+  it('rejects a save from a newer version instead of loading it', () => {
+    store(fileOf(SAVE_VERSION + 1, PLAYED));
+    expect(loadSession()).toEqual({ status: 'invalid', reason: `save is from a newer version (${SAVE_VERSION + 1})` });
+  });
+});
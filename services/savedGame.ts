@@ -0,0 +1,239 @@
+import { GameAction, GameMode, GameSnapshot, GameState, GameStats, Grid, Shape } from '../types';
+import { GAME_MODES, MAX_BOARD_SIZE, MIN_BOARD_SIZE } from '../constants';
+import { supportsRegions } from './board';
+import { UNIFORM_DEALER, isValidBag, parseDealerConfig } from './pieceDealer';
+import { getVariant } from './modes';
+import { getLevel } from './puzzles';
+import { EncodedAction, decodeAction, encodeAction } from './replay';
+
+// Auto-saved in-progress game. Saves are versioned; older versions are
+// upgraded through MIGRATIONS and everything is validated before it gets
+// anywhere near the renderer.
+
+const SAVE_KEY = 'qblock_session';
+export const SAVE_VERSION = 5;
+
+export interface SavedSession {
+  mode: GameMode;
+  levelId?: string; // Puzzle mode only
+  state: GameState;
+  actions: GameAction[]; // Replay log so far
+  stats?: GameStats; // Absent in saves from before stats were tracked
+  savedAt: string;
+}
+
+export type LoadResult =
+  | { status: 'none' }
+  | { status: 'ok'; session: SavedSession }
+  | { status: 'invalid'; reason: string };
+
+interface SaveFile {
+  version: number;
+  mode: GameMode;
+  levelId?: string;
+  state: GameState;
+  actions: EncodedAction[];
+  stats?: GameStats;
+  savedAt: string;
+}
+
+// A save as some earlier version wrote it. Migrations only touch the state and
+// its history; everything is validated once the last step has run.
+type LegacyState = { [field: string]: unknown; undoStack?: unknown; redoStack?: unknown };
+
+interface LegacySave {
+  [field: string]: unknown;
+  version: number;
+  state?: LegacyState;
+}
+
+// Sets `fields` on every undo and redo entry; a missing or damaged stack is left for validation
+const patchHistory = (state: LegacyState, fields: LegacyState): LegacyState => {
+  const patch = (stack: unknown) => (Array.isArray(stack) ? (stack as unknown[]).map(entry => ({ ...(entry as object), ...fields })) : stack);
+  return { ...state, undoStack: patch(state.undoStack ?? []), redoStack: patch(state.redoStack ?? []) };
+};
+
+// MIGRATIONS[n] upgrades a version n save to version n + 1.
+// Bump SAVE_VERSION and add an entry whenever GameState changes shape.
+const MIGRATIONS: Record<number, (save: LegacySave) => LegacySave> = {
+  // v2: puzzle piece queue; older games always dealt from the PRNG
+  1: save => ({
+    ...save,
+    state: save.state && patchHistory({ ...save.state, pieceQueue: null }, { pieceQueue: null }),
+  }),
+  // v3: configurable dealer; older games were dealt uniformly without a bag
+  2: save => ({
+    ...save,
+    state: save.state && patchHistory({ ...save.state, dealer: UNIFORM_DEALER, bag: [] }, { bag: [] }),
+  }),
+  // v4: timed and endless variants; every earlier game played the standard rules
+  3: save => ({
+    ...save,
+    state: save.state && { ...save.state, variant: 'standard', clockMs: 0, garbageRows: 0 },
+  }),
+  // v5: garbage stream; only versus draws from it, and versus games are never saved
+  4: save => ({
+    ...save,
+    state: save.state && { ...save.state, garbageRngState: 0 },
+  }),
+};
+
+const fail = (reason: string): never => {
+  throw new Error(reason);
+};
+
+// --- Validation ---
+
+const isInt = (v: unknown): v is number => Number.isInteger(v);
+const isCount = (v: unknown): v is number => isInt(v) && v >= 0;
+
+const checkGrid = (grid: unknown, size: number): Grid => {
+  if (!Array.isArray(grid) || grid.length !== size) fail('board has the wrong number of rows');
+  (grid as unknown[]).forEach(row => {
+    if (!Array.isArray(row) || row.length !== size) fail('board has a malformed row');
+    (row as unknown[]).forEach(cell => {
+      if (cell !== null && typeof cell !== 'string') fail('board has an invalid cell');
+    });
+  });
+  return grid as Grid;
+};
+
+const checkShape = (shape: unknown): Shape => {
+  const s = shape as Shape;
+  if (!s || typeof s.id !== 'string' || typeof s.color !== 'string') fail('piece is missing its id or color');
+  if (!Array.isArray(s.matrix) || s.matrix.length === 0) fail('piece has no matrix');
+  const width = s.matrix[0]?.length;
+  s.matrix.forEach(row => {
+    if (!Array.isArray(row) || row.length !== width || row.some(v => v !== 0 && v !== 1)) fail('piece matrix is malformed');
+  });
+  if (!s.matrix.flat().includes(1)) fail('piece matrix is empty');
+  return s;
+};
+
+const checkPieces = (pieces: unknown): Shape[] => {
+  if (!Array.isArray(pieces)) fail('tray is missing');
+  return (pieces as unknown[]).map(checkShape);
+};
+
+const checkQueue = (queue: unknown) => {
+  if (queue === null) return;
+  if (!Array.isArray(queue)) fail('piece queue is malformed');
+  (queue as unknown[]).forEach(checkShape);
+};
+
+const checkSnapshot = (snapshot: unknown, state: GameState): GameSnapshot => {
+  const s = snapshot as GameSnapshot;
+  if (!s || typeof s !== 'object') fail('history entry is malformed');
+  checkGrid(s.grid, state.board.size);
+  if (!isValidBag(s.bag, state.dealer)) fail('history entry has an invalid bag');
+  checkPieces(s.availablePieces);
+  if (s.holdPiece !== null) checkShape(s.holdPiece);
+  checkQueue(s.pieceQueue);
+  if (![s.score, s.keys, s.rngState].every(isCount) || !isCount(s.combo) || s.combo < 1) fail('history entry has invalid counters');
+  return s;
+};
+
+const checkState = (state: unknown): GameState => {
+  const s = state as GameState;
+  if (!s || typeof s !== 'object') fail('game state is missing');
+
+  const board = s.board;
+  if (!board || !isInt(board.size) || board.size < MIN_BOARD_SIZE || board.size > MAX_BOARD_SIZE) fail('board size is invalid');
+  if (typeof board.regionClears !== 'boolean' || (board.regionClears && !supportsRegions(board.size))) fail('board rules are invalid');
+
+  checkGrid(s.grid, board.size);
+  if (checkPieces(s.availablePieces).length === 0 && !s.isGameOver) fail('tray is empty');
+  if (s.holdPiece !== null) checkShape(s.holdPiece);
+  checkQueue(s.pieceQueue);
+  const dealer = parseDealerConfig(s.dealer) ?? fail('dealer settings are invalid');
+  if (!isValidBag(s.bag, dealer)) fail('shape bag is invalid');
+  if (![s.seed, s.rngState, s.garbageRngState, s.score, s.highScore, s.keys, s.clockMs, s.garbageRows].every(isCount)) fail('counters are invalid');
+  if (!isCount(s.combo) || s.combo < 1) fail('combo is invalid');
+  if (typeof s.isGameOver !== 'boolean') fail('game over flag is invalid');
+  if (!Array.isArray(s.undoStack) || !Array.isArray(s.redoStack)) fail('history is missing');
+  s.undoStack.forEach(entry => checkSnapshot(entry, s));
+  s.redoStack.forEach(entry => checkSnapshot(entry, s));
+  return s;
+};
+
+// Stats are a nice-to-have: a damaged tally is dropped instead of failing the whole save
+const readStats = (stats: unknown, size: number): GameStats | undefined => {
+  const s = stats as GameStats;
+  if (!s || typeof s !== 'object' || typeof s.id !== 'string' || typeof s.startedAt !== 'string') return undefined;
+  const counters = [
+    s.durationMs, s.lastActionAt, s.piecesPlaced, s.regionsCleared, s.bestCombo,
+    s.keysEarned, s.keysSpent, s.holdsUsed, s.hintsRequested, s.powerUpsUsed,
+  ];
+  if (!counters.every(isCount)) return undefined;
+  if (!s.linesBySize || typeof s.linesBySize !== 'object' || !Object.values(s.linesBySize).every(isCount)) return undefined;
+  if (!Array.isArray(s.heatmap) || s.heatmap.length !== size) return undefined;
+  if (!s.heatmap.every(row => Array.isArray(row) && row.length === size && row.every(isCount))) return undefined;
+  return s;
+};
+
+const migrate = (raw: unknown): SaveFile => {
+  if (!raw || typeof raw !== 'object' || !isInt((raw as LegacySave).version)) fail('save has no version');
+  let save = raw as LegacySave;
+  if (save.version > SAVE_VERSION) fail(`save is from a newer version (${save.version})`);
+  while (save.version < SAVE_VERSION) {
+    const step = MIGRATIONS[save.version];
+    if (!step) fail(`no migration from version ${save.version}`);
+    save = { ...step(save), version: save.version + 1 };
+  }
+  return save as unknown as SaveFile;
+};
+
+// --- Public API ---
+
+export const saveSession = (session: Omit<SavedSession, 'savedAt'>) => {
+  const file: SaveFile = {
+    version: SAVE_VERSION,
+    mode: session.mode,
+    levelId: session.levelId,
+    state: session.state,
+    actions: session.actions.map(encodeAction).filter((a): a is EncodedAction => a !== null),
+    stats: session.stats,
+    savedAt: new Date().toISOString(),
+  };
+  try {
+    localStorage.setItem(SAVE_KEY, JSON.stringify(file));
+  } catch {
+    // Storage full or disabled; the game goes on unsaved
+  }
+};
+
+export const clearSession = () => localStorage.removeItem(SAVE_KEY);
+
+export const loadSession = (): LoadResult => {
+  const raw = localStorage.getItem(SAVE_KEY);
+  if (!raw) return { status: 'none' };
+
+  try {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return { status: 'invalid', reason: 'save is not valid JSON' };
+    }
+    const file = migrate(parsed);
+    if (!GAME_MODES.includes(file.mode)) fail(`unknown mode "${file.mode}"`);
+    if (file.mode === 'puzzle' && (typeof file.levelId !== 'string' || !getLevel(file.levelId))) fail('puzzle level no longer exists');
+    const state = checkState(file.state);
+    if (state.variant !== getVariant(file.mode)) fail('game rules do not match the mode');
+    if (state.isGameOver) return { status: 'none' }; // Nothing left to continue
+    if (!Array.isArray(file.actions)) fail('action log is missing');
+    return {
+      status: 'ok',
+      session: {
+        mode: file.mode,
+        levelId: file.levelId,
+        state,
+        actions: file.actions.map(decodeAction),
+        stats: readStats(file.stats, state.board.size),
+        savedAt: typeof file.savedAt === 'string' ? file.savedAt : '',
+      },
+    };
+  } catch (err) {
+    return { status: 'invalid', reason: err instanceof Error ? err.message : 'unreadable save' };
+  }
+};
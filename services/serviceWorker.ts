@@ -0,0 +1,31 @@
+// Registers the build's service worker (pwa/sw.js) and reports a new version
+// once it has installed and is waiting for the player's go-ahead.
+
+export const registerServiceWorker = (onUpdate: (waiting: ServiceWorker) => void) => {
+  const url = process.env.SERVICE_WORKER;
+  if (!url || typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+
+  navigator.serviceWorker.register(url).then(registration => {
+    // Without a controller this is the first install, which takes over by itself
+    const isUpdate = () => !!navigator.serviceWorker.controller;
+    if (registration.waiting && isUpdate()) onUpdate(registration.waiting);
+    registration.addEventListener('updatefound', () => {
+      const installing = registration.installing;
+      installing?.addEventListener('statechange', () => {
+        if (installing.state === 'installed' && isUpdate()) onUpdate(installing);
+      });
+    });
+    // A tab left open for days should still hear about new versions
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') registration.update().catch(() => {});
+    });
+  }).catch(() => {
+    // Private mode or an insecure origin: no offline support, the game itself is unaffected
+  });
+};
+
+// Hands control to the waiting version, then reloads into it
+export const activateUpdate = (waiting: ServiceWorker) => {
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  waiting.postMessage({ type: 'skipWaiting' });
+};
@@ -0,0 +1,39 @@
+import { AppSettings } from '../types';
+import { DEFAULT_THEME_ID } from './themes';
+
+const SETTINGS_KEY = 'qblock_settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  showGlyphs: false,
+  highContrast: false,
+  reduceMotion: false,
+  themeId: DEFAULT_THEME_ID,
+  volume: 0.7,
+  muted: false,
+  interfaceSounds: true,
+  gameSounds: true,
+  music: true,
+};
+
+// Copies one stored value over its default when the types agree
+const copySetting = <K extends keyof AppSettings>(target: AppSettings, stored: Record<string, unknown>, key: K) => {
+  const value = stored[key];
+  if (typeof value === typeof DEFAULT_SETTINGS[key]) target[key] = value as AppSettings[K];
+};
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (!stored || typeof stored !== 'object') return DEFAULT_SETTINGS;
+    // Only keep known keys of the right type, defaults fill the rest
+    const merged = { ...DEFAULT_SETTINGS };
+    (Object.keys(DEFAULT_SETTINGS) as (keyof AppSettings)[]).forEach(key => copySetting(merged, stored as Record<string, unknown>, key));
+    return merged;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
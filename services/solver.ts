@@ -0,0 +1,213 @@
+import { Grid, HintMove, PieceSource, Shape } from '../types';
+import { COST_ROTATE, SHAPE_TEMPLATES } from '../constants';
+import { rotateMatrix } from './gameLogic';
+import { canPlacePiece, placePiece, checkLines } from './board';
+
+// Offline move search. Beam search over placement sequences of the tray and
+// hold pieces, scored with board heuristics instead of any lookahead into
+// pieces that haven't been dealt yet.
+
+export interface SolverInput {
+  grid: Grid;
+  availablePieces: Shape[];
+  holdPiece: Shape | null;
+  keys: number;
+  regionClears: boolean;
+}
+
+export interface SolverOptions {
+  allowRotations: boolean;
+  beamWidth: number;
+  rotateCost: number; // Keys per rotation; the benchmark tries other prices
+}
+
+export interface SolverResult {
+  moves: HintMove[];
+  linesCleared: number;
+  keysSpent: number;
+  holes: number;
+  score: number;
+}
+
+export const DEFAULT_SOLVER_OPTIONS: SolverOptions = {
+  allowRotations: true,
+  beamWidth: 12,
+  rotateCost: COST_ROTATE,
+};
+
+const WEIGHTS = {
+  placed: 1000, // Finishing the tray outranks everything else
+  lines: 120,
+  holes: -80,
+  roughness: -6,
+  emptyCells: 2,
+  placeability: 300,
+  keySpent: -15,
+};
+
+interface SearchNode {
+  grid: Grid;
+  tray: Shape[];
+  hold: Shape | null;
+  keys: number;
+  moves: HintMove[];
+  linesCleared: number;
+  keysSpent: number;
+  quickScore: number;
+}
+
+// --- Board Heuristics ---
+
+const isFilled = (grid: Grid, x: number, y: number) =>
+  y < 0 || y >= grid.length || x < 0 || x >= grid[y].length || grid[y][x] !== null;
+
+// Empty cells boxed in on all four sides; only a single dot can ever fill them
+export const countHoles = (grid: Grid): number => {
+  let holes = 0;
+  grid.forEach((row, y) => row.forEach((cell, x) => {
+    if (cell === null && isFilled(grid, x - 1, y) && isFilled(grid, x + 1, y)
+      && isFilled(grid, x, y - 1) && isFilled(grid, x, y + 1)) {
+      holes++;
+    }
+  }));
+  return holes;
+};
+
+// Filled/empty transitions along rows and columns, a proxy for fragmentation
+export const surfaceRoughness = (grid: Grid): number => {
+  let transitions = 0;
+  for (let y = 0; y < grid.length; y++) {
+    for (let x = 0; x < grid[y].length; x++) {
+      const filled = grid[y][x] !== null;
+      if (x + 1 < grid[y].length && filled !== (grid[y][x + 1] !== null)) transitions++;
+      if (y + 1 < grid.length && filled !== (grid[y + 1][x] !== null)) transitions++;
+    }
+  }
+  return transitions;
+};
+
+const countEmpty = (grid: Grid) => grid.flat().filter(c => c === null).length;
+
+const TEMPLATE_SHAPES: Shape[] = SHAPE_TEMPLATES.map((matrix, i) => ({ id: `t${i}`, matrix, color: '' }));
+
+// Share of all shape templates that still fit somewhere, i.e. how survivable the next deal is
+export const placeability = (grid: Grid): number => {
+  const fits = TEMPLATE_SHAPES.filter(shape => {
+    for (let y = 0; y < grid.length; y++) {
+      for (let x = 0; x < grid[y].length; x++) {
+        if (canPlacePiece(grid, shape, x, y)) return true;
+      }
+    }
+    return false;
+  });
+  return fits.length / TEMPLATE_SHAPES.length;
+};
+
+const quickEvaluate = (node: Omit<SearchNode, 'quickScore'>) =>
+  node.moves.length * WEIGHTS.placed
+  + node.linesCleared * WEIGHTS.lines
+  + countHoles(node.grid) * WEIGHTS.holes
+  + surfaceRoughness(node.grid) * WEIGHTS.roughness
+  + countEmpty(node.grid) * WEIGHTS.emptyCells
+  + node.keysSpent * WEIGHTS.keySpent;
+
+const fullEvaluate = (node: SearchNode) => node.quickScore + placeability(node.grid) * WEIGHTS.placeability;
+
+// --- Search ---
+
+// Distinct orientations reachable with the keys at hand, cheapest first
+const orientations = (piece: Shape, keys: number, options: SolverOptions): { matrix: number[][], rotations: number }[] => {
+  const result = [{ matrix: piece.matrix, rotations: 0 }];
+  if (!options.allowRotations) return result;
+
+  const seen = new Set([JSON.stringify(piece.matrix)]);
+  let matrix = piece.matrix;
+  for (let r = 1; r <= 3 && r * options.rotateCost <= keys; r++) {
+    matrix = rotateMatrix(matrix);
+    const key = JSON.stringify(matrix);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.push({ matrix, rotations: r });
+  }
+  return result;
+};
+
+const expand = (node: SearchNode, regionClears: boolean, options: SolverOptions): SearchNode[] => {
+  const children: SearchNode[] = [];
+  const sources: { piece: Shape, source: PieceSource }[] = node.tray.map((piece, i) => ({ piece, source: i }));
+  if (node.hold) sources.push({ piece: node.hold, source: 'hold' });
+
+  for (const { piece, source } of sources) {
+    for (const { matrix, rotations } of orientations(piece, node.keys, options)) {
+      const oriented: Shape = { ...piece, matrix };
+      const cost = rotations * options.rotateCost;
+      for (let y = 0; y < node.grid.length; y++) {
+        for (let x = 0; x < node.grid[y].length; x++) {
+          if (!canPlacePiece(node.grid, oriented, x, y)) continue;
+
+          const { newGrid, linesCleared, regionsCleared } = checkLines(placePiece(node.grid, oriented, x, y), regionClears);
+          const cleared = linesCleared + regionsCleared;
+          const child = {
+            grid: newGrid,
+            tray: source === 'hold' ? node.tray : node.tray.filter((_, i) => i !== source),
+            hold: source === 'hold' ? null : node.hold,
+            keys: node.keys - cost + cleared, // Clears pay out keys mid-sequence
+            moves: [...node.moves, { source, rotations, x, y }],
+            linesCleared: node.linesCleared + cleared,
+            keysSpent: node.keysSpent + cost,
+          };
+          children.push({ ...child, quickScore: quickEvaluate(child) });
+        }
+      }
+    }
+  }
+  return children;
+};
+
+const nodeKey = (node: SearchNode) =>
+  node.grid.map(row => row.map(c => (c ? 1 : 0)).join('')).join('|')
+  + `#${node.tray.map(p => p.id).join(',')}#${node.hold?.id ?? ''}#${node.keys}`;
+
+export const solve = (input: SolverInput, options: SolverOptions = DEFAULT_SOLVER_OPTIONS): SolverResult | null => {
+  const root: SearchNode = {
+    grid: input.grid,
+    tray: input.availablePieces,
+    hold: input.holdPiece,
+    keys: input.keys,
+    moves: [],
+    linesCleared: 0,
+    keysSpent: 0,
+    quickScore: 0,
+  };
+
+  let beam = [root];
+  let best: { node: SearchNode, score: number } | null = null;
+
+  while (beam.length > 0) {
+    // Permutations reaching the same board collapse into one node
+    const unique = new Map<string, SearchNode>();
+    for (const child of beam.flatMap(node => expand(node, input.regionClears, options))) {
+      const key = nodeKey(child);
+      const existing = unique.get(key);
+      if (!existing || existing.quickScore < child.quickScore) unique.set(key, child);
+    }
+
+    const ranked = [...unique.values()].sort((a, b) => b.quickScore - a.quickScore);
+    beam = ranked.slice(0, options.beamWidth);
+
+    // Placeability is expensive, so it only refines the survivors
+    for (const node of beam) {
+      const score = fullEvaluate(node);
+      if (!best || score > best.score) best = { node, score };
+    }
+  }
+
+  if (!best) return null;
+  return {
+    moves: best.node.moves,
+    linesCleared: best.node.linesCleared,
+    keysSpent: best.node.keysSpent,
+    holes: countHoles(best.node.grid),
+    score: best.score,
+  };
+};
@@ -0,0 +1,20 @@
+import { solve, SolverInput, SolverOptions, SolverResult } from './solver';
+
+// Runs the solver off the main thread so searching never stalls input or animation
+
+export interface SolverRequest {
+  id: number;
+  input: SolverInput;
+  options?: SolverOptions;
+}
+
+export interface SolverResponse {
+  id: number;
+  result: SolverResult | null;
+}
+
+self.onmessage = (e: MessageEvent<SolverRequest>) => {
+  const { id, input, options } = e.data;
+  const response: SolverResponse = { id, result: solve(input, options) };
+  self.postMessage(response);
+};
@@ -0,0 +1,55 @@
+import { GameRecord } from '../types';
+
+// Finished games live in IndexedDB: the history grows without bound and
+// localStorage is reserved for small settings.
+
+const DB_NAME = 'qblock';
+const DB_VERSION = 1;
+const GAMES_STORE = 'games';
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(GAMES_STORE)) {
+        const store = db.createObjectStore(GAMES_STORE, { keyPath: 'id' });
+        store.createIndex('endedAt', 'endedAt');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs one request in its own transaction and closes the connection afterwards
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(GAMES_STORE, mode);
+      const request = run(tx.objectStore(GAMES_STORE));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// put, not add: a game ended again after an undo replaces its earlier record
+export const saveGameRecord = async (record: GameRecord): Promise<void> => {
+  await withStore('readwrite', store => store.put(record));
+};
+
+// Oldest first
+export const loadGameRecords = async (): Promise<GameRecord[]> =>
+  withStore<GameRecord[]>('readonly', store => store.index('endedAt').getAll());
+
+export const clearGameRecords = async (): Promise<void> => {
+  await withStore('readwrite', store => store.clear());
+};
@@ -0,0 +1,90 @@
+import { Theme, ThemeColor, ThemeFont } from '../types';
+import { COLORS, THEME_COLORS, THEME_FONTS } from '../constants';
+
+// Built-in looks plus one user-made custom theme. Themes never touch game
+// state: piece colors are swapped when drawn (see palette.ts) and everything
+// else is a CSS variable read by the styles in index.html.
+
+const CUSTOM_THEME_KEY = 'qblock_custom_theme';
+export const DEFAULT_THEME_ID = 'neon';
+export const CUSTOM_THEME_ID = 'custom';
+
+export const BUILT_IN_THEMES: Theme[] = [
+  {
+    id: DEFAULT_THEME_ID, name: 'Neon', accent: 'cyan', background: '#0f172a', board: '#1e293bb3',
+    pieces: [...COLORS], glow: 0.6, font: 'orbitron',
+  },
+  {
+    id: 'synthwave', name: 'Synthwave', accent: 'purple', background: '#1a0b2e', board: '#2e1048b3',
+    pieces: ['#22d3ee', '#c084fc', '#f472b6', '#a3e635', '#fb923c'], glow: 1, font: 'orbitron',
+  },
+  {
+    id: 'forest', name: 'Forest', accent: 'emerald', background: '#0b1f17', board: '#143226b3',
+    pieces: ['#5eead4', '#a3e635', '#fca5a5', '#34d399', '#fde047'], glow: 0.2, font: 'grotesk',
+  },
+  {
+    id: 'ember', name: 'Ember', accent: 'amber', background: '#1c1008', board: '#3c1e0cb3',
+    pieces: ['#fde68a', '#fb7185', '#ef4444', '#facc15', '#f97316'], glow: 0.8, font: 'retro',
+  },
+  {
+    id: 'sakura', name: 'Sakura', accent: 'rose', background: '#1f1420', board: '#40243a99',
+    pieces: ['#93c5fd', '#d8b4fe', '#f9a8d4', '#86efac', '#fcd34d'], glow: 0.3, font: 'grotesk',
+  },
+  {
+    id: 'terminal', name: 'Terminal', accent: 'emerald', background: '#000000', board: '#0a140ae6',
+    pieces: ['#4ade80', '#bbf7d0', '#16a34a', '#86efac', '#22c55e'], glow: 0.5, font: 'mono',
+  },
+];
+
+const DEFAULT_THEME = BUILT_IN_THEMES[0];
+
+const isColor = (v: unknown): v is string => typeof v === 'string' && /^#[0-9a-f]{6}([0-9a-f]{2})?$/i.test(v);
+
+// --- Custom theme ---
+
+export const loadCustomTheme = (): Theme => {
+  const fallback: Theme = { ...DEFAULT_THEME, id: CUSTOM_THEME_ID, name: 'Custom' };
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_THEME_KEY) || 'null');
+    if (!stored || typeof stored !== 'object') return fallback;
+    // Field by field, so one bad value doesn't throw the rest away
+    return {
+      ...fallback,
+      accent: stored.accent in THEME_COLORS ? stored.accent as ThemeColor : fallback.accent,
+      background: isColor(stored.background) ? stored.background : fallback.background,
+      board: isColor(stored.board) ? stored.board : fallback.board,
+      pieces: Array.isArray(stored.pieces) && stored.pieces.length === COLORS.length && stored.pieces.every(isColor)
+        ? stored.pieces
+        : fallback.pieces,
+      glow: typeof stored.glow === 'number' ? Math.min(1, Math.max(0, stored.glow)) : fallback.glow,
+      font: stored.font in THEME_FONTS ? stored.font as ThemeFont : fallback.font,
+    };
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveCustomTheme = (theme: Theme) => {
+  localStorage.setItem(CUSTOM_THEME_KEY, JSON.stringify({ ...theme, id: CUSTOM_THEME_ID }));
+};
+
+// Unknown ids (a theme removed in an update) fall back to the default
+export const getTheme = (id: string, custom: Theme): Theme =>
+  id === CUSTOM_THEME_ID ? custom : BUILT_IN_THEMES.find(t => t.id === id) ?? DEFAULT_THEME;
+
+// --- Applying ---
+
+export const applyTheme = (theme: Theme, root: HTMLElement = document.documentElement) => {
+  const accent = THEME_COLORS[theme.accent];
+  const font = THEME_FONTS[theme.font];
+  root.style.setProperty('--page-bg', theme.background);
+  root.style.setProperty('--board-bg', theme.board);
+  root.style.setProperty('--accent-from', accent.from);
+  root.style.setProperty('--accent-to', accent.to);
+  root.style.setProperty('--font-display', font.display);
+  root.style.setProperty('--font-body', font.body);
+};
+
+// Halo behind a filled cell; none at glow 0
+export const getCellGlow = (color: string, glow: number): string | undefined =>
+  glow > 0 ? `0 0 ${Math.round(glow * 14)}px ${Math.round(glow * 2)}px ${color}66` : undefined;
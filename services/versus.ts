@@ -0,0 +1,129 @@
+import { BoardConfig, GameAction, GameEvent, GameState, InputAction, PieceSource, VersusCursor, VersusSide } from '../types';
+import { createInitialState, gameReducer, getPiece } from './gameEngine';
+import { DEFAULT_DEALER } from './pieceDealer';
+import { randomSeed } from './random';
+
+// Same-device versus. Each player runs an ordinary engine state under the
+// versus variant (no undo, no power-ups); clears are turned into garbage rows
+// pushed onto the other board through the engine's garbage action.
+
+export const VERSUS_ROUNDS = [1, 3, 5];
+
+export type VersusPlayers = [GameState, GameState];
+
+export const otherSide = (side: VersusSide): VersusSide => (side === 0 ? 1 : 0);
+
+// Both players get the same seed, so a round is decided by play rather than by the deal.
+// Garbage gaps come from a stream of their own, so taking an attack never reorders a deck.
+export const startRound = (board: BoardConfig, seed: number = randomSeed()): VersusPlayers => {
+  const start: GameAction = { type: 'newGame', seed, board, dealer: DEFAULT_DEALER, variant: 'versus' };
+  const state = gameReducer(createInitialState(), start).state;
+  return [state, state];
+};
+
+// One row per line beyond the first, plus one for every two combo steps.
+// `combo` is the attacker's combo after the move, which already counts this clear.
+export const getAttack = (events: GameEvent[], combo: number): number => {
+  const cleared = events.reduce((n, e) => (e.type === 'linesCleared' ? n + e.count + e.regions : n), 0);
+  if (cleared === 0) return 0;
+  return cleared - 1 + Math.floor((combo - 1) / 2);
+};
+
+export interface VersusTurn {
+  players: VersusPlayers;
+  events: GameEvent[]; // The acting player's
+  attack: number; // Garbage rows sent to the other player
+}
+
+// Null when the engine rejects the action
+export const playTurn = (players: VersusPlayers, side: VersusSide, action: GameAction): VersusTurn | null => {
+  const { state, events } = gameReducer(players[side], action);
+  if (state === players[side]) return null;
+
+  const next: VersusPlayers = [...players];
+  next[side] = state;
+  const attack = action.type === 'place' ? getAttack(events, state.combo) : 0;
+  if (attack > 0) {
+    const target = otherSide(side);
+    next[target] = gameReducer(next[target], { type: 'garbage', rows: attack }).state;
+  }
+  return { players: next, events, attack };
+};
+
+// The player still standing wins; if both went down together, the higher score takes it
+export const getRoundWinner = (players: VersusPlayers): VersusSide | null => {
+  const [a, b] = players;
+  if (!a.isGameOver && !b.isGameOver) return null;
+  if (a.isGameOver && b.isGameOver) return a.score >= b.score ? 0 : 1;
+  return a.isGameOver ? 1 : 0;
+};
+
+// Online race: nobody attacks, so the round lasts until both boards lock up. Null until then, or on a tie.
+export const getRaceWinner = (players: VersusPlayers): VersusSide | 'draw' | null => {
+  const [a, b] = players;
+  if (!a.isGameOver || !b.isGameOver) return null;
+  return a.score === b.score ? 'draw' : a.score > b.score ? 0 : 1;
+};
+
+export const getMatchWinner = (wins: [number, number], rounds: number): VersusSide | null => {
+  const needed = Math.ceil(rounds / 2);
+  if (wins[0] >= needed) return 0;
+  if (wins[1] >= needed) return 1;
+  return null;
+};
+
+// --- Controls ---
+
+// Keeps the cursor's piece fully on the board; falls back to the first tray piece
+export const clampCursor = (c: VersusCursor, state: GameState): VersusCursor | null => {
+  const source = getPiece(state, c.source) ? c.source : 0;
+  const piece = getPiece(state, source);
+  if (!piece) return null;
+  const size = state.grid.length;
+  return {
+    source,
+    x: Math.max(0, Math.min(size - piece.matrix[0].length, c.x)),
+    y: Math.max(0, Math.min(size - piece.matrix.length, c.y)),
+  };
+};
+
+// Pointer players tap a piece, then the cell its center should cover
+export const getTapPlacement = (state: GameState, source: PieceSource, x: number, y: number): GameAction | null => {
+  const piece = getPiece(state, source);
+  if (!piece) return null;
+  return {
+    type: 'place',
+    source,
+    x: x - Math.floor((piece.matrix[0].length - 1) / 2),
+    y: y - Math.floor((piece.matrix.length - 1) / 2),
+  };
+};
+
+export type CursorInput = { cursor: VersusCursor } | { action: GameAction } | null;
+
+// Keyboard/gamepad input: navigation yields the moved cursor, the rest an engine action to try
+export const resolveCursorInput = (cursor: VersusCursor, state: GameState, input: InputAction): CursorInput => {
+  const moveTo = (next: VersusCursor): CursorInput => {
+    const clamped = clampCursor(next, state);
+    return clamped && { cursor: clamped };
+  };
+  switch (input) {
+    case 'cursorUp': return moveTo({ ...cursor, y: cursor.y - 1 });
+    case 'cursorDown': return moveTo({ ...cursor, y: cursor.y + 1 });
+    case 'cursorLeft': return moveTo({ ...cursor, x: cursor.x - 1 });
+    case 'cursorRight': return moveTo({ ...cursor, x: cursor.x + 1 });
+    case 'nextPiece':
+    case 'prevPiece': {
+      const sources: PieceSource[] = state.availablePieces.map((_, i) => i);
+      if (state.holdPiece) sources.push('hold');
+      const step = input === 'nextPiece' ? 1 : -1;
+      const index = sources.indexOf(cursor.source);
+      return moveTo({ ...cursor, source: sources[(index + step + sources.length) % sources.length] });
+    }
+    case 'selectHold': return state.holdPiece ? moveTo({ ...cursor, source: 'hold' }) : null;
+    case 'rotate': return { action: { type: 'rotate', source: cursor.source } };
+    case 'hold': return typeof cursor.source === 'number' ? { action: { type: 'hold', source: cursor.source } } : null;
+    case 'confirm': return { action: { type: 'place', source: cursor.source, x: cursor.x, y: cursor.y } };
+    default: return null; // No undo, redo or hints in versus
+  }
+};
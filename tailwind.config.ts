@@ -0,0 +1,11 @@
+import type { Config } from 'tailwindcss';
+
+// Compiled at build time instead of the Play CDN, so the game is styled offline.
+// Class names must appear whole in these files for Tailwind to find them.
+export default {
+  content: ['./index.html', './App.tsx', './components/**/*.tsx', './hooks/**/*.ts', './services/**/*.ts'],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+} satisfies Config;
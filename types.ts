@@ -8,7 +8,51 @@ export interface Shape {
   color: string;
 }
 
+export type GameMode = 'classic' | 'daily' | 'puzzle' | 'blitz' | 'zen' | 'survival';
+
+// Rules the engine plays by; every mode maps to one (see services/modes)
+export type GameVariant = 'standard' | 'blitz' | 'zen' | 'survival' | 'versus';
+
+export interface BoardConfig {
+  size: number; // Square board edge, MIN_BOARD_SIZE..MAX_BOARD_SIZE
+  regionClears: boolean; // Completed 3x3 regions clear too (size must be a multiple of 3)
+}
+
+export type ShapeSet = 'classic' | 'extended' | 'pentomino';
+export type DifficultyCurve = 'none' | 'gentle' | 'steep';
+
+// How random trays are dealt (see services/pieceDealer)
+export interface DealerConfig {
+  shapeSet: ShapeSet;
+  bag: boolean; // Deal from shuffled bags so no shape goes missing for long
+  curve: DifficultyCurve; // Shifts the mix toward bigger shapes as the score rises
+  fair: boolean; // Every tray holds at least one piece that fits the board
+  weights?: number[]; // Replaces the shape set's own weights, in template order. Benchmark runs only
+}
+
+// What undo restores. highScore is deliberately absent: a best score, once reached, is never rolled back
+export interface GameSnapshot {
+  grid: Grid;
+  availablePieces: Shape[];
+  holdPiece: Shape | null;
+  score: number;
+  keys: number;
+  combo: number;
+  rngState: number;
+  bag: number[];
+  pieceQueue: Shape[] | null;
+}
+
 export interface GameState {
+  board: BoardConfig;
+  seed: number; // Seed the piece sequence started from
+  rngState: number; // Current PRNG state, advanced on every deal
+  garbageRngState: number; // Versus: separate PRNG for garbage gaps, so attacks never shift the deal
+  dealer: DealerConfig;
+  bag: number[]; // Shape indices left in the current bag, drawn from the end
+  variant: GameVariant;
+  clockMs: number; // Blitz: time left. Survival: time until the next garbage row. Unused otherwise
+  garbageRows: number; // Survival: rows pushed up so far
   grid: Grid;
   score: number;
   highScore: number;
@@ -17,10 +61,218 @@ export interface GameState {
   holdPiece: Shape | null;
   isGameOver: boolean;
   combo: number;
+  pieceQueue: Shape[] | null; // Puzzle pieces still to be dealt; null deals from the PRNG
+  undoStack: GameSnapshot[]; // Oldest first, bounded by UNDO_LIMIT
+  redoStack: GameSnapshot[];
+}
+
+export type PieceSource = number | 'hold'; // Index in availablePieces or 'hold'
+
+// One step of a suggested line of play: flip `rotations` times, then drop at (x, y)
+export interface HintMove {
+  source: PieceSource; // Relative to the tray after the previous moves were applied
+  rotations: number;
+  x: number;
+  y: number;
+}
+
+export interface Hint {
+  moves: HintMove[];
+  rationale: string;
+  provider: 'local' | 'gemini';
+}
+
+// Key-bought tools. Targeted ones aim at a board cell; the eraser also picks an axis.
+export type PowerUp = 'bomb' | 'lineEraser' | 'reroll' | 'filler';
+export type LineAxis = 'row' | 'column';
+
+export type GameAction =
+  | { type: 'newGame'; seed: number; highScore?: number; board?: BoardConfig; dealer?: DealerConfig; variant?: GameVariant; puzzle?: PuzzleSetup }
+  | { type: 'tick'; ms: number } // Advances the clock of timed variants
+  | { type: 'garbage'; rows: number } // Versus attack from the other player
+  | { type: 'spawn' }
+  | { type: 'place'; source: PieceSource; x: number; y: number }
+  | { type: 'hold'; source: number }
+  | { type: 'rotate'; source: PieceSource }
+  | { type: 'powerUp'; powerUp: PowerUp; x: number; y: number; axis?: LineAxis }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+// Everything besides the action log needed to re-simulate a game
+export interface GameConfig {
+  mode: GameMode;
+  seed: number;
+  board: BoardConfig;
+  dealer?: DealerConfig; // Absent means the legacy uniform dealer
+  levelId?: string; // Puzzle mode only
+}
+
+// --- Puzzles ---
+
+export type PuzzleGoal =
+  | { type: 'clearAll' }
+  | { type: 'score'; points: number; pieces: number } // Reach `points` within the first `pieces` placements
+  | { type: 'clearCells'; cells: [number, number][] }; // [x, y] cells that must all end up empty
+
+export interface PuzzleLevel {
+  id: string;
+  name: string;
+  board: BoardConfig;
+  grid: Grid;
+  pieces: Shape[]; // Dealt in order, TRAY_SIZE at a time
+  keys: number;
+  goal: PuzzleGoal;
+  stars: [number, number]; // Scores needed for the second and third star; winning earns the first
+  solution?: GameAction[]; // Known solution, lets the validator prove solvability quickly
+}
+
+// Starting position handed to the engine's newGame
+export interface PuzzleSetup {
+  grid: Grid;
+  pieces: Shape[];
+  keys: number;
+}
+
+export interface PuzzleOutcome {
+  status: 'playing' | 'won' | 'lost';
+  stars: number; // 0 unless won
+}
+
+export interface PuzzleBest {
+  stars: number;
+  score: number;
+}
+
+export interface Replay {
+  version: number;
+  config: GameConfig;
+  actions: GameAction[]; // Accepted actions after newGame, in order
+  finalScore: number;
+  recordedAt: string; // ISO timestamp
+}
+
+// Running tally for the game in progress; saved with the session so resuming keeps it
+export interface GameStats {
+  id: string; // Stable per game, so a game ended twice (undo after game over) is stored once
+  mode: GameMode;
+  board: BoardConfig;
+  seed: number;
+  startedAt: string; // ISO timestamp
+  durationMs: number; // Active play time, idle gaps are capped
+  lastActionAt: number; // Epoch ms of the last accepted action
+  piecesPlaced: number;
+  linesBySize: Record<number, number>; // Placements that cleared n lines at once -> count
+  regionsCleared: number;
+  bestCombo: number;
+  keysEarned: number;
+  keysSpent: number;
+  holdsUsed: number;
+  hintsRequested: number;
+  powerUpsUsed: number;
+  heatmap: number[][]; // Placed blocks per board cell
+}
+
+// A finished game as stored in the stats history
+export interface GameRecord extends Omit<GameStats, 'lastActionAt'> {
+  score: number;
+  endedAt: string; // ISO timestamp
+}
+
+// Values achievements are measured against. Turn metrics are read after every
+// accepted action; lifetime metrics accumulate across games.
+export type AchievementMetric =
+  | 'linesAtOnce' | 'combo' | 'keys' | 'score' | 'holdsThisGame'
+  | 'totalLines' | 'totalHolds' | 'boardClears' | 'gamesPlayed';
+
+export interface Achievement {
+  id: string;
+  title: string;
+  description: string;
+  metric: AchievementMetric;
+  target: number;
+  trigger?: 'turn' | 'gameOver'; // Default 'turn'; 'gameOver' only checks finished games
+  limits?: Partial<Record<AchievementMetric, number>>; // Metric caps that must also hold, e.g. no holds
+  incremental?: boolean; // Shows a progress bar on the achievements page
+}
+
+// What one game has added to the achievement progress so far. Undo and redo
+// roll it back and forth with the board, so nothing a taken-back move earned sticks.
+export interface GameTallySnapshot {
+  totals: Record<string, number>;
+  unlocked: Record<string, string>;
+  best: Record<string, number>;
+}
+
+export interface GameTally extends GameTallySnapshot {
+  id: string; // GameStats.id of the game
+  undoStack: GameTallySnapshot[]; // Before each undoable move, like the engine's history
+  redoStack: GameTallySnapshot[];
 }
 
+// unlocked, best and totals cover every game before the current one
+export interface AchievementProgress {
+  unlocked: Record<string, string>; // id -> ISO unlock time
+  best: Record<string, number>; // id -> best value reached so far
+  totals: Record<string, number>; // Lifetime metric -> running total
+  game?: GameTally; // The current game, settled into the rest once the next one starts
+}
+
+export type GameEvent =
+  | { type: 'piecePlaced'; cells: { x: number, y: number }[]; color: string }
+  | { type: 'linesCleared'; count: number; regions: number; color: string; cells: { x: number, y: number, color: string }[] }
+  | { type: 'comboChanged'; combo: number }
+  | { type: 'keysEarned'; amount: number }
+  | { type: 'powerUpUsed'; powerUp: PowerUp; cost: number }
+  | { type: 'timeAdded'; ms: number }
+  | { type: 'garbageRisen'; rows: number }
+  | { type: 'trayReshuffled' }
+  | { type: 'gameOver'; score: number };
+
+// Device-independent commands; keyboard and gamepad both translate into these
+export type InputAction =
+  | 'cursorUp' | 'cursorDown' | 'cursorLeft' | 'cursorRight'
+  | 'nextPiece' | 'prevPiece' | 'selectHold'
+  | 'rotate' | 'hold' | 'confirm' | 'cancel'
+  | 'undo' | 'redo' | 'hint';
+
+export type KeyBindings = Record<InputAction, string[]>; // KeyboardEvent.code values
+
+// Player preferences, persisted across sessions
+export interface AppSettings {
+  showGlyphs: boolean; // Pattern glyph per piece color
+  highContrast: boolean;
+  reduceMotion: boolean; // On top of the system's prefers-reduced-motion
+  themeId: string;
+  volume: number; // 0-1 master volume
+  muted: boolean;
+  interfaceSounds: boolean; // Pickup and hover blips
+  gameSounds: boolean; // Drops, clears, keys, rotate, hold, game over
+  music: boolean;
+}
+
+export type SoundCategory = 'interface' | 'gameplay' | 'music';
+
+export type SoundEffect =
+  | 'pickup' | 'hoverValid' | 'hoverInvalid'
+  | 'drop' | 'lineClear' | 'keyEarned' | 'rotate' | 'hold' | 'garbage' | 'gameOver';
+
 export type ThemeColor = 'cyan' | 'purple' | 'emerald' | 'rose' | 'amber';
 
+export type ThemeFont = 'orbitron' | 'grotesk' | 'retro' | 'mono';
+
+// A visual theme. Game state keeps the canonical COLORS; a theme's pieces are
+// shown in their place, index for index.
+export interface Theme {
+  id: string;
+  name: string;
+  accent: ThemeColor; // Buttons, score and title gradients
+  background: string; // Page
+  board: string; // Board and panel surfaces, may carry alpha (#rrggbbaa)
+  pieces: string[];
+  glow: number; // 0 (flat) to 1 (full neon) halo around filled cells
+  font: ThemeFont;
+}
+
 export interface Particle {
   id: number;
   x: number;
@@ -28,5 +280,63 @@ export interface Particle {
   color: string;
   vx: number;
   vy: number;
-  life: number;
-}
\ No newline at end of file
+  life: number; // 1 when spawned, dead at 0
+  decay: number; // Life lost per second
+  size: number;
+  gravity: number; // px/s², positive pulls down
+}
+// --- Versus ---
+
+export type VersusSide = 0 | 1;
+
+// Hot-seat takes turns on one board at a time; split plays both at once, pointer on the first board and keyboard/gamepad on the second
+export type VersusInput = 'hotseat' | 'split';
+
+export interface VersusConfig {
+  rounds: number; // Best of N
+  input: VersusInput;
+  board: BoardConfig;
+}
+
+// Keyboard/gamepad ghost on a versus board
+export interface VersusCursor {
+  source: PieceSource;
+  x: number;
+  y: number;
+}
+
+// --- Online ---
+
+// Race: same pieces, highest score once both boards lock up. Garbage: clears attack like local versus.
+export type OnlineRules = 'race' | 'garbage';
+
+export type ConnectionStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+// --- Profiles & Leaderboard ---
+
+export interface Profile {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+}
+
+export interface LeaderboardEntry {
+  id: string;
+  table: string; // See getTableId in services/leaderboard
+  profileId: string;
+  name: string;
+  score: number;
+  seed: number;
+  submittedAt: string; // ISO timestamp, set by the backend
+  replay: string; // Serialized replay the score was verified against
+}
+
+export interface ScoreSubmission {
+  profileId: string;
+  name: string;
+  replay: string; // serializeReplay output: seed, settings and the full move log
+}
+
+export type SubmitResult =
+  | { status: 'accepted'; entry: LeaderboardEntry; rank: number | null } // Rank is 1-based, null outside the top 10
+  | { status: 'rejected'; reason: string };
@@ -1,18 +1,77 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { readFileSync, readdirSync, statSync } from 'fs';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from 'tailwindcss';
+import { getStarterPack } from './services/puzzles';
+import { validateLevels } from './services/puzzleValidator';
+import { hashSeed } from './services/random';
 
-export default defineConfig(({ mode }) => {
+// Refuses to ship a puzzle pack containing a level nobody can win
+const validateLevelsPlugin = (): Plugin => ({
+  name: 'validate-levels',
+  apply: 'build',
+  buildStart() {
+    const failures = validateLevels(getStarterPack()).filter(report => report.solvable !== true);
+    if (failures.length > 0) {
+      this.error(`Unsolvable puzzle levels:\n${failures.map(f => `  ${f.id}: ${f.problems.join('; ')}`).join('\n')}`);
+    }
+  },
+});
+
+const listFiles = (dir: string): string[] =>
+  readdirSync(dir, { recursive: true, encoding: 'utf8' })
+    .filter(file => statSync(path.join(dir, file)).isFile())
+    .map(file => file.split(path.sep).join('/'));
+
+// Emits sw.js from pwa/sw.js with every file of the build to precache. The
+// cache version follows the contents, so any change ships as an update.
+const precachePlugin = (): Plugin => {
+  let publicDir = '';
+  return {
+    name: 'precache',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_, bundle) {
+      const contents = new Map<string, string | Uint8Array>();
+      Object.values(bundle).forEach(output => {
+        contents.set(output.fileName, output.type === 'chunk' ? output.code : output.source);
+      });
+      if (publicDir) listFiles(publicDir).forEach(file => contents.set(file, readFileSync(path.join(publicDir, file))));
+      // Browsers with service workers all read woff2, so the woff fallbacks are never requested
+      const files = [...contents.keys()].filter(file => !file.endsWith('.map') && !file.endsWith('.woff')).sort();
+      const version = hashSeed(files.map(file => `${file}:${hashSeed(Buffer.from(contents.get(file)!).toString('latin1'))}`).join('\n'));
+      const source = readFileSync(path.resolve(__dirname, 'pwa/sw.js'), 'utf8')
+        .replace('__PRECACHE_VERSION__', version.toString(36))
+        .replace('__PRECACHE_FILES__', JSON.stringify(files));
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    },
+  };
+};
+
+export default defineConfig(({ mode, command }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), validateLevelsPlugin(), precachePlugin()],
+      css: {
+        postcss: {
+          plugins: [tailwindcss()],
+        },
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.RELAY_URL': JSON.stringify(env.RELAY_URL),
+        'process.env.LEADERBOARD_URL': JSON.stringify(env.LEADERBOARD_URL),
+        // Only builds have a service worker; the dev server serves straight from source
+        'process.env.SERVICE_WORKER': JSON.stringify(command === 'build' ? '/sw.js' : '')
       },
       resolve: {
         alias: {